@@ -0,0 +1,163 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+
+/**
+ * Stand-in for the Gemini REST API (and the OpenAI-compatible and
+ * Ollama-style endpoints) so the proxy can be exercised without a key:
+ *
+ *   pnpm server:fake-upstream
+ *   LLM_BASE_URL=http://localhost:8788 GEMINI_KEY=fake pnpm server
+ *
+ * `FAKE_UPSTREAM_MODE=quota` answers every request with a 429,
+ * `safety` blocks every Gemini prompt as dangerous content, and `truncate`
+ * stops Gemini's JSON answers halfway with `MAX_TOKENS` and serves the rest
+ * to the plain-text continuation request.
+ */
+
+const PORT = Number(process.env.FAKE_UPSTREAM_PORT ?? 8788);
+const MODE = process.env.FAKE_UPSTREAM_MODE ?? "ok";
+
+const CANNED_ANSWER = JSON.stringify({
+  title: "Fake upstream answer",
+  summary: "Canned response served by the local fake upstream.",
+  content: [
+    { type: "text", content: "This answer did not come from a real model." },
+    { type: "list", title: "Key Points", items: ["Point 1", "Point 2"] },
+    {
+      type: "table",
+      title: "Comparison",
+      columns: ["Option", "Cost"],
+      rows: [["Option 1", "Low"], ["Option 2", "High"]],
+    },
+    { type: "citation", act: "Sample Act, 2023", section: "Section 1", content: "Sample provision." },
+    { type: "resource", title: "Sample excerpt", content: "Sample resource.", sourceId: "bns-103" },
+    { type: "checklist", title: "Documents", items: ["Document 1", "Document 2"] },
+    { type: "timeline", events: [{ when: "Day 1", event: "Event 1" }, { when: "Day 30", event: "Event 2" }] },
+    { type: "steps", title: "Procedure", items: ["Step 1", "Step 2"] },
+    {
+      type: "warning",
+      content:
+        "This is general legal information only, not specific legal advice. Consult a qualified lawyer for your specific situation.",
+    },
+  ],
+});
+
+// Token counts reported with every answer
+const USAGE = { promptTokenCount: 120, candidatesTokenCount: 180, totalTokenCount: 300 };
+
+function sendJSON(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+async function readBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+const BLOCKED = {
+  promptFeedback: {
+    blockReason: "SAFETY",
+    safetyRatings: [
+      { category: "HARM_CATEGORY_HARASSMENT", probability: "LOW" },
+      { category: "HARM_CATEGORY_DANGEROUS_CONTENT", probability: "HIGH" },
+    ],
+  },
+  usageMetadata: { promptTokenCount: 120, totalTokenCount: 120 },
+};
+
+const HALF = Math.ceil(CANNED_ANSWER.length / 2);
+
+/**
+ * Text and finish reason of a Gemini answer. In `truncate` mode JSON-mode
+ * requests get the first half, continuations (no JSON mode) the rest.
+ */
+function geminiAnswer(body: string): { text: string; finishReason: string } {
+  if (MODE !== "truncate") return { text: CANNED_ANSWER, finishReason: "STOP" };
+  return body.includes("responseMimeType")
+    ? { text: CANNED_ANSWER.slice(0, HALF), finishReason: "MAX_TOKENS" }
+    : { text: CANNED_ANSWER.slice(HALF), finishReason: "STOP" };
+}
+
+const server = createServer(async (request, response) => {
+  const body = await readBody(request);
+  const url = request.url ?? "";
+  console.log(`${request.method} ${url}`);
+
+  if (MODE === "quota") {
+    sendJSON(response, 429, {
+      error: {
+        code: 429,
+        message: "Resource has been exhausted (e.g. check quota).",
+        status: "RESOURCE_EXHAUSTED",
+        details: [{ "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "2s" }],
+      },
+    });
+    return;
+  }
+
+  if (MODE === "safety" && /generateContent/i.test(url)) {
+    if (url.includes(":streamGenerateContent")) {
+      response.writeHead(200, { "Content-Type": "text/event-stream" });
+      response.end(`data: ${JSON.stringify(BLOCKED)}\r\n\r\n`);
+    } else {
+      sendJSON(response, 200, BLOCKED);
+    }
+    return;
+  }
+
+  if (url.includes(":streamGenerateContent")) {
+    // Server-sent events, the answer split into a few chunks
+    response.writeHead(200, { "Content-Type": "text/event-stream" });
+    const { text, finishReason } = geminiAnswer(body);
+    const size = Math.ceil(text.length / 4);
+    for (let start = 0; start < text.length; start += size) {
+      const last = start + size >= text.length;
+      const chunk = {
+        candidates: [
+          {
+            index: 0,
+            content: { role: "model", parts: [{ text: text.slice(start, start + size) }] },
+            ...(last ? { finishReason } : {}),
+          },
+        ],
+        // Gemini sends the running counts with every chunk
+        usageMetadata: USAGE,
+      };
+      response.write(`data: ${JSON.stringify(chunk)}\r\n\r\n`);
+    }
+    response.end();
+  } else if (url.includes(":countTokens")) {
+    sendJSON(response, 200, { totalTokens: 42 });
+  } else if (url.includes(":generateContent")) {
+    const { text, finishReason } = geminiAnswer(body);
+    sendJSON(response, 200, {
+      candidates: [
+        {
+          index: 0,
+          finishReason,
+          content: { role: "model", parts: [{ text }] },
+        },
+      ],
+      usageMetadata: USAGE,
+    });
+  } else if (url.endsWith("/chat/completions")) {
+    sendJSON(response, 200, {
+      choices: [{ message: { content: CANNED_ANSWER } }],
+      usage: { prompt_tokens: 120, completion_tokens: 180, total_tokens: 300 },
+    });
+  } else if (url.endsWith("/api/chat")) {
+    sendJSON(response, 200, {
+      message: { role: "assistant", content: CANNED_ANSWER },
+      done: true,
+      prompt_eval_count: 120,
+      eval_count: 180,
+    });
+  } else {
+    sendJSON(response, 404, { error: { code: 404, message: "Not found" } });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Fake upstream (${MODE}) listening on http://localhost:${PORT}`);
+});
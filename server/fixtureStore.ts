@@ -0,0 +1,26 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Fixture, FixtureStore } from "../src/utils/llm";
+
+/**
+ * Fixtures as one JSON file per call in `dir`, the same layout the
+ * browser reads (see `src/utils/fixtureStore.ts`)
+ */
+export function createFileFixtureStore(dir: string): FixtureStore {
+  const fileOf = (key: string) => path.join(dir, `${key}.json`);
+
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await readFile(fileOf(key), "utf8")) as Fixture;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+        throw error;
+      }
+    },
+    async set(key, fixture) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(fileOf(key), `${JSON.stringify(fixture, null, 2)}\n`);
+    },
+  };
+}
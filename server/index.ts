@@ -0,0 +1,411 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import {
+  createAdvisor,
+  type CaseDetails,
+  type ChatTurnRequest,
+  type ProxyErrorBody,
+  type StreamEvent,
+  type StructuredChatOptions,
+} from "../src/utils/advisor";
+import {
+  AdvisorError,
+  RateLimitError,
+  RequestCancelledError,
+  SafetyBlockedError,
+  type ErrorCode,
+} from "../src/utils/errors";
+import {
+  createProvider,
+  readProviderConfig,
+  withFixtures,
+  type LLMMessage,
+} from "../src/utils/llm";
+import { RateLimiter, readClientRateLimit, readRateLimits } from "../src/utils/rateLimiter";
+import { createMemoryCache } from "../src/utils/responseCache";
+import type { CaseFact } from "../src/utils/legal/caseTypes";
+import { parseJurisdiction, type Jurisdiction } from "../src/utils/legal/jurisdictions";
+import { createBareActRetriever } from "../src/utils/legal/retrieval";
+import { PROMPT_LOCALES, readPromptVersions, type PromptLocale } from "../src/utils/prompts";
+import { readSafetySettings } from "../src/utils/safety";
+import { createFileFixtureStore } from "./fixtureStore";
+
+/**
+ * Proxy between the React client and the LLM provider. The API key only
+ * lives in this process; the per-key and per-client rate limits and the
+ * model fallback are enforced here rather than in the browser.
+ *
+ *   GEMINI_KEY=... pnpm server
+ *
+ * Reads the same settings as the client without the `VITE_` prefix
+ * (`LLM_PROVIDER`, `LLM_BASE_URL`, `LLM_API_KEY`, `LLM_MODELS`,
+ * `LLM_RATE_LIMITS`, `LLM_SAFETY_SETTINGS`, `LLM_PROMPT_VERSIONS`,
+ * `LLM_FAKE_SCRIPT`, `LLM_FIXTURES` and `LLM_FIXTURES_DIR`), plus
+ * `CLIENT_RATE_LIMIT` for the limit on each client. Point `LLM_BASE_URL`
+ * at `server/fakeUpstream.ts`, or set `LLM_PROVIDER=fake`, to run without
+ * a real key.
+ */
+
+const PORT = Number(process.env.PORT ?? 8787);
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN ?? "http://localhost:5173";
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_FIELD_LENGTH = 8000;
+const MAX_HISTORY_MESSAGES = 24;
+const MAX_CASE_FACTS = 20;
+const MAX_CLIENTS = 10_000;
+const CLIENT_SWEEP_INTERVAL = 60_000;
+const FIXTURES_DIR = process.env.LLM_FIXTURES_DIR ?? "fixtures/llm";
+
+const providerConfig = readProviderConfig(process.env, "");
+const advisor = createAdvisor({
+  provider: withFixtures(
+    createProvider(providerConfig),
+    providerConfig.fixtures,
+    createFileFixtureStore(FIXTURES_DIR)
+  ),
+  models: providerConfig.models,
+  rateLimits: readRateLimits(process.env, ""),
+  safetySettings: readSafetySettings(process.env, ""),
+  promptVersions: readPromptVersions(process.env, ""),
+  retriever: createBareActRetriever(),
+  // Identical questions from any client are answered once per TTL
+  cache: createMemoryCache(),
+});
+
+// The advisor's own limiter protects the upstream quota; these keep a
+// single client from using all of it. Most recently used last.
+const clientRateLimit = readClientRateLimit(process.env, "");
+const clientLimiters = new Map<string, RateLimiter>();
+
+// A limiter with no request in its window is the same as a new one, so drop it
+setInterval(() => {
+  for (const [client, limiter] of clientLimiters) {
+    if (limiter.isIdle()) clientLimiters.delete(client);
+  }
+}, CLIENT_SWEEP_INTERVAL).unref();
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function getClientLimiter(request: IncomingMessage): RateLimiter {
+  const client = request.socket.remoteAddress ?? "unknown";
+  const limiter = clientLimiters.get(client) ?? new RateLimiter(clientRateLimit);
+  clientLimiters.delete(client);
+  clientLimiters.set(client, limiter);
+  // Past the cap, forget the least recently seen client
+  if (clientLimiters.size > MAX_CLIENTS) {
+    clientLimiters.delete(clientLimiters.keys().next().value!);
+  }
+  return limiter;
+}
+
+async function readBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large");
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    if (typeof body !== "object" || body === null) throw new Error();
+    return body;
+  } catch {
+    throw new HttpError(400, "Request body must be a JSON object");
+  }
+}
+
+function requireString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new HttpError(400, `"${field}" is required`);
+  }
+  if (value.length > MAX_FIELD_LENGTH) {
+    throw new HttpError(400, `"${field}" is too long`);
+  }
+  return value;
+}
+
+function readOptionalString(body: Record<string, unknown>, field: string): string | undefined {
+  return body[field] === undefined ? undefined : requireString(body, field);
+}
+
+function readLocale(body: Record<string, unknown>): PromptLocale | undefined {
+  if (body.locale === undefined) return undefined;
+  if (!PROMPT_LOCALES.includes(body.locale as PromptLocale)) {
+    throw new HttpError(400, `"locale" must be one of ${PROMPT_LOCALES.join(", ")}`);
+  }
+  return body.locale as PromptLocale;
+}
+
+// Only models of the fallback chain, so a client cannot pick an arbitrary
+// one. An unknown preference, e.g. a model since removed from LLM_MODELS,
+// falls back to the chain's own order as it does in the direct advisor.
+async function readModel(body: Record<string, unknown>): Promise<string | undefined> {
+  const model = readOptionalString(body, "model");
+  if (model === undefined) return undefined;
+  const models = await advisor.getModels();
+  return models.some(({ id }) => id === model) ? model : undefined;
+}
+
+function readJurisdiction(body: Record<string, unknown>): Jurisdiction | undefined {
+  if (body.jurisdiction === undefined) return undefined;
+  const jurisdiction = parseJurisdiction(body.jurisdiction);
+  if (!jurisdiction) {
+    throw new HttpError(400, '"jurisdiction" must name a known state or union territory');
+  }
+  return jurisdiction;
+}
+
+function readFacts(body: Record<string, unknown>): CaseFact[] | undefined {
+  if (body.facts === undefined) return undefined;
+  if (
+    !Array.isArray(body.facts) ||
+    !body.facts.every(
+      (fact) =>
+        typeof fact?.label === "string" &&
+        typeof fact.value === "string" &&
+        fact.label.length + fact.value.length <= MAX_FIELD_LENGTH
+    )
+  ) {
+    throw new HttpError(400, '"facts" must be a list of { label, value } strings');
+  }
+  if (body.facts.length > MAX_CASE_FACTS) {
+    throw new HttpError(400, '"facts" is too long');
+  }
+  return body.facts;
+}
+
+function readHistory(body: Record<string, unknown>): LLMMessage[] {
+  if (body.history === undefined) return [];
+  if (
+    !Array.isArray(body.history) ||
+    !body.history.every(
+      (message) =>
+        (message?.role === "user" || message?.role === "model") &&
+        typeof message.text === "string"
+    )
+  ) {
+    throw new HttpError(400, '"history" must be a list of { role, text } messages');
+  }
+  if (body.history.length > MAX_HISTORY_MESSAGES) {
+    throw new HttpError(400, '"history" is too long');
+  }
+  return body.history;
+}
+
+const STATUS_BY_CODE: Record<ErrorCode, number> = {
+  rate_limit: 429,
+  quota_exhausted: 429,
+  safety_blocked: 422,
+  network: 502,
+  parse: 502,
+  invalid_key: 502,
+  upstream: 502,
+  // Nginx's "client closed request"; nobody is left to read it
+  cancelled: 499,
+};
+
+// Details of these stay in the server log; the client only learns the kind
+const PUBLIC_MESSAGES: Partial<Record<ErrorCode, string>> = {
+  network: "The server could not reach the AI provider.",
+  invalid_key: "The server's API key was rejected by the AI provider.",
+  upstream: "Upstream request failed",
+};
+
+/**
+ * Status and body for a failed request. `code` lets the client rebuild the
+ * typed error (see `errorFromCode`).
+ */
+function describeError(error: unknown): { status: number; body: ProxyErrorBody } {
+  if (!(error instanceof AdvisorError)) {
+    return { status: 502, body: { error: PUBLIC_MESSAGES.upstream, code: "upstream" } };
+  }
+
+  return {
+    status: STATUS_BY_CODE[error.code],
+    body: {
+      error: PUBLIC_MESSAGES[error.code] ?? error.message,
+      code: error.code,
+      retryAfterMs: error instanceof RateLimitError && error.waitTime > 0 ? error.waitTime : undefined,
+      category: error instanceof SafetyBlockedError ? error.category : undefined,
+    },
+  };
+}
+
+/**
+ * Stream a structured answer as NDJSON (see `StreamEvent`). The status line
+ * is only written with the first chunk so a rate limit can still be
+ * answered with a plain 429.
+ */
+async function streamStructured(
+  prompt: string,
+  options: StructuredChatOptions,
+  response: ServerResponse
+) {
+  const writeEvent = (event: StreamEvent) => {
+    if (!response.headersSent) {
+      response.writeHead(200, {
+        "Content-Type": "application/x-ndjson",
+        "Cache-Control": "no-cache",
+      });
+    }
+    response.write(`${JSON.stringify(event)}\n`);
+  };
+
+  try {
+    const result = await advisor.streamStructuredChatResponse(
+      prompt,
+      { onDelta: (delta) => writeEvent({ delta }) },
+      options
+    );
+    writeEvent({ response: result });
+  } catch (error) {
+    if (!response.headersSent) throw error;
+    // The client disconnected, so there is nobody to tell
+    if (response.destroyed) return;
+    console.error("Stream failed:", error);
+    const { body } = describeError(error);
+    writeEvent({ error: body.error, code: body.code, category: body.category });
+  }
+  response.end();
+}
+
+type RouteHandler = (
+  body: Record<string, unknown>,
+  response: ServerResponse,
+  signal: AbortSignal
+) => Promise<unknown>;
+
+const routes: Record<string, RouteHandler> = {
+  "/api/structured": async (body, response, signal) => {
+    const prompt = requireString(body, "prompt");
+    const options: StructuredChatOptions = {
+      history: readHistory(body),
+      refresh: body.refresh === true,
+      model: await readModel(body),
+      locale: readLocale(body),
+      signal,
+    };
+    return body.stream === true
+      ? streamStructured(prompt, options, response)
+      : advisor.getStructuredChatResponse(prompt, options);
+  },
+
+  "/api/analyze": async (body, _response, signal) => {
+    const details: CaseDetails = {
+      caseType: requireString(body, "caseType"),
+      location: requireString(body, "location"),
+      caseDescription: requireString(body, "caseDescription"),
+      specificQuestion: requireString(body, "specificQuestion"),
+      jurisdiction: readJurisdiction(body),
+      facts: readFacts(body),
+    };
+    return advisor.analyzeCase(details, {
+      signal,
+      model: await readModel(body),
+      locale: readLocale(body),
+    });
+  },
+
+  "/api/text": async (body, _response, signal) => {
+    const prompt = requireString(body, "prompt");
+    const text = await advisor.getGeminiResponse(prompt, {
+      signal,
+      model: await readModel(body),
+      locale: readLocale(body),
+    });
+    return { text };
+  },
+
+  "/api/chat": async (body, _response, signal) => {
+    const turn: ChatTurnRequest = {
+      message: requireString(body, "message"),
+      history: readHistory(body),
+      model: await readModel(body),
+    };
+    // Always the `chat.system` template: a client cannot turn the proxy into a relay for its own prompts
+    const chat = advisor.startChat(undefined, turn.history);
+    return { text: await advisor.sendChatMessage(chat, turn.message, { signal, model: turn.model }) };
+  },
+};
+
+function sendJSON(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+function sendError(response: ServerResponse, error: unknown) {
+  if (response.destroyed) return;
+  const { status, body } = describeError(error);
+  if (body.retryAfterMs) {
+    response.setHeader("Retry-After", Math.ceil(body.retryAfterMs / 1000));
+  }
+  sendJSON(response, status, body);
+}
+
+const server = createServer(async (request, response) => {
+  response.setHeader("Access-Control-Allow-Origin", ALLOWED_ORIGIN);
+  response.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  response.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+
+  if (request.method === "OPTIONS") {
+    response.writeHead(204).end();
+    return;
+  }
+
+  if (request.method === "GET" && request.url === "/api/health") {
+    sendJSON(response, 200, { ok: true, provider: providerConfig.provider });
+    return;
+  }
+
+  if (request.method === "GET" && request.url === "/api/models") {
+    sendJSON(response, 200, { models: await advisor.getModels() });
+    return;
+  }
+
+  const handler = request.url ? routes[request.url] : undefined;
+  if (!handler || request.method !== "POST") {
+    sendJSON(response, 404, { error: "Not found" });
+    return;
+  }
+
+  try {
+    const clientLimiter = getClientLimiter(request);
+    if (!clientLimiter.canMakeRequest()) {
+      sendError(response, new RateLimitError(clientLimiter.getTimeUntilNextRequest()));
+      return;
+    }
+
+    const body = await readBody(request);
+    clientLimiter.recordRequest();
+    // Stop the upstream call when the client goes away
+    const controller = new AbortController();
+    response.on("close", () => {
+      if (!response.writableFinished) controller.abort();
+    });
+
+    const result = await handler(body, response, controller.signal);
+    if (!response.headersSent) sendJSON(response, 200, result);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendJSON(response, error.status, { error: error.message });
+    } else {
+      if (!(error instanceof RateLimitError || error instanceof RequestCancelledError)) {
+        console.error(`${request.url} failed:`, error);
+      }
+      sendError(response, error);
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Lenis API proxy (${providerConfig.provider}) listening on http://localhost:${PORT}`);
+});
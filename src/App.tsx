@@ -4,10 +4,15 @@ import "./App.css";
 import ChatInterface from "./components/ChatInterface.tsx";
 import CaseAnalysis from "./components/CaseAnalysis.tsx";
 import ThemeToggle from "./components/ThemeToggle.tsx";
+import ModelSelector from "./components/ModelSelector.tsx";
+import UsagePanel from "./components/UsagePanel.tsx";
+import SectionConverter from "./components/SectionConverter.tsx";
 import { useTheme } from "./providers/ThemeProvider.tsx";
 import {
 	HiOutlineScale,
 	HiOutlineChat,
+	HiOutlineChartBar,
+	HiOutlineSwitchHorizontal,
 	HiOutlineLightBulb,
 	HiOutlineInformationCircle,
 } from "react-icons/hi";
@@ -106,6 +111,42 @@ function App() {
 										}`}
 									/>
 								</button>
+
+								<button
+									onClick={() => setActiveComponent("converter")}
+									className={`nav-button w-12 h-12 flex items-center justify-center ${
+										activeComponent === "converter"
+											? "bg-primary-600 dark:bg-secondary-600 text-white shadow-light-glow dark:shadow-glow"
+											: "bg-light-100 dark:bg-dark-100 text-gray-500 dark:text-gray-400 hover:bg-light-100/80 dark:hover:bg-dark-100/80"
+									}`}
+									aria-label="Section Converter"
+								>
+									<HiOutlineSwitchHorizontal
+										className={`text-xl ${
+											activeComponent === "converter"
+												? "text-black dark:text-white"
+												: "text-gray-400"
+										}`}
+									/>
+								</button>
+
+								<button
+									onClick={() => setActiveComponent("usage")}
+									className={`nav-button w-12 h-12 flex items-center justify-center ${
+										activeComponent === "usage"
+											? "bg-primary-600 dark:bg-secondary-600 text-white shadow-light-glow dark:shadow-glow"
+											: "bg-light-100 dark:bg-dark-100 text-gray-500 dark:text-gray-400 hover:bg-light-100/80 dark:hover:bg-dark-100/80"
+									}`}
+									aria-label="Token Usage"
+								>
+									<HiOutlineChartBar
+										className={`text-xl ${
+											activeComponent === "usage"
+												? "text-black dark:text-white"
+												: "text-gray-400"
+										}`}
+									/>
+								</button>
 							</div>
 
 							<div className="flex lg:flex-col gap-2 items-center">
@@ -133,6 +174,10 @@ function App() {
 									<div className="h-8 w-8 bg-gradient-to-br from-primary-500 to-primary-700 dark:from-secondary-500 dark:to-secondary-800 rounded-lg flex items-center justify-center shadow-light-glow dark:shadow-glow">
 										{activeComponent === "caseAnalysis" ? (
 											<HiOutlineScale className="text-primary text-xl" />
+										) : activeComponent === "converter" ? (
+											<HiOutlineSwitchHorizontal className="text-primary text-xl" />
+										) : activeComponent === "usage" ? (
+											<HiOutlineChartBar className="text-primary text-xl" />
 										) : (
 											<HiOutlineChat className="text-primary text-xl" />
 										)}
@@ -140,13 +185,15 @@ function App() {
 									<h1 className="text-xl font-display font-semibold text-gray-900 dark:text-white">
 										{activeComponent === "caseAnalysis"
 											? "Legal Case Analysis"
+											: activeComponent === "converter"
+											? "Section Converter"
+											: activeComponent === "usage"
+											? "Token Usage"
 											: "AI Legal Advisor"}
 									</h1>
 								</div>
 
-								<div className="text-xs px-3 py-1.5 rounded-full bg-light-100 dark:bg-dark-100 text-primary-600 dark:text-secondary-300 border border-primary-100 dark:border-secondary-900/30">
-									Powered by Gemini AI
-								</div>
+								<ModelSelector />
 							</motion.header>
 
 							{/* Component Container */}
@@ -159,7 +206,15 @@ function App() {
 									transition={{ duration: 0.3 }}
 									className="h-[calc(100vh-64px)] overflow-auto p-4 lg:p-6 bg-light-200 dark:bg-dark-300 transition-colors duration-300"
 								>
-									{activeComponent === "caseAnalysis" ? <CaseAnalysis /> : <ChatInterface />}
+									{activeComponent === "caseAnalysis" ? (
+										<CaseAnalysis />
+									) : activeComponent === "converter" ? (
+										<SectionConverter />
+									) : activeComponent === "usage" ? (
+										<UsagePanel />
+									) : (
+										<ChatInterface />
+									)}
 								</motion.div>
 							</AnimatePresence>
 						</div>
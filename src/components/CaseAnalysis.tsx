@@ -1,8 +1,9 @@
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
 import {
 	HiOutlineScale,
 	HiOutlineDocumentText,
 	HiOutlineLightBulb,
+	HiOutlineClipboardList,
 } from "react-icons/hi";
 import {
 	Gavel,
@@ -11,69 +12,103 @@ import {
 	Copy,
 	Check,
 	FileText,
+	IndianRupee,
+	Library,
+	ShieldOff,
+	Square,
 } from "lucide-react";
 import { Card, CardHeader, CardContent, CardTitle } from "./ui/card";
 import { Button } from "./ui/button";
 import { Textarea } from "./ui/textarea";
 import { Label } from "./ui/label";
+import { Input } from "./ui/input";
 import { Badge } from "./ui/badge";
 import { Alert, AlertDescription } from "./ui/alert";
 
 import {
-	getStructuredChatResponse,
-	StructuredChatResponse,
+	analyzeCase,
+	CaseAnalysisResponse,
 	canMakeRequest,
 	getTimeUntilNextRequest,
+	RateLimitError,
+	QuotaExhaustedError,
+	SafetyBlockedError,
+	NetworkError,
+	InvalidKeyError,
+	RequestCancelledError,
+	SafetyCategory,
+	SAFETY_CATEGORY_LABELS,
+	getModelLabel,
+	estimateCosts,
+	formatCostEstimates,
+	formatJurisdiction,
+	Jurisdiction,
+	formatCaseType,
+	getCaseCategory,
+	getCaseSubtype,
+	intakeFacts,
+	considerationPaid,
 } from "../utils/gemini";
-import AutocompleteInput from "./AutoComplete";
-
-interface CaseAnalysisResult {
-	title: string;
-	summary: string;
-	legalAssessment: string;
-	keyIssues: string[];
-	recommendedActions: string[];
-	potentialRisks: string[];
+import CaseTypeSelector, { CaseTypeChoice } from "./CaseTypeSelector";
+import IntakeFields from "./IntakeFields";
+import CitationBadges from "./CitationBadges";
+import SourceExcerpt from "./SourceExcerpt";
+import LimitationCard from "./LimitationCard";
+import ConsumerForumCard from "./ConsumerForumCard";
+import JurisdictionSelector from "./JurisdictionSelector";
+
+interface CaseAnalysisResult extends CaseAnalysisResponse {
 	estimatedCosts: string;
 	timeline: string;
-	nextSteps: string[];
 }
 
-// Add options for Case Type and Location here
-const caseTypeOptions = [
-	"Contract Dispute",
-	"Property Case",
-	"Consumer Complaint",
-	"Criminal",
-	"Family Law",
-	"Labor",
-	"Environmental",
-];
-
-const locationOptions = [
-	"Mumbai",
-	"Delhi High Court",
-	"Kerala",
-	"Karnataka",
-	"Supreme Court of India",
-	"Chennai",
-	"Bengaluru",
-];
+// What to tell the user when an analysis fails, depending on the cause
+const getErrorMessage = (error: unknown): string => {
+	if (
+		error instanceof RateLimitError ||
+		error instanceof QuotaExhaustedError ||
+		error instanceof NetworkError ||
+		error instanceof InvalidKeyError
+	) {
+		return error.message;
+	}
+	return "Failed to analyze case. Please try again.";
+};
 
 const CaseAnalysis = () => {
 	const [formData, setFormData] = useState({
-		caseType: "",
-		location: "",
 		caseDescription: "",
 		specificQuestion: "",
 	});
 
+	const [caseTypeChoice, setCaseTypeChoice] = useState<CaseTypeChoice>();
+	// Answers to the sub-type's intake questions, by field id
+	const [intake, setIntake] = useState<Record<string, string>>({});
+	const category = caseTypeChoice && getCaseCategory(caseTypeChoice.category);
+	const subtype = category && getCaseSubtype(category, caseTypeChoice?.subtype);
+	const caseType = category ? formatCaseType(category, subtype) : "";
+	const facts = subtype ? intakeFacts(subtype, intake) : [];
+	// What a consumer complaint's commission and fee go by
+	const consideration = considerationPaid(intake);
+
+	const [jurisdiction, setJurisdiction] = useState<Jurisdiction>();
+	// The jurisdiction as text, for the prompt fallback, the copy and the header
+	const location = jurisdiction ? formatJurisdiction(jurisdiction) : "";
+
+	// Not sent to the model; only used for the fee estimate
+	const [claimValue, setClaimValue] = useState("");
+
 	const [isAnalyzing, setIsAnalyzing] = useState(false);
 	const [analysisResult, setAnalysisResult] =
 		useState<CaseAnalysisResult | null>(null);
 	const [error, setError] = useState<string | null>(null);
+	// Set when the safety filters refused the analysis, with the category if known
+	const [blocked, setBlocked] = useState<{ category?: SafetyCategory } | null>(
+		null
+	);
 	const [copiedSection, setCopiedSection] = useState<string | null>(null);
 	const [rateLimitCountdown, setRateLimitCountdown] = useState(0);
+	const controllerRef = useRef<AbortController | null>(null);
 
 	// Check rate limit status
 	React.useEffect(() => {
@@ -91,6 +126,9 @@ const CaseAnalysis = () => {
 		return () => clearInterval(interval);
 	}, []);
 
+	// Stop a running analysis when the view is left
+	React.useEffect(() => () => controllerRef.current?.abort(), []);
+
 	const handleInputChange = (
 		e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
 	) => {
@@ -99,80 +137,66 @@ const CaseAnalysis = () => {
 
 		// Clear error when user starts typing
 		if (error) setError(null);
+		if (blocked) setBlocked(null);
 	};
 
-	const parseLegalResponse = (
-		response: StructuredChatResponse
-	): CaseAnalysisResult => {
-		// Extract information from the structured response
-		let legalAssessment = "";
-		let keyIssues: string[] = [];
-		let recommendedActions: string[] = [];
-		let potentialRisks: string[] = [];
-		let nextSteps: string[] = [];
-		const estimatedCosts = "Consult with a lawyer for cost estimates";
-		const timeline = "Timeline depends on case complexity";
+	const handleCaseTypeChange = (choice: CaseTypeChoice) => {
+		setCaseTypeChoice(choice);
+		// Another sub-type asks other questions
+		setIntake({});
+		if (error) setError(null);
+		if (blocked) setBlocked(null);
+	};
 
-		response.content.forEach((item) => {
-			switch (item.type) {
-				case "text":
-					if (!legalAssessment) {
-						legalAssessment = item.content;
-					}
-					break;
-				case "list":
-					if (item.title?.toLowerCase().includes("issue")) {
-						keyIssues = item.items || [];
-					} else if (
-						item.title?.toLowerCase().includes("action") ||
-						item.title?.toLowerCase().includes("step")
-					) {
-						recommendedActions = item.items || [];
-					} else if (item.title?.toLowerCase().includes("risk")) {
-						potentialRisks = item.items || [];
-					} else if (item.title?.toLowerCase().includes("next")) {
-						nextSteps = item.items || [];
-					} else {
-						// Default to recommended actions if unclear
-						recommendedActions = item.items || [];
-					}
-					break;
-				case "suggestion":
-					recommendedActions.push(item.content);
-					break;
-			}
-		});
+	const handleIntakeChange = (id: string, value: string) =>
+		setIntake((prev) => ({ ...prev, [id]: value }));
 
-		// Set defaults if arrays are empty
-		if (keyIssues.length === 0) {
-			keyIssues = ["Legal analysis requires more specific case details"];
-		}
-		if (recommendedActions.length === 0) {
-			recommendedActions = [
-				"Consult with a qualified lawyer for detailed guidance",
-			];
-		}
-		if (nextSteps.length === 0) {
-			nextSteps = [
-				"Gather relevant documents",
-				"Consult with a lawyer",
-				"Consider alternative dispute resolution",
-			];
-		}
+	const handleJurisdictionChange = (value: Jurisdiction) => {
+		setJurisdiction(value);
+		if (error) setError(null);
+		if (blocked) setBlocked(null);
+	};
 
+	const toAnalysisResult = (
+		response: CaseAnalysisResponse
+	): CaseAnalysisResult => {
+		const estimatedCosts =
+			formatCostEstimates(
+				estimateCosts({
+					caseType,
+					location,
+					jurisdiction,
+					value: Number(claimValue) || undefined,
+					consideration,
+				})
+			) || "Consult with a lawyer for cost estimates";
+		const timeline = "Timeline depends on case complexity";
+
+		// Set defaults if lists are empty
 		return {
-			title: response.title,
-			summary: response.summary,
-			legalAssessment,
-			keyIssues,
-			recommendedActions,
+			...response,
+			keyIssues:
+				response.keyIssues.length > 0
+					? response.keyIssues
+					: ["Legal analysis requires more specific case details"],
+			recommendedActions:
+				response.recommendedActions.length > 0
+					? response.recommendedActions
+					: ["Consult with a qualified lawyer for detailed guidance"],
 			potentialRisks:
-				potentialRisks.length > 0
-					? potentialRisks
+				response.potentialRisks.length > 0
+					? response.potentialRisks
 					: ["Risk assessment requires detailed case review"],
+			nextSteps:
+				response.nextSteps.length > 0
+					? response.nextSteps
+					: [
+							"Gather relevant documents",
+							"Consult with a lawyer",
+							"Consider alternative dispute resolution",
+					  ],
 			estimatedCosts,
 			timeline,
-			nextSteps,
 		};
 	};
 
@@ -181,8 +205,8 @@ const CaseAnalysis = () => {
 
 		// Check if all required fields are filled
 		if (
-			!formData.caseType ||
-			!formData.location ||
+			!category ||
+			!jurisdiction ||
 			!formData.caseDescription ||
 			!formData.specificQuestion
 		) {
@@ -200,36 +224,33 @@ const CaseAnalysis = () => {
 
 		setIsAnalyzing(true);
 		setError(null);
+		setBlocked(null);
 		setAnalysisResult(null);
 
-		try {
-			// Construct detailed prompt for legal analysis
-			const analysisPrompt = `
-Analyze this legal case for Indian jurisdiction:
-
-Case Type: ${formData.caseType}
-Location/Jurisdiction: ${formData.location}
-Case Description: ${formData.caseDescription}
-Specific Legal Question: ${formData.specificQuestion}
+		const controller = new AbortController();
+		controllerRef.current = controller;
 
-Please provide a comprehensive legal analysis including:
-1. Assessment of the legal situation
-2. Key legal issues involved
-3. Recommended actions and legal strategies
-4. Potential risks and challenges
-5. Next steps to take
-
-Focus on Indian laws and procedures. Emphasize this is general guidance only.
-`;
-
-			const response = await getStructuredChatResponse(analysisPrompt);
-			const analysisResult = parseLegalResponse(response);
+		try {
+			const response = await analyzeCase(
+				{ ...formData, caseType, location, jurisdiction, facts },
+				{ signal: controller.signal }
+			);
+			const analysisResult = toAnalysisResult(response);
 
 			setAnalysisResult(analysisResult);
-		} catch (error: any) {
+		} catch (error) {
+			if (error instanceof RequestCancelledError) {
+				setError("Analysis stopped.");
+				return;
+			}
+			if (error instanceof SafetyBlockedError) {
+				setBlocked({ category: error.category });
+				return;
+			}
 			console.error("Error analyzing case:", error);
-			setError(error.message || "Failed to analyze case. Please try again.");
+			setError(getErrorMessage(error));
 		} finally {
+			if (controllerRef.current === controller) controllerRef.current = null;
 			setIsAnalyzing(false);
 		}
 	};
@@ -250,9 +271,9 @@ Focus on Indian laws and procedures. Emphasize this is general guidance only.
 		const fullText = `
 LEGAL CASE ANALYSIS
 
-Case: ${formData.caseType}
-Location: ${formData.location}
-
+Case: ${caseType}
+Location: ${location}
+${facts.map(({ label, value }) => `${label}: ${value}\n`).join("")}
 SUMMARY:
 ${analysisResult.summary}
 
@@ -271,6 +292,9 @@ ${analysisResult.potentialRisks.map((risk) => `• ${risk}`).join("\n")}
 NEXT STEPS:
 ${analysisResult.nextSteps.map((step) => `• ${step}`).join("\n")}
 
+ESTIMATED COSTS:
+${analysisResult.estimatedCosts}
+
 DISCLAIMER: This is general legal information only, not specific legal advice. Consult a qualified lawyer for professional guidance.
 		`.trim();
 
@@ -314,6 +338,18 @@ DISCLAIMER: This is general legal information only, not specific legal advice. C
 				</Alert>
 			)}
 
+			{blocked && (
+				<Alert className="max-w-4xl mx-auto mb-6 border-orange-200 bg-orange-50 dark:border-orange-800 dark:bg-orange-900/20">
+					<ShieldOff className="h-4 w-4 text-orange-600 dark:text-orange-400" />
+					<AlertDescription className="text-orange-800 dark:text-orange-200">
+						The AI's safety filters blocked this analysis
+						{blocked.category &&
+							` (${SAFETY_CATEGORY_LABELS[blocked.category].toLowerCase()})`}
+						. Try describing the case in different words.
+					</AlertDescription>
+				</Alert>
+			)}
+
 			<form onSubmit={handleSubmit} className="max-w-4xl mx-auto space-y-6">
 				<div className="grid gap-6 lg:grid-cols-2">
 					<Card>
@@ -325,29 +361,31 @@ DISCLAIMER: This is general legal information only, not specific legal advice. C
 						</CardHeader>
 						<CardContent className="space-y-4">
 							<div className="space-y-2">
-								<AutocompleteInput
-									id="caseType"
-									name="caseType"
-									label="Case Type"
-									value={formData.caseType}
-									onChange={handleInputChange}
-									options={caseTypeOptions}
-									placeholder="e.g., Contract Dispute, Property Case, Consumer Complaint"
+								<CaseTypeSelector
+									value={caseTypeChoice}
+									onChange={handleCaseTypeChange}
 									disabled={isAnalyzing}
-									required
 								/>
 							</div>
 							<div className="space-y-2">
-								<AutocompleteInput
-									id="location"
-									name="location"
-									label="Location/Jurisdiction"
-									value={formData.location}
-									onChange={handleInputChange}
-									options={locationOptions}
-									placeholder="e.g., Mumbai, Delhi High Court, Kerala"
+								<JurisdictionSelector
+									value={jurisdiction}
+									onChange={handleJurisdictionChange}
+									disabled={isAnalyzing}
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor="claimValue">Claim or Property Value (₹)</Label>
+								<Input
+									id="claimValue"
+									name="claimValue"
+									type="number"
+									min={0}
+									inputMode="numeric"
+									value={claimValue}
+									onChange={(e) => setClaimValue(e.target.value)}
+									placeholder="Optional, for the court fee estimate"
 									disabled={isAnalyzing}
-									required
 								/>
 							</div>
 						</CardContent>
@@ -393,6 +431,43 @@ DISCLAIMER: This is general legal information only, not specific legal advice. C
 					</Card>
 				</div>
 
+				{subtype && subtype.fields.length > 0 && (
+					<Card>
+						<CardHeader>
+							<CardTitle className="flex items-center gap-2">
+								<HiOutlineClipboardList className="h-5 w-5" />
+								Key Facts: {subtype.name}
+							</CardTitle>
+						</CardHeader>
+						<CardContent className="space-y-4">
+							<p className="text-sm text-muted-foreground">
+								All optional. Dates and amounts you give here are used in the
+								analysis alongside your description.
+							</p>
+							<IntakeFields
+								subtype={subtype}
+								values={intake}
+								onChange={handleIntakeChange}
+								disabled={isAnalyzing}
+							/>
+						</CardContent>
+					</Card>
+				)}
+
+				{/consumer/i.test(caseType) && (
+					<ConsumerForumCard
+						consideration={consideration}
+						location={location}
+						jurisdiction={jurisdiction}
+						amountPaid={
+							subtype?.fields.some(({ id }) => id === "amountPaid")
+								? undefined
+								: intake.amountPaid ?? ""
+						}
+						onAmountPaidChange={(value) => handleIntakeChange("amountPaid", value)}
+					/>
+				)}
+
 				<div className="flex justify-center">
 					<Button
 						type="submit"
@@ -412,6 +487,18 @@ DISCLAIMER: This is general legal information only, not specific legal advice. C
 							</>
 						)}
 					</Button>
+					{isAnalyzing && (
+						<Button
+							type="button"
+							size="lg"
+							variant="outline"
+							className="flex items-center gap-2 ml-3"
+							onClick={() => controllerRef.current?.abort()}
+						>
+							<Square className="h-4 w-4" />
+							Stop
+						</Button>
+					)}
 				</div>
 			</form>
 
@@ -438,6 +525,26 @@ DISCLAIMER: This is general legal information only, not specific legal advice. C
 						</Button>
 					</div>
 
+					{analysisResult.meta?.truncated && (
+						<Alert className="border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/20">
+							<AlertTriangle className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+							<AlertDescription className="text-amber-800 dark:text-amber-200">
+								This analysis reached the model's output limit and was cut
+								off, so some sections may be missing.
+							</AlertDescription>
+						</Alert>
+					)}
+
+					{analysisResult.meta?.nearContextLimit && (
+						<Alert className="border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/20">
+							<AlertTriangle className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+							<AlertDescription className="text-amber-800 dark:text-amber-200">
+								This case description is close to the model's context limit,
+								so parts of it may have been ignored. Try a shorter description.
+							</AlertDescription>
+						</Alert>
+					)}
+
 					<div className="grid gap-6 lg:grid-cols-2">
 						{/* Summary Card */}
 						<Card>
@@ -450,8 +557,13 @@ DISCLAIMER: This is general legal information only, not specific legal advice. C
 							<CardContent>
 								<p className="text-foreground mb-4">{analysisResult.summary}</p>
 								<Badge variant="secondary" className="mb-2">
-									{formData.caseType} - {formData.location}
+									{caseType} - {location}
 								</Badge>
+								{analysisResult.meta?.model && (
+									<Badge variant="outline" className="mb-2 ml-2 text-muted-foreground">
+										{getModelLabel(analysisResult.meta.model)}
+									</Badge>
+								)}
 							</CardContent>
 						</Card>
 
@@ -467,6 +579,7 @@ DISCLAIMER: This is general legal information only, not specific legal advice. C
 								<p className="text-foreground">
 									{analysisResult.legalAssessment}
 								</p>
+								<CitationBadges citations={analysisResult.citations?.legalAssessment} />
 							</CardContent>
 						</Card>
 
@@ -487,6 +600,7 @@ DISCLAIMER: This is general legal information only, not specific legal advice. C
 										</li>
 									))}
 								</ul>
+								<CitationBadges citations={analysisResult.citations?.keyIssues} />
 							</CardContent>
 						</Card>
 
@@ -507,6 +621,7 @@ DISCLAIMER: This is general legal information only, not specific legal advice. C
 										</li>
 									))}
 								</ul>
+								<CitationBadges citations={analysisResult.citations?.recommendedActions} />
 							</CardContent>
 						</Card>
 
@@ -528,6 +643,7 @@ DISCLAIMER: This is general legal information only, not specific legal advice. C
 											</li>
 										))}
 									</ul>
+									<CitationBadges citations={analysisResult.citations?.potentialRisks} />
 								</CardContent>
 							</Card>
 						)}
@@ -549,8 +665,52 @@ DISCLAIMER: This is general legal information only, not specific legal advice. C
 										</li>
 									))}
 								</ul>
+								<CitationBadges citations={analysisResult.citations?.nextSteps} />
 							</CardContent>
 						</Card>
+
+						{/* Worked out from the fee schedules, not by the model */}
+						<Card>
+							<CardHeader>
+								<CardTitle className="flex items-center gap-2">
+									<IndianRupee className="h-5 w-5" />
+									Estimated Costs
+								</CardTitle>
+							</CardHeader>
+							<CardContent>
+								<ul className="space-y-2">
+									{analysisResult.estimatedCosts.split("\n").map((line, index) => (
+										<li key={index} className="text-foreground text-sm">
+											{line}
+										</li>
+									))}
+								</ul>
+								<p className="text-xs text-muted-foreground mt-3">
+									Court fees and duties only, from the state's schedule; lawyer's
+									fees are extra. Check the current schedule before paying.
+								</p>
+							</CardContent>
+						</Card>
+
+						{/* Worked out from the limitation rules, not by the model */}
+						<LimitationCard key={caseType} caseType={caseType} />
+
+						{/* Bare-act passages quoted with the request */}
+						{!!analysisResult.meta?.sources?.length && (
+							<Card>
+								<CardHeader>
+									<CardTitle className="flex items-center gap-2">
+										<Library className="h-5 w-5" />
+										Provisions Consulted
+									</CardTitle>
+								</CardHeader>
+								<CardContent>
+									{analysisResult.meta.sources.map((sourceId) => (
+										<SourceExcerpt key={sourceId} sourceId={sourceId} className="mt-0 mb-2" />
+									))}
+								</CardContent>
+							</Card>
+						)}
 					</div>
 
 					{/* Legal Disclaimer */}
@@ -0,0 +1,75 @@
+import { Label } from "./ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "./ui/select";
+import { CASE_TAXONOMY, getCaseCategory } from "../utils/gemini";
+
+export interface CaseTypeChoice {
+	category: string;
+	subtype?: string;
+}
+
+/** Case type, then its sub-type; choosing a case type clears the sub-type */
+const CaseTypeSelector = ({
+	value,
+	onChange,
+	disabled,
+}: {
+	value?: CaseTypeChoice;
+	onChange: (choice: CaseTypeChoice) => void;
+	disabled?: boolean;
+}) => {
+	const category = value && getCaseCategory(value.category);
+
+	return (
+		<div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+			<div className="space-y-2">
+				<Label htmlFor="caseCategory">Case Type *</Label>
+				<Select
+					value={value?.category ?? ""}
+					onValueChange={(id) => onChange({ category: id })}
+					disabled={disabled}
+				>
+					<SelectTrigger id="caseCategory" className="w-full">
+						<SelectValue placeholder="Select a case type" />
+					</SelectTrigger>
+					<SelectContent>
+						{CASE_TAXONOMY.map(({ id, name }) => (
+							<SelectItem key={id} value={id}>
+								{name}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+
+			<div className="space-y-2">
+				<Label htmlFor="caseSubtype">What It Is About</Label>
+				<Select
+					value={value?.subtype ?? ""}
+					onValueChange={(subtype) =>
+						value && onChange({ category: value.category, subtype })
+					}
+					disabled={disabled || !category}
+				>
+					<SelectTrigger id="caseSubtype" className="w-full">
+						<SelectValue placeholder="Optional" />
+					</SelectTrigger>
+					<SelectContent>
+						{category?.subtypes.map(({ id, name }) => (
+							<SelectItem key={id} value={id}>
+								{name}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+		</div>
+	);
+};
+
+export default CaseTypeSelector;
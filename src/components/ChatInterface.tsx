@@ -7,19 +7,42 @@ import {
 	FiCheck,
 	FiLink,
 	FiAlertTriangle,
+	FiBookOpen,
 	FiCode,
 	FiClock,
+	FiRefreshCw,
+	FiRotateCw,
+	FiShieldOff,
+	FiSquare,
+	FiX,
 } from "react-icons/fi";
 import { HiOutlineChatAlt, HiOutlineLightBulb } from "react-icons/hi";
 import { motion } from "framer-motion";
 import ReactMarkdown from "react-markdown";
 import {
 	getStructuredChatResponse,
+	streamStructuredChatResponse,
 	StructuredChatResponse,
+	PartialStructuredResponse,
 	ChatResponseItem,
+	ResponseSource,
 	canMakeRequest,
 	getTimeUntilNextRequest,
+	queueRequest,
+	RequestCancelledError,
+	QueueStatus,
+	RateLimitError,
+	QuotaExhaustedError,
+	SafetyBlockedError,
+	SafetyCategory,
+	SAFETY_CATEGORY_LABELS,
+	NetworkError,
+	InvalidKeyError,
+	getModelLabel,
 } from "../utils/gemini";
+import { toHistory, type ConversationTurn } from "../utils/conversation";
+import CitationBadges from "./CitationBadges";
+import SourceExcerpt from "./SourceExcerpt";
 
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
@@ -35,10 +58,25 @@ import {
 } from "./ui/tooltip";
 
 interface Message {
-	type: "user" | "ai" | "error" | "rate_limit";
+	// "truncated" is an answer still cut off after asking the model to continue
+	type: "user" | "ai" | "truncated" | "blocked" | "error" | "rate_limit";
 	content: string;
 	timestamp: Date;
 	structuredResponse?: StructuredChatResponse;
+	// Id of the model that answered
+	model?: string;
+	// Harm category that got the answer blocked, if the provider said
+	category?: SafetyCategory;
+}
+
+// A question in the request queue until it is answered or fails. It is
+// only shown while waiting: before it is first sent, and again if it hit
+// the rate limit and went back in the queue.
+interface PendingMessage {
+	id: number;
+	content: string;
+	status: QueueStatus;
+	cancel: () => void;
 }
 
 const messageVariants = {
@@ -47,22 +85,85 @@ const messageVariants = {
 	exit: { opacity: 0, x: -10, transition: { duration: 0.2 } },
 };
 
-const SYSTEM_INSTRUCTION = `
-You are a professional legal advisor assistant focused on Indian legal systems.
-Provide accurate, well-structured information about legal matters, rights, procedures, and legal guidance.
-Always emphasize that this is general legal information and not a substitute for professional legal counsel.
-Structure responses in a way that makes complex legal information easy to understand for users.
-Focus on being helpful, accurate, and clear while maintaining professional legal standards.
-`;
+// Answers that did not come straight from the model's JSON get a badge
+const SOURCE_LABELS: Partial<Record<ResponseSource, string>> = {
+	repaired: "Auto-repaired",
+	partial: "Incomplete",
+	fallback: "Unformatted",
+};
+
+/**
+ * Answered question/answer pairs, skipping errors and rate limit notices
+ */
+const getConversationTurns = (messages: Message[]): ConversationTurn[] =>
+	messages.flatMap((message, index) => {
+		const answer = messages[index + 1];
+		return message.type === "user" && answer?.structuredResponse
+			? [{ question: message.content, answer: answer.structuredResponse }]
+			: [];
+	});
+
+const isAnswer = (message: Message) =>
+	message.type === "ai" || message.type === "truncated";
+
+const answerType = (response: StructuredChatResponse): Message["type"] =>
+	response.meta?.truncated ? "truncated" : "ai";
+
+/**
+ * Chat bubble for a failed request, depending on what went wrong
+ */
+const toErrorMessage = (error: unknown): Message => {
+	const timestamp = new Date();
+
+	if (error instanceof RateLimitError || error instanceof QuotaExhaustedError) {
+		return { type: "rate_limit", content: error.message, timestamp };
+	}
+	if (error instanceof SafetyBlockedError) {
+		return {
+			type: "blocked",
+			content:
+				"The AI's safety filters blocked this answer. Try rephrasing your question, or consult a lawyer directly.",
+			timestamp,
+			category: error.category,
+		};
+	}
+	if (error instanceof NetworkError || error instanceof InvalidKeyError) {
+		return { type: "error", content: error.message, timestamp };
+	}
+	return {
+		type: "error",
+		content:
+			"Sorry, I encountered an error while processing your request. Please try again.",
+		timestamp,
+	};
+};
 
 const ChatInterface = () => {
 	const [input, setInput] = useState("");
 	const [messages, setMessages] = useState<Message[]>([]);
+	const [pendingMessages, setPendingMessages] = useState<PendingMessage[]>([]);
+	const waitingMessages = pendingMessages.filter(({ status }) => status.position > 0);
+	// Queued requests read the conversation when they are dispatched, which
+	// can be before React has re-rendered with the previous answer
+	const messagesRef = useRef<Message[]>([]);
+	const nextPendingId = useRef(0);
+	// One controller per queued, streaming or refreshing request
+	const controllers = useRef(new Set<AbortController>());
+	const activeController = useRef<AbortController | null>(null);
 	const [isLoading, setIsLoading] = useState(false);
 	const [activeSuggestion, setActiveSuggestion] = useState<string | null>(null);
 	const [copiedMessageId, setCopiedMessageId] = useState<number | null>(null);
+	const [refreshingMessageId, setRefreshingMessageId] = useState<number | null>(
+		null
+	);
 	const [rateLimitCountdown, setRateLimitCountdown] = useState<number>(0);
+	const [streamingResponse, setStreamingResponse] =
+		useState<PartialStructuredResponse | null>(null);
 	const messagesEndRef = useRef<HTMLDivElement>(null);
+	// Show the answer bubble once something renderable has streamed in
+	const hasStreamedContent = Boolean(
+		streamingResponse?.title || streamingResponse?.content?.length
+	);
 	const inputRef = useRef<HTMLInputElement>(null);
 
 	const suggestions = [
@@ -90,83 +191,171 @@ const ChatInterface = () => {
 		return () => clearInterval(interval);
 	}, []);
 
+	// Leaving the chat stops whatever is still queued or on its way
+	useEffect(() => {
+		const active = controllers.current;
+		return () => active.forEach((controller) => controller.abort());
+	}, []);
+
 	useEffect(() => {
 		scrollToBottom();
-	}, [messages]);
+	}, [messages, streamingResponse, waitingMessages.length]);
 
 	const scrollToBottom = () => {
 		messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
 	};
 
+	const addMessage = (message: Message) => {
+		messagesRef.current = [...messagesRef.current, message];
+		setMessages(messagesRef.current);
+	};
+
+	const removePending = (id: number) =>
+		setPendingMessages((prev) => prev.filter((pending) => pending.id !== id));
+
+	const trackController = () => {
+		const controller = new AbortController();
+		controllers.current.add(controller);
+		return controller;
+	};
+
+	const releaseController = (controller: AbortController) => {
+		controllers.current.delete(controller);
+		if (activeController.current === controller) activeController.current = null;
+	};
+
+	const stopResponse = () => activeController.current?.abort();
+
 	const handleSubmit = async (e: React.FormEvent) => {
 		e.preventDefault();
 
-		if (!input.trim()) return;
+		const question = input.trim();
+		if (!question) return;
 
-		// Check rate limit before submitting
-		if (!canMakeRequest()) {
-			const timeUntilNext = getTimeUntilNextRequest();
-			const rateLimitMessage: Message = {
-				type: "rate_limit",
-				content: `Please wait ${Math.ceil(
-					timeUntilNext / 1000
-				)} seconds before sending another message. This helps manage API quotas.`,
-				timestamp: new Date(),
-			};
-			setMessages((prev) => [...prev, rateLimitMessage]);
-			return;
-		}
+		setInput("");
 
-		const userMessage: Message = {
-			type: "user",
-			content: input.trim(),
-			timestamp: new Date(),
-		};
-		setMessages((prev) => [...prev, userMessage]);
+		// While rate limited (or while another answer is on its way) the
+		// question waits in the queue and is sent automatically
+		const id = nextPendingId.current++;
+		const controller = trackController();
+		let sent = false;
+		const request = queueRequest(
+			() => {
+				if (!sent) {
+					sent = true;
+					addMessage({ type: "user", content: question, timestamp: new Date() });
+				}
+				setIsLoading(true);
+				activeController.current = controller;
 
-		setInput("");
-		setIsLoading(true);
+				return streamStructuredChatResponse(
+					question,
+					{ onPartial: setStreamingResponse },
+					{
+						history: toHistory(getConversationTurns(messagesRef.current)),
+						signal: controller.signal,
+					}
+				).finally(() => {
+					setIsLoading(false);
+					setStreamingResponse(null);
+				});
+			},
+			{
+				priority: "high",
+				signal: controller.signal,
+				onStatus: (status) =>
+					setPendingMessages((prev) =>
+						prev.map((pending) =>
+							pending.id === id ? { ...pending, status } : pending
+						)
+					),
+			}
+		);
+		setPendingMessages((prev) => [
+			...prev,
+			{
+				id,
+				content: question,
+				status: {
+					position: prev.filter(({ status }) => status.position > 0).length + 1,
+					eta: getTimeUntilNextRequest(),
+					retries: 0,
+				},
+				cancel: () => controller.abort(),
+			},
+		]);
 
 		try {
-			const structuredResponse = await getStructuredChatResponse(
-				`${SYSTEM_INSTRUCTION}\n\nUser question: ${input.trim()}`
-			);
+			const structuredResponse = await request.promise;
 
-			const aiMessage: Message = {
-				type: "ai",
+			addMessage({
+				type: answerType(structuredResponse),
 				content: structuredResponse.summary,
 				timestamp: new Date(),
 				structuredResponse,
-			};
-			setMessages((prev) => [...prev, aiMessage]);
-		} catch (error: any) {
+				model: structuredResponse.meta?.model,
+			});
+		} catch (error) {
+			if (error instanceof RequestCancelledError) {
+				// Questions cancelled while queued just disappear
+				if (sent) {
+					addMessage({
+						type: "ai",
+						content: "Stopped before the answer was complete.",
+						timestamp: new Date(),
+					});
+				}
+				return;
+			}
+
 			console.error("Error getting AI response:", error);
+			addMessage(toErrorMessage(error));
+		} finally {
+			removePending(id);
+			releaseController(controller);
+		}
+	};
 
-			let errorMessage: Message;
-
-			if (
-				error.message?.includes("Rate limit") ||
-				error.message?.includes("quota")
-			) {
-				errorMessage = {
-					type: "rate_limit",
-					content:
-						error.message ||
-						"Rate limit exceeded. Please wait before making another request.",
-					timestamp: new Date(),
-				};
-			} else {
-				errorMessage = {
-					type: "error",
-					content:
-						"Sorry, I encountered an error while processing your request. Please try again.",
-					timestamp: new Date(),
-				};
-			}
+	// Ask a cached answer's question again and replace the cache entry
+	const refreshAnswer = async (index: number) => {
+		const question = messagesRef.current[index - 1];
+		if (question?.type !== "user") return;
 
-			setMessages((prev) => [...prev, errorMessage]);
+		setRefreshingMessageId(index);
+		const controller = trackController();
+		try {
+			const structuredResponse = await queueRequest(
+				() =>
+					getStructuredChatResponse(question.content, {
+						history: toHistory(
+							getConversationTurns(messagesRef.current.slice(0, index - 1))
+						),
+						refresh: true,
+						signal: controller.signal,
+					}),
+				{ priority: "high", signal: controller.signal }
+			).promise;
+
+			messagesRef.current = messagesRef.current.map((message, i) =>
+				i === index
+					? {
+							...message,
+							type: answerType(structuredResponse),
+							content: structuredResponse.summary,
+							timestamp: new Date(),
+							structuredResponse,
+							model: structuredResponse.meta?.model,
+					  }
+					: message
+			);
+			setMessages(messagesRef.current);
+		} catch (error) {
+			if (error instanceof RequestCancelledError) return;
+			console.error("Error refreshing AI response:", error);
+			addMessage(toErrorMessage(error));
 		} finally {
-			setIsLoading(false);
+			releaseController(controller);
+			setRefreshingMessageId(null);
 		}
 	};
 
@@ -197,11 +386,46 @@ const ChatInterface = () => {
 							textToCopy += `Warning: ${item.content}\n\n`;
 							break;
 						case "resource":
-							textToCopy += `Resource: ${item.title}\n${item.content}\n${item.url}\n\n`;
+							textToCopy += `Resource: ${item.title}\n${item.content}\n`;
+							if (item.url) textToCopy += `${item.url}\n`;
+							textToCopy += "\n";
 							break;
 						case "code":
 							textToCopy += `Code (${item.language}):\n${item.content}\n\n`;
 							break;
+						case "table":
+							if (item.title) textToCopy += `${item.title}:\n`;
+							[item.columns ?? [], ...(item.rows ?? [])].forEach((row) => {
+								textToCopy += `${row.join(" | ")}\n`;
+							});
+							textToCopy += "\n";
+							break;
+						case "citation":
+							textToCopy += `Citation: ${[item.section, item.act].filter(Boolean).join(", ")}\n${item.content}\n`;
+							if (item.url) textToCopy += `${item.url}\n`;
+							textToCopy += "\n";
+							break;
+						case "checklist":
+							if (item.title) textToCopy += `${item.title}:\n`;
+							item.items?.forEach((checklistItem) => {
+								textToCopy += `[ ] ${checklistItem}\n`;
+							});
+							textToCopy += "\n";
+							break;
+						case "timeline":
+							if (item.title) textToCopy += `${item.title}:\n`;
+							item.events?.forEach(({ when, event }) => {
+								textToCopy += `${when}: ${event}\n`;
+							});
+							textToCopy += "\n";
+							break;
+						case "steps":
+							if (item.title) textToCopy += `${item.title}:\n`;
+							item.items?.forEach((step, i) => {
+								textToCopy += `${i + 1}. ${step}\n`;
+							});
+							textToCopy += "\n";
+							break;
 					}
 				});
 			}
@@ -224,7 +448,7 @@ const ChatInterface = () => {
 		});
 	};
 
-	const renderResponseItem = (item: ChatResponseItem, index: number) => {
+	const renderItemBody = (item: ChatResponseItem, index: number) => {
 		switch (item.type) {
 			case "text":
 				return (
@@ -284,15 +508,18 @@ const ChatInterface = () => {
 							<h4 className="text-sm font-medium">{item.title}</h4>
 						</div>
 						<p className="text-sm text-muted-foreground mb-2">{item.content}</p>
-						<a
-							href={item.url}
-							target="_blank"
-							rel="noopener noreferrer"
-							className="text-xs text-primary dark:text-secondary-400 hover:underline flex items-center gap-1"
-						>
-							<span>Visit resource</span>
-							<FiLink className="h-3 w-3" />
-						</a>
+						{item.url && (
+							<a
+								href={item.url}
+								target="_blank"
+								rel="noopener noreferrer"
+								className="text-xs text-primary dark:text-secondary-400 hover:underline flex items-center gap-1"
+							>
+								<span>Visit resource</span>
+								<FiLink className="h-3 w-3" />
+							</a>
+						)}
+						<SourceExcerpt sourceId={item.sourceId} />
 					</div>
 				);
 
@@ -313,11 +540,137 @@ const ChatInterface = () => {
 					</div>
 				);
 
+			case "table":
+				return (
+					<div key={index} className="mb-4">
+						{item.title && (
+							<h4 className="text-sm font-medium mb-1.5">{item.title}</h4>
+						)}
+						<div className="overflow-x-auto border border-border/60 rounded-md">
+							<table className="w-full text-sm">
+								<thead className="bg-muted/50">
+									<tr>
+										{item.columns?.map((column, i) => (
+											<th key={i} className="px-3 py-1.5 text-left font-medium">
+												{column}
+											</th>
+										))}
+									</tr>
+								</thead>
+								<tbody>
+									{item.rows?.map((row, i) => (
+										<tr key={i} className="border-t border-border/60">
+											{row.map((cell, j) => (
+												<td key={j} className="px-3 py-1.5 align-top">
+													{cell}
+												</td>
+											))}
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</div>
+					</div>
+				);
+
+			case "citation":
+				return (
+					<div
+						key={index}
+						className="mb-3 p-2 border-l-2 border-primary dark:border-secondary-400 bg-muted/30 rounded-sm"
+					>
+						<div className="flex items-center gap-2 mb-1">
+							<FiBookOpen className="text-primary dark:text-secondary-400 shrink-0" />
+							<h4 className="text-sm font-medium">{item.act}</h4>
+							{item.section && (
+								<Badge variant="outline" className="text-xs">
+									{item.section}
+								</Badge>
+							)}
+						</div>
+						<p className="text-sm text-muted-foreground">{item.content}</p>
+						{item.url && (
+							<a
+								href={item.url}
+								target="_blank"
+								rel="noopener noreferrer"
+								className="text-xs text-primary dark:text-secondary-400 hover:underline flex items-center gap-1 mt-1"
+							>
+								<span>Read the provision</span>
+								<FiLink className="h-3 w-3" />
+							</a>
+						)}
+						<SourceExcerpt sourceId={item.sourceId} />
+					</div>
+				);
+
+			case "checklist":
+				return (
+					<div key={index} className="mb-4">
+						{item.title && (
+							<h4 className="text-sm font-medium mb-1.5">{item.title}</h4>
+						)}
+						<ul className="space-y-1">
+							{item.items?.map((checklistItem, i) => (
+								<li key={i} className="flex items-start gap-2 text-foreground">
+									<FiSquare className="mt-1 h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+									<span>{checklistItem}</span>
+								</li>
+							))}
+						</ul>
+					</div>
+				);
+
+			case "timeline":
+				return (
+					<div key={index} className="mb-4">
+						{item.title && (
+							<h4 className="text-sm font-medium mb-1.5">{item.title}</h4>
+						)}
+						<ol className="border-l-2 border-border/60 ml-1.5 space-y-2">
+							{item.events?.map(({ when, event }, i) => (
+								<li key={i} className="relative pl-4">
+									<span className="absolute -left-[5px] top-1.5 h-2 w-2 rounded-full bg-primary dark:bg-secondary-400" />
+									<p className="text-xs font-medium text-muted-foreground">{when}</p>
+									<p className="text-sm text-foreground">{event}</p>
+								</li>
+							))}
+						</ol>
+					</div>
+				);
+
+			case "steps":
+				return (
+					<div key={index} className="mb-4">
+						{item.title && (
+							<h4 className="text-sm font-medium mb-1.5">{item.title}</h4>
+						)}
+						<ol className="space-y-1 list-decimal pl-5">
+							{item.items?.map((step, i) => (
+								<li key={i} className="text-foreground">
+									{step}
+								</li>
+							))}
+						</ol>
+					</div>
+				);
+
 			default:
 				return null;
 		}
 	};
 
+	// Cited sections are checked against the statute index, see legal/citations.ts
+	const renderResponseItem = (item: ChatResponseItem, index: number) =>
+		item.citations?.length ? (
+			<div key={index}>
+				{renderItemBody(item, index)}
+				<CitationBadges citations={item.citations} className="-mt-1.5 mb-3" />
+			</div>
+		) : (
+			renderItemBody(item, index)
+		);
+
 	return (
 		<div className="h-full flex flex-col" aria-label="Chat interface">
 			<div
@@ -326,7 +679,7 @@ const ChatInterface = () => {
 				aria-live="polite"
 				aria-label="Chat conversation"
 			>
-				{messages.length === 0 && (
+				{messages.length === 0 && pendingMessages.length === 0 && (
 					<div
 						className="flex flex-col items-center justify-center h-full text-center space-y-6 text-muted-foreground"
 						aria-label="Welcome to chat"
@@ -373,7 +726,6 @@ const ChatInterface = () => {
 											}
 											className="w-fit justify-start text-left h-auto py-2.5 px-4 font-normal text-foreground dark:text-foreground "
 											size={"default"}
-											disabled={rateLimitCountdown > 0}
 											onClick={() => {
 												setInput(suggestion);
 												setActiveSuggestion(suggestion);
@@ -420,6 +772,8 @@ const ChatInterface = () => {
 														? "bg-primary/10 text-primary"
 														: message.type === "error"
 														? "bg-destructive/10 text-destructive"
+														: message.type === "blocked"
+														? "bg-orange-500/10 text-orange-600"
 														: message.type === "rate_limit"
 														? "bg-amber/10 text-amber-600"
 														: "bg-secondary-400/10 dark:bg-secondary-400/20 text-secondary-700 dark:text-secondary-400"
@@ -432,6 +786,8 @@ const ChatInterface = () => {
 													<FiUser aria-hidden="true" />
 												) : message.type === "error" ? (
 													"!"
+												) : message.type === "blocked" ? (
+													<FiShieldOff aria-hidden="true" />
 												) : message.type === "rate_limit" ? (
 													<FiClock aria-hidden="true" />
 												) : (
@@ -446,20 +802,80 @@ const ChatInterface = () => {
 													? "border-primary/20 dark:border-primary/20 bg-primary/5 dark:bg-primary/10"
 													: message.type === "error"
 													? "border-destructive/20 bg-destructive/5"
+													: message.type === "blocked"
+													? "border-orange-200 bg-orange-50 dark:border-orange-800 dark:bg-orange-900/20"
 													: message.type === "rate_limit"
 													? "border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/20"
 													: "border-border/60 dark:border-border/30 bg-card"
 											}`}
 										>
 											<CardContent className="p-3 sm:p-4">
-												{message.type === "ai" && (
+												{isAnswer(message) && (
 													<div className="flex justify-between items-center mb-2">
-														<Badge
-															variant="outline"
-															className="text-xs mb-1 border-secondary-400/30 bg-secondary-400/5 text-secondary-700 dark:text-secondary-300"
-														>
-															AI Assistant
-														</Badge>
+														<div className="flex items-center gap-1.5">
+															<Badge
+																variant="outline"
+																className="text-xs mb-1 border-secondary-400/30 bg-secondary-400/5 text-secondary-700 dark:text-secondary-300"
+															>
+																AI Assistant
+															</Badge>
+															{message.type === "truncated" && (
+																<Badge
+																	variant="outline"
+																	className="text-xs mb-1 border-amber-400/30 bg-amber-400/5 text-amber-700 dark:text-amber-300"
+																>
+																	Truncated
+																</Badge>
+															)}
+															{message.structuredResponse?.meta &&
+																SOURCE_LABELS[message.structuredResponse.meta.source] && (
+																	<Badge
+																		variant="outline"
+																		className="text-xs mb-1 text-muted-foreground"
+																	>
+																		{SOURCE_LABELS[message.structuredResponse.meta.source]}
+																	</Badge>
+																)}
+															{message.structuredResponse?.meta?.cached && (
+																<Badge
+																	variant="outline"
+																	className="text-xs mb-1 text-muted-foreground"
+																>
+																	Cached
+																</Badge>
+															)}
+															{message.model && (
+																<span className="text-xs mb-1 text-muted-foreground">
+																	{getModelLabel(message.model)}
+																</span>
+															)}
+														</div>
+														{message.timestamp && (
+															<span className="text-xs text-muted-foreground">
+																{formatTimestamp(message.timestamp)}
+															</span>
+														)}
+													</div>
+												)}
+
+												{message.type === "blocked" && (
+													<div className="flex justify-between items-center mb-2">
+														<div className="flex items-center gap-1.5">
+															<Badge
+																variant="outline"
+																className="text-xs mb-1 border-orange-400/30 bg-orange-400/5 text-orange-700 dark:text-orange-300"
+															>
+																Blocked
+															</Badge>
+															{message.category && (
+																<Badge
+																	variant="outline"
+																	className="text-xs mb-1 text-muted-foreground"
+																>
+																	{SAFETY_CATEGORY_LABELS[message.category]}
+																</Badge>
+															)}
+														</div>
 														{message.timestamp && (
 															<span className="text-xs text-muted-foreground">
 																{formatTimestamp(message.timestamp)}
@@ -498,6 +914,8 @@ const ChatInterface = () => {
 															? "text-primary-900 dark:text-primary-50"
 															: message.type === "error"
 															? "text-destructive dark:text-destructive"
+															: message.type === "blocked"
+															? "text-orange-800 dark:text-orange-200"
 															: message.type === "rate_limit"
 															? "text-amber-800 dark:text-amber-200"
 															: "text-foreground"
@@ -510,6 +928,11 @@ const ChatInterface = () => {
 															<FiAlertTriangle className="text-destructive mt-0.5 shrink-0" />
 															<p className="text-sm">{message.content}</p>
 														</div>
+													) : message.type === "blocked" ? (
+														<div className="flex items-start gap-2">
+															<FiShieldOff className="text-orange-600 dark:text-orange-400 mt-0.5 shrink-0" />
+															<p className="text-sm">{message.content}</p>
+														</div>
 													) : message.type === "rate_limit" ? (
 														<div className="flex items-start gap-2">
 															<FiClock className="text-amber-600 dark:text-amber-400 mt-0.5 shrink-0" />
@@ -518,22 +941,63 @@ const ChatInterface = () => {
 													) : message.structuredResponse ? (
 														<div>
 															{message.structuredResponse.title && (
-																<h3 className="text-base font-medium mb-2">
+																<h3 className="text-base font-medium mb-1">
 																	{message.structuredResponse.title}
 																</h3>
 															)}
+															{message.structuredResponse.summary && (
+																<p className="text-sm text-muted-foreground mb-3">
+																	{message.structuredResponse.summary}
+																</p>
+															)}
 
 															{message.structuredResponse.content.map(
 																renderResponseItem
 															)}
+															{message.structuredResponse.meta?.nearContextLimit && (
+																<p className="flex items-start gap-1.5 text-xs text-amber-700 dark:text-amber-300">
+																	<FiAlertTriangle className="mt-0.5 shrink-0" aria-hidden="true" />
+																	This conversation is close to the model's context
+																	limit. Start a new conversation if answers get cut
+																	off.
+																</p>
+															)}
 														</div>
 													) : (
 														<p className="text-sm">{message.content}</p>
 													)}
 												</div>
 
-												{message.type === "ai" && (
+												{isAnswer(message) && (
 													<div className="flex justify-end mt-2">
+														{message.structuredResponse?.meta?.cached && (
+															<TooltipProvider>
+																<Tooltip>
+																	<TooltipTrigger asChild>
+																		<Button
+																			variant="ghost"
+																			size="sm"
+																			className="h-7 w-7 p-0 rounded-full"
+																			onClick={() => refreshAnswer(index)}
+																			disabled={refreshingMessageId !== null}
+																			aria-label="Get a fresh answer"
+																		>
+																			<FiRotateCw
+																				className={`h-3.5 w-3.5 text-muted-foreground ${
+																					refreshingMessageId === index
+																						? "animate-spin"
+																						: ""
+																				}`}
+																				aria-hidden="true"
+																			/>
+																		</Button>
+																	</TooltipTrigger>
+																	<TooltipContent side="bottom" align="end">
+																		Cached answer. Ask again for a fresh one
+																	</TooltipContent>
+																</Tooltip>
+															</TooltipProvider>
+														)}
 														<TooltipProvider>
 															<Tooltip>
 																<TooltipTrigger asChild>
@@ -578,7 +1042,51 @@ const ChatInterface = () => {
 					</div>
 				)}
 
-				{isLoading && (
+				{isLoading && streamingResponse && hasStreamedContent && (
+					<motion.div
+						initial={{ opacity: 0 }}
+						animate={{ opacity: 1 }}
+						className="flex items-start gap-3 max-w-[85%]"
+						aria-busy="true"
+						aria-label="AI is writing a response"
+					>
+						<Avatar className="h-8 w-8 mt-1 border border-dashed border-border/40">
+							<AvatarFallback className="bg-secondary-400/10 dark:bg-secondary-400/20 text-secondary-700 dark:text-secondary-400">
+								<FiCpu aria-hidden="true" />
+							</AvatarFallback>
+						</Avatar>
+						<Card className="py-0 border-border/60 dark:border-border/30 bg-card">
+							<CardContent className="p-3 sm:p-4">
+								<div className="flex justify-between items-center mb-2">
+									<Badge
+										variant="outline"
+										className="text-xs mb-1 border-secondary-400/30 bg-secondary-400/5 text-secondary-700 dark:text-secondary-300"
+									>
+										AI Assistant
+									</Badge>
+									<span className="text-xs text-muted-foreground">
+										Writing...
+									</span>
+								</div>
+								<div className="text-foreground">
+									{streamingResponse.title && (
+										<h3 className="text-base font-medium mb-1">
+											{streamingResponse.title}
+										</h3>
+									)}
+									{streamingResponse.summary && (
+										<p className="text-sm text-muted-foreground mb-3">
+											{streamingResponse.summary}
+										</p>
+									)}
+									{streamingResponse.content?.map(renderResponseItem)}
+								</div>
+							</CardContent>
+						</Card>
+					</motion.div>
+				)}
+
+				{isLoading && !hasStreamedContent && (
 					<motion.div
 						initial={{ opacity: 0 }}
 						animate={{ opacity: 1 }}
@@ -634,11 +1142,78 @@ const ChatInterface = () => {
 						</Card>
 					</motion.div>
 				)}
+
+				{waitingMessages.map((pending) => (
+					<motion.div
+						key={`pending-${pending.id}`}
+						variants={messageVariants}
+						initial="hidden"
+						animate="visible"
+						className="flex justify-end"
+						aria-label={`Queued: ${pending.content}`}
+					>
+						<div className="flex flex-row-reverse items-start gap-3 max-w-[85%]">
+							<Avatar className="h-8 w-8 mt-1 border border-dashed border-border/40">
+								<AvatarFallback className="bg-primary/10 text-primary">
+									<FiUser aria-hidden="true" />
+								</AvatarFallback>
+							</Avatar>
+							<Card className="py-0 border-dashed border-primary/30 bg-primary/5 dark:bg-primary/10 opacity-75">
+								<CardContent className="p-3 sm:p-4">
+									<div className="flex justify-between items-center gap-3 mb-1">
+										<span className="flex items-center gap-1 text-xs text-muted-foreground">
+											<FiClock className="h-3 w-3" aria-hidden="true" />
+											{pending.status.retries > 0
+												? `Rate limited, retrying in ~${Math.ceil(
+														pending.status.eta / 1000
+												  )}s`
+												: `Queued #${pending.status.position}, sends in ~${Math.ceil(
+														pending.status.eta / 1000
+												  )}s`}
+										</span>
+										<Button
+											variant="ghost"
+											size="sm"
+											className="h-6 w-6 p-0 rounded-full"
+											onClick={pending.cancel}
+											aria-label="Cancel queued message"
+										>
+											<FiX className="h-3.5 w-3.5" aria-hidden="true" />
+										</Button>
+									</div>
+									<p className="text-sm text-primary-900 dark:text-primary-50">
+										{pending.content}
+									</p>
+								</CardContent>
+							</Card>
+						</div>
+					</motion.div>
+				))}
 			</div>
 
 			<div className="mt-auto">
 				<Separator className="mb-4 border-dashed" />
 				<div className="px-4 pb-3">
+					{messages.length > 0 && (
+						<div className="flex justify-end mb-2">
+							<Button
+								variant="ghost"
+								size="sm"
+								className="h-7 text-xs text-muted-foreground"
+								onClick={() => {
+									pendingMessages.forEach((pending) => pending.cancel());
+									messagesRef.current = [];
+									setMessages([]);
+									setActiveSuggestion(null);
+								}}
+								disabled={isLoading}
+								aria-label="Start a new conversation"
+							>
+								<FiRefreshCw className="h-3.5 w-3.5" aria-hidden="true" />
+								New conversation
+							</Button>
+						</div>
+					)}
 					<form
 						onSubmit={handleSubmit}
 						className="flex items-center gap-2"
@@ -650,22 +1225,25 @@ const ChatInterface = () => {
 								type="text"
 								placeholder={
 									rateLimitCountdown > 0
-										? `Please wait ${rateLimitCountdown}s...`
+										? `Rate limited for ${rateLimitCountdown}s, questions will be queued...`
 										: "Type your legal question..."
 								}
 								value={input}
 								onChange={(e) => setInput(e.target.value)}
 								autoFocus
-								disabled={rateLimitCountdown > 0}
 								className="pr-12 rounded-full"
 								aria-label="Type your legal question"
 							/>
 							<Button
 								type="submit"
 								size="icon"
-								disabled={!input.trim() || isLoading || rateLimitCountdown > 0}
+								disabled={!input.trim()}
 								className="absolute right-0 top-0 h-full px-3 rounded-l-none"
-								aria-label="Send message"
+								aria-label={
+									rateLimitCountdown > 0 || isLoading
+										? "Queue message"
+										: "Send message"
+								}
 							>
 								{rateLimitCountdown > 0 ? (
 									<FiClock
@@ -675,13 +1253,25 @@ const ChatInterface = () => {
 								) : (
 									<FiSend
 										className={`h-4 w-4 ${
-											!input.trim() || isLoading ? "text-muted-foreground" : ""
+											!input.trim() ? "text-muted-foreground" : ""
 										}`}
 										aria-hidden="true"
 									/>
 								)}
 							</Button>
 						</div>
+						{isLoading && (
+							<Button
+								type="button"
+								variant="outline"
+								size="icon"
+								onClick={stopResponse}
+								className="rounded-full shrink-0"
+								aria-label="Stop generating the answer"
+							>
+								<FiSquare className="h-4 w-4" aria-hidden="true" />
+							</Button>
+						)}
 					</form>
 					<div className="mt-4 text-xs text-center text-muted-foreground">
 						<p>
@@ -690,8 +1280,8 @@ const ChatInterface = () => {
 						</p>
 						{rateLimitCountdown > 0 && (
 							<p className="text-amber-600 dark:text-amber-400 mt-1">
-								Rate limiting helps manage API quotas. Free tier has limited
-								requests per minute.
+								Rate limiting helps manage API quotas. Questions you send now are
+								queued and go out automatically.
 							</p>
 						)}
 					</div>
@@ -0,0 +1,86 @@
+import { BadgeCheck, Ban, CircleHelp } from "lucide-react";
+import { cn } from "../lib/utils";
+import { CitationCheck, formatCodeSection } from "../utils/gemini";
+import { Badge } from "./ui/badge";
+import {
+	Tooltip,
+	TooltipContent,
+	TooltipProvider,
+	TooltipTrigger,
+} from "./ui/tooltip";
+
+const STATUS_STYLES: Record<CitationCheck["status"], { className: string; label: string }> = {
+	verified: {
+		className: "border-green-600/40 text-green-700 dark:text-green-400",
+		label: "Found in the statute index",
+	},
+	repealed: {
+		className: "border-orange-500/40 text-orange-600 dark:text-orange-400",
+		label: "No longer in force",
+	},
+	unknown: {
+		className: "border-border text-muted-foreground",
+		label: "Not found in the statute index; check it before relying on it",
+	},
+};
+
+const STATUS_ICONS = {
+	verified: BadgeCheck,
+	repealed: Ban,
+	unknown: CircleHelp,
+};
+
+/**
+ * One badge per cited section, coloured by whether the statute index
+ * knows it, with the section heading and repeal note on hover. Sections
+ * of the old criminal codes also name their new-code counterpart.
+ */
+const CitationBadges = ({
+	citations,
+	className,
+}: {
+	citations?: CitationCheck[];
+	className?: string;
+}) => {
+	if (!citations?.length) return null;
+
+	return (
+		<TooltipProvider>
+			<div className={cn("flex flex-wrap gap-1.5 mt-2", className)} aria-label="Cited sections">
+				{citations.map((citation) => {
+					const { className, label } = STATUS_STYLES[citation.status];
+					const Icon = STATUS_ICONS[citation.status];
+					const { equivalent } = citation;
+					return (
+						<Tooltip key={`${citation.act ?? citation.actTitle}:${citation.section}`}>
+							<TooltipTrigger asChild>
+								<Badge variant="outline" className={className}>
+									<Icon />
+									{citation.actShort} s. {citation.section}
+									{equivalent?.new && <span>→ {formatCodeSection(equivalent.new)}</span>}
+								</Badge>
+							</TooltipTrigger>
+							<TooltipContent side="bottom" className="max-w-xs">
+								<p className="font-medium">
+									Section {citation.section}, {citation.actTitle}
+								</p>
+								{citation.heading && <p>{citation.heading}</p>}
+								<p>{citation.note ?? label}</p>
+								{equivalent && (
+									<p>
+										{equivalent.new
+											? `Now ${formatCodeSection(equivalent.new)}.`
+											: "No counterpart in the new codes."}
+										{equivalent.note && ` ${equivalent.note}.`}
+									</p>
+								)}
+							</TooltipContent>
+						</Tooltip>
+					);
+				})}
+			</div>
+		</TooltipProvider>
+	);
+};
+
+export default CitationBadges;
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { ExternalLink, Landmark } from "lucide-react";
+import { Card, CardHeader, CardContent, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Badge } from "./ui/badge";
+import {
+	E_DAAKHIL_STEPS,
+	E_DAAKHIL_URL,
+	Jurisdiction,
+	selectConsumerForum,
+} from "../utils/gemini";
+
+/**
+ * Which consumer commission to file at and where, from the amount paid
+ * and the parties' locations, with the e-Daakhil filing steps
+ */
+const ConsumerForumCard = ({
+	consideration,
+	location,
+	jurisdiction,
+	amountPaid,
+	onAmountPaidChange,
+}: {
+	/** Amount paid for the goods or services, if entered */
+	consideration?: number;
+	location: string;
+	jurisdiction?: Jurisdiction;
+	/**
+	 * Given when no Key Facts question asks for the amount paid (no
+	 * sub-type chosen yet), so the card asks for it itself
+	 */
+	amountPaid?: string;
+	onAmountPaidChange?: (value: string) => void;
+}) => {
+	const [oppositePartyLocation, setOppositePartyLocation] = useState("");
+
+	const forum =
+		consideration !== undefined && location.trim()
+			? selectConsumerForum({
+					consideration,
+					complainantLocation: location,
+					complainantJurisdiction: jurisdiction,
+					oppositePartyLocation,
+			  })
+			: undefined;
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<Landmark className="h-5 w-5" />
+					Where to File
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{amountPaid !== undefined && (
+					<div className="space-y-2">
+						<Label htmlFor="consumerAmountPaid">Amount Paid (₹)</Label>
+						<Input
+							id="consumerAmountPaid"
+							type="number"
+							min={0}
+							inputMode="numeric"
+							value={amountPaid}
+							onChange={(e) => onAmountPaidChange?.(e.target.value)}
+							placeholder="What you paid for the goods or services"
+						/>
+					</div>
+				)}
+
+				<div className="space-y-2">
+					<Label htmlFor="oppositePartyLocation">
+						Opposite Party's Place of Business
+					</Label>
+					<Input
+						id="oppositePartyLocation"
+						value={oppositePartyLocation}
+						onChange={(e) => setOppositePartyLocation(e.target.value)}
+						placeholder="City of the seller's or service provider's office or branch"
+					/>
+				</div>
+
+				{forum ? (
+					<div className="space-y-3" aria-live="polite">
+						<div>
+							<div className="flex flex-wrap items-center gap-2">
+								<span className="font-semibold">{forum.name}</span>
+								<Badge variant="secondary">{forum.limit}</Badge>
+							</div>
+							<p className="text-xs text-muted-foreground">
+								{forum.source}. Filing fee:{" "}
+								{forum.fee === 0 ? "none" : `₹${forum.fee.toLocaleString("en-IN")}`}.
+							</p>
+						</div>
+						<div>
+							<p className="text-sm font-medium mb-1">You can file at</p>
+							<ul className="space-y-1 text-sm text-foreground">
+								{forum.territorial.map((option) => (
+									<li key={option}>• {option}</li>
+								))}
+							</ul>
+						</div>
+						<div>
+							<p className="text-sm font-medium mb-1">Filing on e-Daakhil</p>
+							<ol className="space-y-1 text-sm text-foreground list-decimal list-inside">
+								{E_DAAKHIL_STEPS.map((step) => (
+									<li key={step}>{step}</li>
+								))}
+							</ol>
+							<a
+								href={E_DAAKHIL_URL}
+								target="_blank"
+								rel="noopener noreferrer"
+								className="text-xs text-primary dark:text-secondary-400 hover:underline inline-flex items-center gap-1 mt-2"
+							>
+								Open e-Daakhil <ExternalLink className="h-3 w-3" />
+							</a>
+						</div>
+						<p className="text-xs text-muted-foreground">{forum.appeal}.</p>
+					</div>
+				) : (
+					<p className="text-sm text-muted-foreground">
+						Choose the state and enter the amount you paid
+						{amountPaid === undefined && " under Key Facts"} to see which
+						commission hears the complaint. The amount paid
+						decides it, not the compensation you ask for.
+					</p>
+				)}
+			</CardContent>
+		</Card>
+	);
+};
+
+export default ConsumerForumCard;
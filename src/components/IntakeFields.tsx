@@ -0,0 +1,73 @@
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "./ui/select";
+import { CaseSubtype, IntakeField } from "../utils/gemini";
+
+const fieldId = (field: IntakeField) => `intake-${field.id}`;
+
+/** The intake questions of a case sub-type, all optional, keyed by field id in `values` */
+const IntakeFields = ({
+	subtype,
+	values,
+	onChange,
+	disabled,
+}: {
+	subtype: CaseSubtype;
+	values: Record<string, string>;
+	onChange: (id: string, value: string) => void;
+	disabled?: boolean;
+}) => (
+	<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+		{subtype.fields.map((field) => (
+			<div key={field.id} className="space-y-2">
+				<Label htmlFor={fieldId(field)}>
+					{field.label}
+					{field.kind === "amount" && " (₹)"}
+				</Label>
+				{field.kind === "select" ? (
+					<Select
+						value={values[field.id] ?? ""}
+						onValueChange={(value) => onChange(field.id, value)}
+						disabled={disabled}
+					>
+						<SelectTrigger id={fieldId(field)} className="w-full">
+							<SelectValue placeholder="Select" />
+						</SelectTrigger>
+						<SelectContent>
+							{field.options?.map((option) => (
+								<SelectItem key={option} value={option}>
+									{option}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				) : (
+					<Input
+						id={fieldId(field)}
+						type={
+							field.kind === "date"
+								? "date"
+								: field.kind === "amount"
+								? "number"
+								: "text"
+						}
+						min={field.kind === "amount" ? 0 : undefined}
+						inputMode={field.kind === "amount" ? "numeric" : undefined}
+						value={values[field.id] ?? ""}
+						onChange={(e) => onChange(field.id, e.target.value)}
+						placeholder={field.placeholder}
+						disabled={disabled}
+					/>
+				)}
+			</div>
+		))}
+	</div>
+);
+
+export default IntakeFields;
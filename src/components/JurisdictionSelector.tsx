@@ -0,0 +1,134 @@
+import { Label } from "./ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectGroup,
+	SelectItem,
+	SelectLabel,
+	SelectTrigger,
+	SelectValue,
+} from "./ui/select";
+import {
+	courtsFor,
+	getJurisdiction,
+	Jurisdiction,
+	JURISDICTIONS,
+} from "../utils/gemini";
+
+// Radix selects cannot hold an empty value, so "no court chosen" needs one of its own
+const ANY_COURT = "any";
+
+const STATES = JURISDICTIONS.filter(({ kind }) => kind === "state");
+const UNION_TERRITORIES = JURISDICTIONS.filter(({ kind }) => kind === "ut");
+
+/**
+ * State or union territory, then district, then court, each list narrowed
+ * by the one before it. Choosing a state clears the district and court,
+ * and choosing a district clears the court.
+ */
+const JurisdictionSelector = ({
+	value,
+	onChange,
+	disabled,
+}: {
+	value?: Jurisdiction;
+	onChange: (jurisdiction: Jurisdiction) => void;
+	disabled?: boolean;
+}) => {
+	const state = value && getJurisdiction(value.state);
+	const courts = value ? courtsFor(value) : [];
+
+	return (
+		<div className="space-y-3">
+			<div className="space-y-2">
+				<Label htmlFor="jurisdictionState">State or Union Territory *</Label>
+				<Select
+					value={value?.state ?? ""}
+					onValueChange={(id) => onChange({ state: id })}
+					disabled={disabled}
+				>
+					<SelectTrigger id="jurisdictionState" className="w-full">
+						<SelectValue placeholder="Select a state or union territory" />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectGroup>
+							<SelectLabel>States</SelectLabel>
+							{STATES.map(({ id, name }) => (
+								<SelectItem key={id} value={id}>
+									{name}
+								</SelectItem>
+							))}
+						</SelectGroup>
+						<SelectGroup>
+							<SelectLabel>Union Territories</SelectLabel>
+							{UNION_TERRITORIES.map(({ id, name }) => (
+								<SelectItem key={id} value={id}>
+									{name}
+								</SelectItem>
+							))}
+						</SelectGroup>
+					</SelectContent>
+				</Select>
+				{state && (
+					<p className="text-xs text-muted-foreground">
+						High Court: {state.highCourt.name}, {state.highCourt.seat}
+					</p>
+				)}
+			</div>
+
+			<div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+				<div className="space-y-2">
+					<Label htmlFor="jurisdictionDistrict">District</Label>
+					<Select
+						value={value?.district ?? ""}
+						onValueChange={(district) =>
+							value && onChange({ state: value.state, district })
+						}
+						disabled={disabled || !state}
+					>
+						<SelectTrigger id="jurisdictionDistrict" className="w-full">
+							<SelectValue placeholder="Optional" />
+						</SelectTrigger>
+						<SelectContent>
+							{state?.districts.map(({ id, name }) => (
+								<SelectItem key={id} value={id}>
+									{name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+
+				<div className="space-y-2">
+					<Label htmlFor="jurisdictionCourt">Court or Tribunal</Label>
+					<Select
+						value={value?.court ?? ANY_COURT}
+						onValueChange={(court) =>
+							value &&
+							onChange({
+								state: value.state,
+								district: value.district,
+								court: court === ANY_COURT ? undefined : court,
+							})
+						}
+						disabled={disabled || !state}
+					>
+						<SelectTrigger id="jurisdictionCourt" className="w-full">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value={ANY_COURT}>Not decided yet</SelectItem>
+							{courts.map((court) => (
+								<SelectItem key={court} value={court}>
+									{court}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+			</div>
+		</div>
+	);
+};
+
+export default JurisdictionSelector;
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { CalendarClock } from "lucide-react";
+import { Card, CardHeader, CardContent, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Badge } from "./ui/badge";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "./ui/select";
+import {
+	computeDeadline,
+	formatPeriod,
+	LimitationDeadline,
+	rulesForCaseType,
+	todayISO,
+} from "../utils/gemini";
+
+const STATUS_STYLES: Record<LimitationDeadline["status"], string> = {
+	open: "border-green-600/40 text-green-700 dark:text-green-400",
+	closing: "border-amber-500/40 text-amber-600 dark:text-amber-400",
+	expired: "border-red-500/40 text-red-600 dark:text-red-400",
+};
+
+const formatDate = (iso: string) =>
+	new Date(`${iso}T00:00:00Z`).toLocaleDateString("en-IN", {
+		weekday: "short",
+		day: "numeric",
+		month: "long",
+		year: "numeric",
+		timeZone: "UTC",
+	});
+
+const describeDaysLeft = ({ daysLeft }: LimitationDeadline) =>
+	daysLeft < 0
+		? `Passed ${-daysLeft} ${daysLeft === -1 ? "day" : "days"} ago`
+		: daysLeft === 0
+		? "Today is the last day"
+		: `${daysLeft} ${daysLeft === 1 ? "day" : "days"} left`;
+
+/**
+ * Last day to file for the case type, worked out from the limitation
+ * rules rather than by the model. Remount with a new `key` when the case
+ * type changes, so the first matching rule is selected again.
+ */
+const LimitationCard = ({ caseType }: { caseType: string }) => {
+	const rules = rulesForCaseType(caseType);
+	const [ruleId, setRuleId] = useState(rules[0].id);
+	const [from, setFrom] = useState("");
+
+	const rule = rules.find(({ id }) => id === ruleId) ?? rules[0];
+	const deadline = from ? computeDeadline(rule, from) : undefined;
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<CalendarClock className="h-5 w-5" />
+					Limitation Period
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div className="space-y-2">
+					<Label htmlFor="limitationRule">What you need to file</Label>
+					<Select value={rule.id} onValueChange={setRuleId}>
+						<SelectTrigger id="limitationRule" className="w-full">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{rules.map(({ id, description }) => (
+								<SelectItem key={id} value={id}>
+									{description}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<p className="text-xs text-muted-foreground">
+						{formatPeriod(rule.period)} under {rule.source}. Time runs from{" "}
+						{rule.runsFrom}.
+					</p>
+				</div>
+
+				<div className="space-y-2">
+					<Label htmlFor="limitationFrom">Date time started running</Label>
+					<Input
+						id="limitationFrom"
+						type="date"
+						value={from}
+						max={todayISO()}
+						onChange={(e) => setFrom(e.target.value)}
+					/>
+				</div>
+
+				{deadline && (
+					<div className="space-y-2" aria-live="polite">
+						<div className="flex flex-wrap items-center gap-2">
+							<span className="text-sm text-muted-foreground">Last day to file:</span>
+							<span className="font-semibold">{formatDate(deadline.lastDay)}</span>
+							<Badge variant="outline" className={STATUS_STYLES[deadline.status]}>
+								{describeDaysLeft(deadline)}
+							</Badge>
+						</div>
+						{deadline.weekend && (
+							<p className="text-xs text-muted-foreground">
+								This falls on a weekend. If the court is closed that day, filing
+								on the day it reopens is in time (section 4 of the Limitation
+								Act), but do not plan on it.
+							</p>
+						)}
+						<p className="text-sm text-foreground">
+							{deadline.status === "expired" ? "Filing late: " : "If you miss it: "}
+							{rule.condonation}
+						</p>
+					</div>
+				)}
+
+				<p className="text-xs text-muted-foreground">
+					A general guide only. The right article depends on the facts, and
+					a lawyer should confirm the deadline before you rely on it.
+				</p>
+			</CardContent>
+		</Card>
+	);
+};
+
+export default LimitationCard;
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import {
+	getAvailableModels,
+	getSelectedModel,
+	setSelectedModel,
+	ModelDefinition,
+} from "../utils/gemini";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "./ui/select";
+
+// Radix Select needs a non-empty value for "no preference"
+const AUTO = "auto";
+
+/**
+ * Picks the model tried first. The rest of the fallback chain still
+ * answers when the chosen model is rate limited or out of quota.
+ */
+export default function ModelSelector() {
+	const [models, setModels] = useState<ModelDefinition[]>([]);
+	const [selected, setSelected] = useState(getSelectedModel() ?? AUTO);
+
+	useEffect(() => {
+		getAvailableModels()
+			.then(setModels)
+			.catch((error) => console.error("Could not load models:", error));
+	}, []);
+
+	if (models.length < 2) {
+		return (
+			<div className="text-xs px-3 py-1.5 rounded-full bg-light-100 dark:bg-dark-100 text-primary-600 dark:text-secondary-300 border border-primary-100 dark:border-secondary-900/30">
+				{models[0] ? `Powered by ${models[0].label}` : "Powered by AI"}
+			</div>
+		);
+	}
+
+	// A remembered model that is no longer configured counts as "auto"
+	const value = models.some((model) => model.id === selected) ? selected : AUTO;
+
+	return (
+		<Select
+			value={value}
+			onValueChange={(next) => {
+				setSelected(next);
+				setSelectedModel(next === AUTO ? undefined : next);
+			}}
+		>
+			<SelectTrigger
+				size="sm"
+				className="rounded-full text-xs bg-light-100 dark:bg-dark-100 text-primary-600 dark:text-secondary-300 border-primary-100 dark:border-secondary-900/30"
+				aria-label="Model"
+			>
+				<SelectValue />
+			</SelectTrigger>
+			<SelectContent align="end">
+				<SelectItem value={AUTO}>Auto ({models[0].label} first)</SelectItem>
+				{models.map((model) => (
+					<SelectItem key={model.id} value={model.id}>
+						{model.label}
+						{model.capabilities.vision && (
+							<span className="text-muted-foreground">· vision</span>
+						)}
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	);
+}
@@ -0,0 +1,116 @@
+import { useMemo, useState } from "react";
+import { ArrowRight, Ban, Search } from "lucide-react";
+import { Card, CardHeader, CardContent, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Badge } from "./ui/badge";
+import { CodeMapping, formatCodeSection, searchMappings } from "../utils/gemini";
+
+// Acts a section can be looked up in, old codes first
+const ACTS = [
+	{ id: "ipc", label: "IPC" },
+	{ id: "crpc", label: "CrPC" },
+	{ id: "iea", label: "Evidence Act" },
+	{ id: "bns", label: "BNS" },
+	{ id: "bnss", label: "BNSS" },
+	{ id: "bsa", label: "BSA" },
+];
+
+const MappingRow = ({ mapping, fromNew }: { mapping: CodeMapping; fromNew: boolean }) => {
+	const from = fromNew ? mapping.new : mapping.old;
+	const to = fromNew ? mapping.old : mapping.new;
+
+	return (
+		<li className="py-3 border-b border-border/60 last:border-0">
+			<div className="flex flex-wrap items-center gap-2">
+				{from && <Badge variant="secondary">{formatCodeSection(from)}</Badge>}
+				<ArrowRight className="h-4 w-4 text-muted-foreground" />
+				{to ? (
+					<Badge variant="outline">{formatCodeSection(to)}</Badge>
+				) : (
+					<Badge variant="outline" className="text-orange-600 dark:text-orange-400">
+						<Ban /> No counterpart
+					</Badge>
+				)}
+				<span className="text-sm text-foreground">{mapping.heading}</span>
+			</div>
+			{mapping.note && <p className="text-xs text-muted-foreground mt-1">{mapping.note}</p>}
+		</li>
+	);
+};
+
+/**
+ * Finds where a section of the IPC, CrPC or Evidence Act went in the BNS,
+ * BNSS or BSA, and back, from the bundled mapping table
+ */
+const SectionConverter = () => {
+	const [act, setAct] = useState("ipc");
+	const [query, setQuery] = useState("");
+
+	const fromNew = !["ipc", "crpc", "iea"].includes(act);
+	const results = useMemo(() => searchMappings(query, act), [query, act]);
+
+	return (
+		<div className="h-full overflow-auto p-2">
+			<div className="max-w-3xl mx-auto space-y-6">
+				<div>
+					<h2 className="text-2xl font-bold">Old and new criminal codes</h2>
+					<p className="text-sm text-muted-foreground">
+						The IPC, CrPC and Evidence Act were replaced by the BNS, BNSS and BSA
+						on 1 July 2024. Look up a section number or a subject in either.
+					</p>
+				</div>
+
+				<Card>
+					<CardHeader>
+						<CardTitle className="flex items-center gap-2">
+							<Search className="h-5 w-5" />
+							Convert a section
+						</CardTitle>
+					</CardHeader>
+					<CardContent className="space-y-4">
+						<div className="flex flex-wrap gap-2" role="group" aria-label="Look up in">
+							{ACTS.map(({ id, label }) => (
+								<Button
+									key={id}
+									variant={act === id ? "default" : "outline"}
+									size="sm"
+									onClick={() => setAct(id)}
+									aria-pressed={act === id}
+								>
+									{label}
+								</Button>
+							))}
+						</div>
+						<Input
+							value={query}
+							onChange={(e) => setQuery(e.target.value)}
+							placeholder="Section number, e.g. 420, or a subject, e.g. cheating"
+							aria-label="Section or subject"
+						/>
+
+						{results.length > 0 ? (
+							<ul aria-label="Matching sections">
+								{results.map((mapping) => (
+									<MappingRow
+										key={`${mapping.old.act}-${mapping.old.section}`}
+										mapping={mapping}
+										fromNew={fromNew}
+									/>
+								))}
+							</ul>
+						) : (
+							<p className="text-sm text-muted-foreground">
+								No section in the table matches. It covers the sections asked
+								about most, so check the full correspondence table on India Code
+								for the rest.
+							</p>
+						)}
+					</CardContent>
+				</Card>
+			</div>
+		</div>
+	);
+};
+
+export default SectionConverter;
@@ -0,0 +1,34 @@
+import { FiFileText } from "react-icons/fi";
+import { cn } from "../lib/utils";
+import { getPassage, passageSource } from "../utils/gemini";
+
+/**
+ * The bundled bare-act passage an answer item was based on, collapsed
+ * under its source line. Nothing is shown for an id the corpus does not
+ * have, e.g. one the model made up.
+ */
+const SourceExcerpt = ({
+	sourceId,
+	className,
+}: {
+	sourceId?: string;
+	className?: string;
+}) => {
+	const passage = sourceId ? getPassage(sourceId) : undefined;
+	if (!passage) return null;
+
+	return (
+		<details className={cn("mt-2 text-xs group", className)}>
+			<summary className="cursor-pointer text-primary dark:text-secondary-400 flex items-center gap-1 list-none">
+				<FiFileText className="h-3 w-3 shrink-0" />
+				<span className="group-open:underline">{passageSource(passage)}</span>
+			</summary>
+			<blockquote className="mt-1.5 pl-2 border-l-2 border-border text-muted-foreground whitespace-pre-line">
+				{passage.heading && <p className="font-medium text-foreground mb-1">{passage.heading}</p>}
+				{passage.text}
+			</blockquote>
+		</details>
+	);
+};
+
+export default SourceExcerpt;
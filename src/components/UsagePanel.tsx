@@ -0,0 +1,192 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { BarChart3, Eraser, MessageSquare, Scale, Trash2 } from "lucide-react";
+import {
+	clearResponseCache,
+	clearUsage,
+	getUsageLog,
+	subscribeToUsage,
+	UsageFeature,
+	UsageLog,
+	UsageTotals,
+} from "../utils/gemini";
+import { EMPTY_TOTALS, sumDailyUsage, usageDay } from "../utils/usage";
+import { Card, CardHeader, CardContent, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+
+const FEATURE_LABELS: Record<UsageFeature, string> = {
+	chat: "Chat",
+	"case-analysis": "Case analysis",
+	text: "Other",
+};
+
+const FEATURES = Object.keys(FEATURE_LABELS) as UsageFeature[];
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+const StatCard = ({
+	label,
+	icon,
+	totals,
+}: {
+	label: string;
+	icon: ReactNode;
+	totals: UsageTotals;
+}) => (
+	<Card>
+		<CardContent className="pt-6">
+			<div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
+				{icon}
+				{label}
+			</div>
+			<p className="text-2xl font-bold">{formatTokens(totals.totalTokens)}</p>
+			<p className="text-xs text-muted-foreground">
+				{formatTokens(totals.promptTokens)} in · {formatTokens(totals.candidateTokens)}{" "}
+				out · {totals.requests} {totals.requests === 1 ? "request" : "requests"}
+			</p>
+		</CardContent>
+	</Card>
+);
+
+/**
+ * Tokens spent per day and per feature, as reported by the provider.
+ * Cached answers spend nothing and do not show up here.
+ */
+const UsagePanel = () => {
+	const [log, setLog] = useState<UsageLog>(getUsageLog);
+	const [cacheState, setCacheState] = useState<"idle" | "clearing" | "cleared" | "failed">(
+		"idle"
+	);
+
+	const clearCachedAnswers = async () => {
+		setCacheState("clearing");
+		try {
+			await clearResponseCache();
+			setCacheState("cleared");
+		} catch (error) {
+			console.error("Failed to clear cached answers:", error);
+			setCacheState("failed");
+		}
+	};
+
+	useEffect(() => subscribeToUsage(setLog), []);
+
+	const today = log[usageDay(new Date())] ?? {};
+	const days = Object.keys(log).sort().reverse();
+
+	return (
+		<div className="h-full overflow-auto p-2">
+			<div className="max-w-4xl mx-auto space-y-6">
+				<div className="flex items-center justify-between">
+					<div>
+						<h2 className="text-2xl font-bold">Token usage</h2>
+						<p className="text-sm text-muted-foreground">
+							Counted on this device for the last 30 days. Cached answers are
+							free and not counted.
+						</p>
+					</div>
+					<div className="flex items-center gap-2">
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={clearCachedAnswers}
+							disabled={cacheState === "clearing"}
+							className="flex items-center gap-2"
+						>
+							<Eraser className="h-4 w-4" /> Clear cached answers
+						</Button>
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={clearUsage}
+							disabled={days.length === 0}
+							className="flex items-center gap-2"
+						>
+							<Trash2 className="h-4 w-4" /> Reset
+						</Button>
+					</div>
+				</div>
+
+				{(cacheState === "cleared" || cacheState === "failed") && (
+					<p className="text-sm text-muted-foreground" aria-live="polite">
+						{cacheState === "cleared"
+							? "Cached answers cleared. Questions asked again go to the model."
+							: "Could not clear the cached answers. Please try again."}
+					</p>
+				)}
+
+				<div className="grid gap-4 sm:grid-cols-3">
+					<StatCard
+						label="Today, chat"
+						icon={<MessageSquare className="h-4 w-4" />}
+						totals={today.chat ?? EMPTY_TOTALS}
+					/>
+					<StatCard
+						label="Today, case analysis"
+						icon={<Scale className="h-4 w-4" />}
+						totals={today["case-analysis"] ?? EMPTY_TOTALS}
+					/>
+					<StatCard
+						label="Today, total"
+						icon={<BarChart3 className="h-4 w-4" />}
+						totals={sumDailyUsage(today)}
+					/>
+				</div>
+
+				<Card>
+					<CardHeader>
+						<CardTitle className="flex items-center gap-2">
+							<BarChart3 className="h-5 w-5" />
+							Per day
+						</CardTitle>
+					</CardHeader>
+					<CardContent>
+						{days.length === 0 ? (
+							<p className="text-sm text-muted-foreground">
+								No usage recorded yet.
+							</p>
+						) : (
+							<div className="overflow-x-auto">
+								<table className="w-full text-sm">
+									<thead>
+										<tr className="border-b border-dashed text-left text-muted-foreground">
+											<th className="py-2 pr-4 font-medium">Day</th>
+											{FEATURES.map((feature) => (
+												<th key={feature} className="py-2 pr-4 font-medium text-right">
+													{FEATURE_LABELS[feature]}
+												</th>
+											))}
+											<th className="py-2 font-medium text-right">Total</th>
+										</tr>
+									</thead>
+									<tbody>
+										{days.map((day) => {
+											const total = sumDailyUsage(log[day]);
+											return (
+												<tr key={day} className="border-b border-dashed last:border-0">
+													<td className="py-2 pr-4">{day}</td>
+													{FEATURES.map((feature) => (
+														<td key={feature} className="py-2 pr-4 text-right tabular-nums">
+															{formatTokens(log[day][feature]?.totalTokens ?? 0)}
+														</td>
+													))}
+													<td className="py-2 text-right font-medium tabular-nums">
+														{formatTokens(total.totalTokens)}
+														<span className="block text-xs font-normal text-muted-foreground">
+															{total.requests} requests
+														</span>
+													</td>
+												</tr>
+											);
+										})}
+									</tbody>
+								</table>
+							</div>
+						)}
+					</CardContent>
+				</Card>
+			</div>
+		</div>
+	);
+};
+
+export default UsagePanel;
@@ -0,0 +1,1143 @@
+import type { z } from "zod";
+import type {
+  FinishReason,
+  GenerationConfig,
+  LLMChatSession,
+  LLMMessage,
+  LLMProvider,
+  LLMRequest,
+  ModelDefinition,
+  ResponseSchema,
+  SafetyCategory,
+  TokenUsage,
+} from "./llm";
+import { describeModel, resolveChain } from "./llm/models";
+import { estimateTokens } from "./llm/shared";
+import {
+  isAbortError,
+  QuotaExhaustedError,
+  RateLimitError,
+  RequestCancelledError,
+  throwIfAborted,
+  type ErrorCode,
+} from "./errors";
+import {
+  annotateCaseCitations,
+  annotateCitations,
+  type CaseAnalysisField,
+  type CitationCheck,
+} from "./legal/citations";
+import type { CaseFact } from "./legal/caseTypes";
+import type { Jurisdiction } from "./legal/jurisdictions";
+import { formatPassage, type Retriever } from "./legal/retrieval";
+import { PartialJSONParser } from "./partialJson";
+import {
+  renderPrompt,
+  resolvePrompt,
+  type PromptLocale,
+  type PromptOptions,
+  type PromptRef,
+  type PromptVersions,
+} from "./prompts";
+import { withRetry } from "./retry";
+import { RateLimiter, type RateLimitConfig, type RateLimitStore } from "./rateLimiter";
+import { cacheKey, DEFAULT_CACHE_TTL, type ResponseCache } from "./responseCache";
+import { safetySettingsFor, type FeatureSafetySettings } from "./safety";
+import { addTokens, type UsageFeature, type UsageRecord } from "./usage";
+import {
+  caseAnalysisResponseSchema,
+  caseAnalysisResponseSchemaJSON,
+  chatResponseItemSchema,
+  describeIssues,
+  DISCLAIMER,
+  structuredChatResponseSchema,
+  structuredChatResponseSchemaJSON,
+} from "./schemas";
+
+// Legal-specific interfaces (removed budget stuff)
+export interface ChatResponseItem {
+  type:
+    | "text"
+    | "list"
+    | "suggestion"
+    | "resource"
+    | "warning"
+    | "code"
+    | "table"
+    | "citation"
+    | "checklist"
+    | "timeline"
+    | "steps";
+  content: string;
+  /** Entries of a "list", "checklist" or "steps" item */
+  items?: string[];
+  title?: string;
+  url?: string;
+  language?: string;
+  /** Header row of a "table" */
+  columns?: string[];
+  /** Body of a "table", one cell per column */
+  rows?: string[][];
+  /** Act a "citation" refers to, e.g. "Bharatiya Nyaya Sanhita, 2023" */
+  act?: string;
+  /** Section, article or rule of `act` */
+  section?: string;
+  /** Stages of a "timeline", in order */
+  events?: TimelineEvent[];
+  /** Sections cited by the item, checked against the statute index */
+  citations?: CitationCheck[];
+  /** Id of the retrieved bare-act passage a "resource" or "citation" rests on, e.g. "bns-103" */
+  sourceId?: string;
+}
+
+export interface TimelineEvent {
+  /** Date, deadline or period, e.g. "Within 30 days of the order" */
+  when: string;
+  event: string;
+}
+
+/**
+ * Which path produced a structured answer: the model's JSON as-is, JSON
+ * extracted from surrounding text, a repair re-prompt, a stream that was
+ * cut short, or plain text wrapped by `createFallbackResponse`
+ */
+export type ResponseSource = "model" | "extracted" | "repaired" | "partial" | "fallback";
+
+export interface ResponseMeta {
+  source: ResponseSource;
+  /** Served from the response cache instead of the model */
+  cached?: boolean;
+  /** Id of the model that answered */
+  model?: string;
+  /** Tokens spent on the answer, repairs included, if the provider reports them */
+  usage?: TokenUsage;
+  /** The prompt nearly filled the model's context window */
+  nearContextLimit?: boolean;
+  /** Still cut off at the output token limit after asking the model to continue */
+  truncated?: boolean;
+  /** Templates the request was built from, see prompts.ts */
+  prompts?: PromptRef[];
+  /** Ids of the bare-act passages quoted in the prompt, best match first */
+  sources?: string[];
+}
+
+export interface StructuredChatResponse {
+  title: string;
+  summary: string;
+  content: ChatResponseItem[];
+  meta?: ResponseMeta;
+}
+
+/** What has arrived so far of a streamed structured response */
+export type PartialStructuredResponse = Partial<StructuredChatResponse>;
+
+export interface RequestOptions {
+  /**
+   * Cancels the request. If it fires before the request is sent, nothing
+   * is counted against the rate limiter.
+   */
+  signal?: AbortSignal;
+  /**
+   * Model to try first. The rest of the fallback chain is still tried
+   * after it; ids outside the chain are ignored.
+   */
+  model?: string;
+  /** Language of the answer; templates without a variant fall back to English */
+  locale?: PromptLocale;
+}
+
+/** Conversation context sent along with a structured chat turn */
+export interface StructuredChatOptions extends RequestOptions {
+  /** Earlier turns, oldest first (see `toHistory` in conversation.ts) */
+  history?: LLMMessage[];
+  /** Replaces the `chat.system` template */
+  systemInstruction?: string;
+  /** Skip the cached answer and replace it with a fresh one */
+  refresh?: boolean;
+}
+
+export interface StreamHandlers {
+  /** Raw text as received from the model */
+  onDelta?: (text: string) => void;
+  onPartial?: (partial: PartialStructuredResponse) => void;
+}
+
+/** Case analysis as returned by the model */
+export interface CaseAnalysisResponse {
+  title: string;
+  summary: string;
+  legalAssessment: string;
+  keyIssues: string[];
+  recommendedActions: string[];
+  potentialRisks: string[];
+  nextSteps: string[];
+  /** Sections cited in each field, checked against the statute index */
+  citations?: Partial<Record<CaseAnalysisField, CitationCheck[]>>;
+  meta?: ResponseMeta;
+}
+
+export interface CaseDetails {
+  caseType: string;
+  /** The place as typed, or `formatJurisdiction(jurisdiction)` */
+  location: string;
+  jurisdiction?: Jurisdiction;
+  /** Answers to the intake questions of the case sub-type */
+  facts?: CaseFact[];
+  caseDescription: string;
+  specificQuestion: string;
+}
+
+/**
+ * Body of a structured request sent to the proxy server. There is no
+ * `systemInstruction`: the server holds the key, so it only sends its own
+ * templates and never relays a prompt of the client's choosing.
+ */
+export interface StructuredRequestBody extends Omit<StructuredChatOptions, "signal" | "systemInstruction"> {
+  prompt: string;
+  stream?: boolean;
+}
+
+/** Body of a stateless chat turn sent to the proxy server; the system prompt is always `chat.system` */
+export interface ChatTurnRequest {
+  message: string;
+  history?: LLMMessage[];
+  model?: string;
+}
+
+/**
+ * A conversation kept by the advisor rather than by one provider session,
+ * so each turn can go to whichever model of the chain has budget
+ */
+export interface ChatSession extends LLMChatSession {
+  /** `model` is tried first, before the rest of the chain */
+  sendMessage(message: string, signal?: AbortSignal, model?: string): Promise<string>;
+}
+
+/** One NDJSON line of a structured response streamed by the proxy server */
+export interface StreamEvent {
+  delta?: string;
+  response?: StructuredChatResponse;
+  error?: string;
+  code?: ErrorCode;
+  category?: SafetyCategory;
+}
+
+/** Body of an error response from the proxy server */
+export interface ProxyErrorBody {
+  error?: string;
+  code?: ErrorCode;
+  retryAfterMs?: number;
+  /** Harm category of a `safety_blocked` error */
+  category?: SafetyCategory;
+}
+
+/**
+ * Everything the UI needs from the model. Implemented in-process by
+ * `createAdvisor` and over HTTP by the proxy client.
+ */
+export interface LegalAdvisor {
+  getStructuredChatResponse(prompt: string, options?: StructuredChatOptions): Promise<StructuredChatResponse>;
+  streamStructuredChatResponse(
+    prompt: string,
+    handlers?: StreamHandlers,
+    options?: StructuredChatOptions
+  ): Promise<StructuredChatResponse>;
+  getGeminiResponse(prompt: string, options?: RequestOptions): Promise<string>;
+  analyzeCase(details: CaseDetails, options?: RequestOptions): Promise<CaseAnalysisResponse>;
+  startChat(systemInstruction?: string, history?: LLMMessage[]): ChatSession;
+  sendChatMessage(chat: ChatSession, message: string, options?: RequestOptions): Promise<string>;
+  canMakeRequest(): boolean;
+  getTimeUntilNextRequest(): number;
+  /** The fallback chain, in order, as offered in the model picker */
+  getModels(): Promise<ModelDefinition[]>;
+}
+
+export interface AdvisorOptions {
+  provider: LLMProvider;
+  /** Models tried in order; quota errors fall through to the next one */
+  models?: string[];
+  /**
+   * Limits per model name, on top of the registry's (see `llm/models.ts`).
+   * Models in neither use `DEFAULT_RATE_LIMIT`.
+   */
+  rateLimits?: Record<string, Partial<RateLimitConfig>>;
+  /** Shared storage for a model's request timestamps, e.g. across browser tabs */
+  createRateLimitStore?: (model: string) => RateLimitStore | undefined;
+  /** Answers are served from here, when present, without spending quota */
+  cache?: ResponseCache;
+  cacheTtl?: number;
+  /** Called for every upstream call that reported token counts */
+  onUsage?: (record: UsageRecord) => void;
+  /** Per feature, on top of `DEFAULT_SAFETY_SETTINGS` in safety.ts */
+  safetySettings?: FeatureSafetySettings;
+  /** Pinned template versions; the latest is used for the rest */
+  promptVersions?: PromptVersions;
+  /** Finds the bare-act passages quoted with each chat question and case analysis */
+  retriever?: Retriever;
+}
+
+// Sampling defaults such as `topP` come from the model registry
+const STRUCTURED_GENERATION_CONFIG: GenerationConfig = {
+  maxOutputTokens: 2000,
+  temperature: 0.1, // Very low temperature for consistent JSON
+  topK: 10
+};
+
+const ITEM_TYPES: ChatResponseItem["type"][] = [
+  "text",
+  "list",
+  "suggestion",
+  "resource",
+  "warning",
+  "code",
+  "table",
+  "citation",
+  "checklist",
+  "timeline",
+  "steps",
+];
+
+// Cut-off and plain-text answers are not worth keeping
+const CACHEABLE_SOURCES: ResponseSource[] = ["model", "extracted", "repaired"];
+
+// Follow-up requests sent for an answer cut off at `maxOutputTokens`
+const MAX_CONTINUATIONS = 2;
+
+// Passages quoted per request; more mostly adds noise and tokens
+const RETRIEVAL_LIMIT = 4;
+
+// Share of the context window left after the answer's `maxOutputTokens`
+// that a prompt may fill before the answer is flagged
+const CONTEXT_WARNING_RATIO = 0.9;
+
+interface StructuredTask<T extends { meta?: ResponseMeta }> {
+  /** Instructions without any description of the output format */
+  prompt: string;
+  history?: LLMMessage[];
+  systemInstruction?: string;
+  /** Templates behind `prompt` and `systemInstruction` */
+  prompts: PromptRef[];
+  /** Locale and versions for the templates the advisor adds itself */
+  promptOptions: PromptOptions;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  responseSchema: ResponseSchema;
+  /** Name of the task in the cache key and the usage log */
+  kind: UsageFeature;
+  refresh?: boolean;
+  signal?: AbortSignal;
+  /** Preferred model, see `RequestOptions.model` */
+  model?: string;
+  /** Collects the tokens of every call made for one answer */
+  onUsage?: (usage: TokenUsage) => void;
+  /** Extra guidance appended to the repair request */
+  repairHint?: string;
+  /** Used when neither the answer nor its repair validates */
+  fallback: (text: string) => T;
+  /** Salvages an answer that is still cut off; `fallback` is used otherwise */
+  partial?: (text: string) => T | undefined;
+  /** Applied to every answer, cached ones included */
+  annotate?: (response: T) => T;
+  /** Ids of the passages quoted in `prompt` */
+  sources?: string[];
+}
+
+/** What the advisor, rather than the caller, brings to every task */
+interface TaskContext {
+  versions?: PromptVersions;
+  retriever?: Retriever;
+}
+
+/**
+ * `prompt` preceded by the passages `retriever` finds for `query`, each
+ * under its id so that items can point back at it. Unchanged when nothing
+ * relevant turns up.
+ */
+function withRetrievedContext(
+  prompt: string,
+  query: string,
+  retriever: Retriever | undefined,
+  options: PromptOptions
+): Pick<StructuredTask<never>, "prompt" | "prompts" | "sources"> {
+  const passages = retriever?.search(query, RETRIEVAL_LIMIT) ?? [];
+  if (!passages.length) return { prompt, prompts: [] };
+  return {
+    prompt: renderPrompt("retrieval.context", { excerpts: passages.map(formatPassage), prompt }, options),
+    prompts: [resolvePrompt("retrieval.context", options)],
+    sources: passages.map(({ id }) => id),
+  };
+}
+
+/**
+ * Providers that enforce `responseSchema` get the prompt as is. Everyone
+ * else gets the schema spelled out in the prompt, as the only contract.
+ */
+function withJsonContract(
+  prompt: string,
+  responseSchema: ResponseSchema | undefined,
+  options: PromptOptions
+): string {
+  if (!responseSchema) return prompt;
+  return renderPrompt("json.contract", { prompt, schema: JSON.stringify(responseSchema, null, 2) }, options);
+}
+
+type ValidationResult<T> =
+  | { ok: true; response: T; source: "model" | "extracted" }
+  | { ok: false; text: string; errors: string[] };
+
+/**
+ * Parse the raw model output and check it against the response schema.
+ * `lenient` strips code fences and extracts the JSON from surrounding text,
+ * for providers without a JSON mode.
+ */
+function validateStructuredText<T>(
+  rawText: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  lenient: boolean
+): ValidationResult<T> {
+  let text = rawText.trim();
+  if (lenient) {
+    // Clean up the response - remove markdown code blocks if present
+    text = text.replace(/```json\s*/g, '').replace(/```\s*/g, '');
+    text = text.replace(/^\s*[\r\n]+|[\r\n]+\s*$/g, ''); // Remove leading/trailing whitespace
+  }
+
+  console.log("Raw response:", text); // Debug log
+
+  let parsed: unknown;
+  let source: "model" | "extracted" = "model";
+  try {
+    parsed = JSON.parse(text);
+  } catch (parseError) {
+    console.error("JSON parse error:", parseError);
+    console.error("Response text:", text);
+
+    // Try to extract JSON from response if it contains other text
+    const jsonMatch = lenient ? text.match(/\{[\s\S]*\}/) : null;
+    try {
+      if (!jsonMatch) throw parseError;
+      parsed = JSON.parse(jsonMatch[0]);
+      source = "extracted";
+    } catch (extractError) {
+      if (lenient) console.error("Failed to extract JSON:", extractError);
+      const reason = extractError instanceof Error ? extractError.message : String(extractError);
+      return { ok: false, text, errors: [`The response is not valid JSON (${reason})`] };
+    }
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    return { ok: false, text, errors: describeIssues(result.error) };
+  }
+  return { ok: true, response: result.data, source };
+}
+
+const withSource = <T extends { meta?: ResponseMeta }>(response: T, source: ResponseSource): T => ({
+  ...response,
+  meta: { ...response.meta, source },
+});
+
+function chatTask(
+  prompt: string,
+  { history, systemInstruction, refresh, signal, model, locale }: StructuredChatOptions = {},
+  { versions, retriever }: TaskContext = {}
+): StructuredTask<StructuredChatResponse> {
+  const promptOptions = { locale, versions };
+  const retrieved = withRetrievedContext(
+    renderPrompt("chat.question", { question: prompt }, promptOptions),
+    prompt,
+    retriever,
+    promptOptions
+  );
+  return {
+    kind: "chat",
+    prompt: retrieved.prompt,
+    sources: retrieved.sources,
+    history,
+    systemInstruction: systemInstruction ?? renderPrompt("chat.system", {}, promptOptions),
+    prompts: [
+      ...(systemInstruction === undefined ? [resolvePrompt("chat.system", promptOptions)] : []),
+      ...retrieved.prompts,
+      resolvePrompt("chat.question", promptOptions),
+    ],
+    promptOptions,
+    refresh,
+    signal,
+    model,
+    schema: structuredChatResponseSchema,
+    responseSchema: structuredChatResponseSchemaJSON,
+    repairHint: `Allowed item types are ${ITEM_TYPES.map((type) => `"${type}"`).join(", ")}. Every "list", "checklist" and "steps" item needs a non-empty "items" array, every "resource" item needs a "title", every "table" needs "columns" and "rows", every "citation" needs an "act" and every "timeline" needs "events" with "when" and "event".`,
+    fallback: (text) => createFallbackResponse(text, prompt),
+    partial: (text) =>
+      completePartialResponse(toPartialResponse(new PartialJSONParser().push(text))),
+    annotate: annotateCitations,
+  };
+}
+
+function caseAnalysisTask(
+  details: CaseDetails,
+  { signal, model, locale }: RequestOptions = {},
+  { versions, retriever }: TaskContext = {}
+): StructuredTask<CaseAnalysisResponse> {
+  const promptOptions = { locale, versions };
+  const retrieved = withRetrievedContext(
+    renderPrompt("case-analysis.request", details, promptOptions),
+    [details.caseType, details.caseDescription, details.specificQuestion].join("\n"),
+    retriever,
+    promptOptions
+  );
+  return {
+    kind: "case-analysis",
+    signal,
+    model,
+    prompt: retrieved.prompt,
+    sources: retrieved.sources,
+    prompts: [...retrieved.prompts, resolvePrompt("case-analysis.request", promptOptions)],
+    promptOptions,
+    schema: caseAnalysisResponseSchema,
+    responseSchema: caseAnalysisResponseSchemaJSON,
+    fallback: (text) => ({
+      title: `${details.caseType} Analysis`,
+      summary: text.split('.')[0].substring(0, 200),
+      legalAssessment: text,
+      keyIssues: [],
+      recommendedActions: [],
+      potentialRisks: [],
+      nextSteps: [],
+      meta: { source: "fallback" },
+    }),
+    annotate: annotateCaseCitations,
+  };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const strings = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string") : undefined;
+
+const optionalString = (value: unknown): string | undefined => (typeof value === "string" ? value : undefined);
+
+/**
+ * A half-streamed item with every field of the wrong shape left out: until
+ * its closing bracket arrives, `rows` can still be a string or an object.
+ */
+function toPartialItem(item: Record<string, unknown>): ChatResponseItem {
+  const { type, content, items, title, url, language, columns, rows, act, section, events, sourceId } = item;
+  return {
+    type: type as ChatResponseItem["type"],
+    content: optionalString(content) ?? "",
+    items: strings(items),
+    title: optionalString(title),
+    url: optionalString(url),
+    language: optionalString(language),
+    columns: strings(columns),
+    rows: Array.isArray(rows) ? rows.filter(Array.isArray).map((row) => strings(row)!) : undefined,
+    act: optionalString(act),
+    section: optionalString(section),
+    events: Array.isArray(events)
+      ? events.filter(isObject).map(({ when, event }) => ({
+          when: optionalString(when) ?? "",
+          event: optionalString(event) ?? "",
+        }))
+      : undefined,
+    sourceId: optionalString(sourceId),
+  };
+}
+
+/**
+ * Keep only the parts of a partially parsed document that can be rendered.
+ * Items whose `type` has not fully arrived yet are dropped, and so are
+ * fields that do not have their final shape yet.
+ */
+export function toPartialResponse(value: unknown): PartialStructuredResponse {
+  if (!isObject(value)) return {};
+
+  const { title, summary, content } = value;
+  const items = Array.isArray(content)
+    ? content.filter(
+        (item): item is Record<string, unknown> =>
+          isObject(item) && ITEM_TYPES.includes(item.type as ChatResponseItem["type"])
+      )
+    : undefined;
+
+  return {
+    title: optionalString(title),
+    summary: optionalString(summary),
+    content: items?.map(toPartialItem),
+  };
+}
+
+/**
+ * Close off a stream that ended before its JSON did. Returns undefined if
+ * too little arrived to be worth showing.
+ */
+function completePartialResponse(partial: PartialStructuredResponse): StructuredChatResponse | undefined {
+  if (!partial.title || !partial.content?.length) return undefined;
+
+  const content = partial.content.flatMap((item) => {
+    const result = chatResponseItemSchema.safeParse(item);
+    return result.success ? [result.data] : [];
+  });
+  if (content.length === 0) return undefined;
+
+  return {
+    title: partial.title,
+    summary: partial.summary ?? "",
+    meta: { source: "partial" },
+    content: [
+      ...content,
+      {
+        type: "warning",
+        content: "This answer was cut off before it finished. Ask again for the complete answer."
+      },
+      ...(content.some((item) => item.content === DISCLAIMER)
+        ? []
+        : [{ type: "warning" as const, content: DISCLAIMER }]),
+    ]
+  };
+}
+
+/**
+ * Create a fallback structured response when JSON parsing fails
+ */
+function createFallbackResponse(text: string, originalPrompt: string): StructuredChatResponse {
+  // Extract a reasonable title from the prompt
+  let title = "Legal Information";
+  if (originalPrompt.toLowerCase().includes('tenant')) title = "Tenant Rights";
+  else if (originalPrompt.toLowerCase().includes('property')) title = "Property Law";
+  else if (originalPrompt.toLowerCase().includes('divorce')) title = "Divorce Procedure";
+  else if (originalPrompt.toLowerCase().includes('consumer')) title = "Consumer Rights";
+  else if (originalPrompt.toLowerCase().includes('fir')) title = "FIR and Police Rights";
+
+  // Create summary from first sentence or first 100 chars
+  const sentences = text.split('.').filter(s => s.trim().length > 0);
+  const summary = sentences.length > 0
+    ? sentences[0].substring(0, 100) + (sentences[0].length > 100 ? '...' : '.')
+    : text.substring(0, 100) + (text.length > 100 ? '...' : '');
+
+  return {
+    title,
+    summary,
+    meta: { source: "fallback" },
+    content: [
+      {
+        type: "text",
+        content: text
+      },
+      {
+        type: "warning",
+        content: DISCLAIMER
+      }
+    ]
+  };
+}
+
+/**
+ * Wire a provider, its model chain and per-model rate limiters into the
+ * legal advisor flows. Each model's capabilities, generation defaults and
+ * rate limit come from the registry in `llm/models.ts`. Has no dependency
+ * on the browser or on Vite, so the same logic runs in the client and in
+ * the proxy server.
+ */
+export function createAdvisor({
+  provider,
+  models = provider.defaultModels,
+  rateLimits = {},
+  createRateLimitStore,
+  cache,
+  cacheTtl = DEFAULT_CACHE_TTL,
+  onUsage,
+  safetySettings,
+  promptVersions,
+  retriever,
+}: AdvisorOptions): LegalAdvisor {
+  const chainModels = resolveChain(models);
+  const context: TaskContext = { versions: promptVersions, retriever };
+  const modelInfo = (model: string) => describeModel(provider.name, model, provider.capabilities);
+
+  const rateLimiters = new Map<string, RateLimiter>();
+  const limiterFor = (model: string): RateLimiter => {
+    let limiter = rateLimiters.get(model);
+    if (!limiter) {
+      limiter = new RateLimiter(
+        { ...modelInfo(model).rateLimit, ...rateLimits[model] },
+        createRateLimitStore?.(model)
+      );
+      rateLimiters.set(model, limiter);
+    }
+    return limiter;
+  };
+
+  // The model's defaults, overridden by what the task asks for
+  const generationConfigFor = (model: string, config: GenerationConfig): GenerationConfig => ({
+    ...modelInfo(model).generationConfig,
+    ...config,
+  });
+
+  // Report a call's tokens to `onUsage`, and to the answer's own tally if given
+  const reportUsage =
+    (feature: UsageFeature, model: string, tally?: (usage: TokenUsage) => void) =>
+    (usage: TokenUsage) => {
+      tally?.(usage);
+      onUsage?.({ feature, model, usage });
+    };
+
+  /**
+   * Whether the prompt plus room for the answer nearly fills the model's
+   * context window. The provider is only asked to count when the rough
+   * estimate says it could.
+   */
+  const nearContextLimit = async (request: LLMRequest): Promise<boolean> => {
+    const { contextWindow } = modelInfo(request.model);
+    if (!contextWindow) return false;
+
+    const budget =
+      (contextWindow - (request.generationConfig?.maxOutputTokens ?? 0)) * CONTEXT_WARNING_RATIO;
+    if (estimateTokens(request) < budget / 2) return false;
+
+    try {
+      return (await provider.countTokens(request)) >= budget;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn("Could not count prompt tokens:", error);
+      return false;
+    }
+  };
+
+  // A request can go out as long as one model in the chain has budget left
+  const canMakeRequest = () => chainModels.some((model) => limiterFor(model).canMakeRequest());
+  const getTimeUntilNextRequest = () =>
+    Math.min(...chainModels.map((model) => limiterFor(model).getTimeUntilNextRequest()));
+
+  /**
+   * Transient failures are retried with backoff on the same model; rate
+   * limit and quota errors fall through to the next model in the chain
+   */
+  async function makeAPIRequestWithFallback<T>(
+    requestFn: (model: string) => Promise<T>,
+    preferredModel?: string,
+    signal?: AbortSignal
+  ): Promise<T> {
+    throwIfAborted(signal);
+    if (!canMakeRequest()) {
+      throw new RateLimitError(getTimeUntilNextRequest());
+    }
+
+    let lastError: unknown;
+
+    for (const model of resolveChain(chainModels, preferredModel)) {
+      const limiter = limiterFor(model);
+      if (!limiter.canMakeRequest()) {
+        // Out of budget for this model; the next one may still have some
+        continue;
+      }
+
+      try {
+        return await withRetry(
+          () => {
+            // Only counted once it is actually sent: `withRetry` stops
+            // before this if the signal has already fired
+            limiter.recordRequest();
+            return requestFn(model);
+          },
+          {
+            signal,
+            // Every retry is a request too, so it waits for the limiter
+            minDelay: () => limiter.getTimeUntilNextRequest(),
+            onRetry: (error, attempt, delay) =>
+              console.warn(`Retrying ${model} in ${delay}ms (attempt ${attempt}):`, error),
+          }
+        );
+      } catch (error) {
+        if (isAbortError(error)) throw new RequestCancelledError();
+        console.error(`Request failed with model ${model}:`, error);
+        lastError = error;
+
+        if (error instanceof QuotaExhaustedError || error instanceof RateLimitError) {
+          console.log('Quota exceeded for this model, trying fallback...');
+          continue;
+        }
+
+        throw error;
+      }
+    }
+
+    if (lastError instanceof QuotaExhaustedError) {
+      throw new QuotaExhaustedError('All models have exceeded their quotas. Please try again later or upgrade your plan.');
+    }
+    if (lastError === undefined) {
+      throw new RateLimitError(getTimeUntilNextRequest());
+    }
+
+    throw lastError;
+  }
+
+  const structuredRequest = <T extends { meta?: ResponseMeta }>(
+    model: string,
+    task: StructuredTask<T>,
+    messages: LLMMessage[] = []
+  ): LLMRequest => {
+    const { capabilities } = modelInfo(model);
+    return {
+      model,
+      systemInstruction: task.systemInstruction,
+      messages: [
+        ...(task.history ?? []),
+        {
+          role: "user",
+          text: withJsonContract(
+            task.prompt,
+            capabilities.responseSchema ? undefined : task.responseSchema,
+            task.promptOptions
+          ),
+        },
+        ...messages,
+      ],
+      generationConfig: generationConfigFor(model, STRUCTURED_GENERATION_CONFIG),
+      responseSchema: capabilities.responseSchema ? task.responseSchema : undefined,
+      signal: task.signal,
+      onUsage: reportUsage(task.kind, model, task.onUsage),
+      safetySettings: safetySettingsFor(task.kind, safetySettings),
+    };
+  };
+
+  /**
+   * Ask for the rest of an answer that stopped at `maxOutputTokens`, up to
+   * `MAX_CONTINUATIONS` times. The continuations are plain text requests:
+   * in JSON mode the model would start a new document instead.
+   */
+  const continueTruncated = async <T extends { meta?: ResponseMeta }>(
+    model: string,
+    task: StructuredTask<T>,
+    text: string,
+    onDelta?: (delta: string) => void
+  ) => {
+    let finish: FinishReason = "max_tokens";
+    for (let attempt = 0; finish === "max_tokens" && attempt < MAX_CONTINUATIONS; attempt++) {
+      throwIfAborted(task.signal);
+      console.warn(`Answer from ${model} was cut off, asking it to continue`);
+      limiterFor(model).recordRequest();
+      let next = "stop" as FinishReason;
+      const delta = await provider.generate({
+        ...structuredRequest(model, task, [
+          { role: "model", text },
+          { role: "user", text: renderPrompt("answer.continue", {}, task.promptOptions) },
+        ]),
+        responseSchema: undefined,
+        onFinish: (reason) => (next = reason),
+      });
+      text += delta;
+      onDelta?.(delta);
+      finish = next;
+    }
+    return { text, truncated: finish === "max_tokens" };
+  };
+
+  /**
+   * Structured answer on `model`, continued if it was cut off
+   */
+  const generateAnswer = async <T extends { meta?: ResponseMeta }>(model: string, task: StructuredTask<T>) => {
+    let finish = "stop" as FinishReason;
+    const text = await provider.generateStructured({
+      ...structuredRequest(model, task),
+      onFinish: (reason) => (finish = reason),
+    });
+    if (finish !== "max_tokens") return resolveStructured(model, task, text);
+
+    const continued = await continueTruncated(model, task, text);
+    return resolveStructured(model, task, continued.text, continued.truncated);
+  };
+
+  /**
+   * Validate a structured answer; on failure send one repair request that
+   * lists the validation errors before falling back to plain text. An
+   * answer that is still `truncated` is not worth repairing and gets
+   * `meta.truncated` instead.
+   */
+  const resolveStructured = async <T extends { meta?: ResponseMeta }>(
+    model: string,
+    task: StructuredTask<T>,
+    text: string,
+    truncated = false
+  ): Promise<T> => {
+    const lenient = !modelInfo(model).capabilities.jsonMode;
+    const first = validateStructuredText(text, task.schema, lenient);
+    if (first.ok) return withSource(first.response, first.source);
+
+    if (truncated) {
+      console.warn(`Answer from ${model} is still cut off after ${MAX_CONTINUATIONS} continuations`);
+      const cut = task.partial?.(first.text) ?? task.fallback(first.text);
+      return { ...cut, meta: { source: "partial" as const, ...cut.meta, truncated: true } };
+    }
+
+    console.warn("Structured response failed validation:", first.errors);
+    try {
+      throwIfAborted(task.signal);
+      limiterFor(model).recordRequest();
+      const repairedText = await provider.generateStructured(
+        structuredRequest(model, task, [
+          { role: "model", text },
+          {
+            role: "user",
+            text: renderPrompt("json.repair", { errors: first.errors, hint: task.repairHint }, task.promptOptions),
+          },
+        ])
+      );
+
+      const repaired = validateStructuredText(repairedText, task.schema, lenient);
+      if (repaired.ok) return withSource(repaired.response, "repaired");
+      console.error("Repaired response failed validation:", repaired.errors);
+    } catch (repairError) {
+      if (isAbortError(repairError)) throw repairError;
+      console.error("Repair request failed:", repairError);
+    }
+
+    // Fallback: create structured response from plain text
+    return task.fallback(first.text);
+  };
+
+  /**
+   * Cached value for a request under any model of the chain, preferred
+   * model first. Cache errors are logged and treated as a miss.
+   */
+  const readCache = async <T>(
+    kind: string,
+    buildRequest: (model: string) => LLMRequest,
+    preferredModel?: string
+  ) => {
+    if (!cache) return undefined;
+    try {
+      for (const model of resolveChain(chainModels, preferredModel)) {
+        const value = await cache.get<T>(await cacheKey(kind, buildRequest(model)));
+        if (value !== undefined) return value;
+      }
+    } catch (error) {
+      console.warn("Response cache lookup failed:", error);
+    }
+    return undefined;
+  };
+
+  const writeCache = async (kind: string, request: LLMRequest, value: unknown) => {
+    if (!cache) return;
+    try {
+      await cache.set(await cacheKey(kind, request), value, cacheTtl);
+    } catch (error) {
+      console.warn("Could not cache response:", error);
+    }
+  };
+
+  const readStructuredCache = async <T extends { meta?: ResponseMeta }>(task: StructuredTask<T>) => {
+    if (task.refresh) return undefined;
+    const cached = await readCache<T>(task.kind, (model) => structuredRequest(model, task), task.model);
+    // Annotated again, so answers cached before an index update get its changes
+    const annotated = cached && (task.annotate?.(cached) ?? cached);
+    return annotated && { ...annotated, meta: { source: "model" as const, ...annotated.meta, cached: true } };
+  };
+
+  const writeStructuredCache = <T extends { meta?: ResponseMeta }>(
+    model: string,
+    task: StructuredTask<T>,
+    response: T
+  ) => {
+    if (response.meta && CACHEABLE_SOURCES.includes(response.meta.source)) {
+      void writeCache(task.kind, structuredRequest(model, task), response);
+    }
+    return response;
+  };
+
+  /**
+   * One attempt at a structured task on `model`. The answer's meta records
+   * the model, the tokens spent, whether the prompt neared the context limit
+   * and the templates it was built from.
+   */
+  const answerWith = async <T extends { meta?: ResponseMeta }>(
+    model: string,
+    task: StructuredTask<T>,
+    run: (task: StructuredTask<T>) => Promise<T>
+  ): Promise<T> => {
+    let usage: TokenUsage | undefined;
+    const counted = { ...task, onUsage: (spent: TokenUsage) => (usage = addTokens(usage, spent)) };
+
+    const nearLimit = await nearContextLimit(structuredRequest(model, counted));
+    if (nearLimit) console.warn(`Prompt is close to the context limit of ${model}`);
+
+    const answer = await run(counted);
+    const response = task.annotate?.(answer) ?? answer;
+    const prompts = modelInfo(model).capabilities.responseSchema
+      ? task.prompts
+      : [...task.prompts, resolvePrompt("json.contract", task.promptOptions)];
+    return {
+      ...response,
+      meta: {
+        source: "model",
+        ...response.meta,
+        model,
+        usage,
+        prompts,
+        ...(task.sources ? { sources: task.sources } : {}),
+        ...(nearLimit ? { nearContextLimit: true } : {}),
+      },
+    };
+  };
+
+  const generateStructured = async <T extends { meta?: ResponseMeta }>(task: StructuredTask<T>) =>
+    (await readStructuredCache(task)) ??
+    makeAPIRequestWithFallback(async (model) => {
+      const response = await answerWith(model, task, (counted) => generateAnswer(model, counted));
+      return writeStructuredCache(model, task, response);
+    }, task.model, task.signal);
+
+  /**
+   * Get structured legal chat response
+   */
+  const getStructuredChatResponse = (
+    prompt: string,
+    options?: StructuredChatOptions
+  ): Promise<StructuredChatResponse> => generateStructured(chatTask(prompt, options, context));
+
+  /**
+   * Structured response streamed from the model. `onPartial` receives the
+   * title, summary and items parsed so far after every chunk.
+   */
+  const streamStructuredChatResponse = async (
+    prompt: string,
+    handlers: StreamHandlers = {},
+    options?: StructuredChatOptions
+  ): Promise<StructuredChatResponse> => {
+    const task = chatTask(prompt, options, context);
+    const cached = await readStructuredCache(task);
+    if (cached) {
+      handlers.onPartial?.(cached);
+      return cached;
+    }
+
+    const streamWith = async (model: string, counted: StructuredTask<StructuredChatResponse>) => {
+      const parser = new PartialJSONParser();
+      const receive = (delta: string) => {
+        handlers.onDelta?.(delta);
+        handlers.onPartial?.(toPartialResponse(parser.push(delta)));
+      };
+      let text = "";
+      let finish = "stop" as FinishReason;
+
+      const stream = provider.generateStructuredStream({
+        ...structuredRequest(model, counted),
+        onFinish: (reason) => (finish = reason),
+      });
+
+      for await (const delta of stream) {
+        text += delta;
+        receive(delta);
+      }
+
+      if (finish === "max_tokens") {
+        // Continuations arrive whole, but still go through the parser so
+        // the answer keeps growing on screen
+        const continued = await continueTruncated(model, counted, text, receive);
+        return resolveStructured(model, counted, continued.text, continued.truncated);
+      }
+
+      if (parser.complete) return resolveStructured(model, counted, text);
+
+      // The stream stopped mid-document: keep whatever items did arrive
+      // rather than replacing them with the plain-text fallback
+      return completePartialResponse(toPartialResponse(parser.value())) ??
+        resolveStructured(model, counted, text);
+    };
+
+    // Partial answers are not cached, see `CACHEABLE_SOURCES`
+    const requestFn = async (model: string) =>
+      writeStructuredCache(model, task, await answerWith(model, task, (counted) => streamWith(model, counted)));
+
+    return makeAPIRequestWithFallback(requestFn, task.model, task.signal);
+  };
+
+  /**
+   * Simple text response for when you just need basic text
+   */
+  const getGeminiResponse = async (
+    prompt: string,
+    { signal, model: preferredModel, locale }: RequestOptions = {}
+  ): Promise<string> => {
+    const question = renderPrompt("text.question", { prompt }, { locale, versions: promptVersions });
+    const textRequest = (model: string): LLMRequest => ({
+      model,
+      messages: [{ role: "user", text: question }],
+      generationConfig: generationConfigFor(model, {
+        maxOutputTokens: 500,
+        temperature: 0.3,
+      }),
+      signal,
+      onUsage: reportUsage("text", model),
+      safetySettings: safetySettingsFor("text", safetySettings),
+    });
+
+    const cached = await readCache<string>("text", textRequest, preferredModel);
+    if (cached !== undefined) return cached;
+
+    return makeAPIRequestWithFallback(async (model) => {
+      const text = await provider.generate(textRequest(model));
+      void writeCache("text", textRequest(model), text);
+      return text;
+    }, preferredModel, signal);
+  };
+
+  /**
+   * The history lives here and every turn starts a provider session on
+   * the model the fallback picked, so a conversation can move between
+   * models when one runs out of budget
+   */
+  const startChat = (systemInstruction?: string, initialHistory: LLMMessage[] = []): ChatSession => {
+    const history = [...initialHistory];
+    const instruction = systemInstruction || renderPrompt("chat.system", {}, { versions: promptVersions });
+
+    const sendTo = (model: string, message: string, signal?: AbortSignal) =>
+      provider
+        .startChat({
+          model,
+          history: [...history],
+          generationConfig: generationConfigFor(model, {
+            maxOutputTokens: 600,
+            temperature: 0.3,
+          }),
+          onUsage: reportUsage("chat", model),
+          safetySettings: safetySettingsFor("chat", safetySettings),
+          systemInstruction: instruction,
+        })
+        .sendMessage(message, signal);
+
+    return {
+      async sendMessage(message, signal, preferredModel) {
+        const text = await makeAPIRequestWithFallback(
+          (model) => sendTo(model, message, signal),
+          preferredModel,
+          signal
+        );
+        history.push({ role: "user", text: message }, { role: "model", text });
+        return text;
+      },
+      getHistory() {
+        return [...history];
+      },
+    };
+  };
+
+  const sendChatMessage = (
+    chat: ChatSession,
+    message: string,
+    { signal, model }: RequestOptions = {}
+  ): Promise<string> => chat.sendMessage(message, signal, model);
+
+  return {
+    getStructuredChatResponse,
+    streamStructuredChatResponse,
+    getGeminiResponse,
+    analyzeCase: (details, options) =>
+      generateStructured(caseAnalysisTask(details, options, context)),
+    startChat,
+    sendChatMessage,
+    canMakeRequest,
+    getTimeUntilNextRequest,
+    getModels: async () => chainModels.map(modelInfo),
+  };
+}
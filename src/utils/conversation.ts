@@ -0,0 +1,51 @@
+import type { StructuredChatResponse } from "./advisor";
+import type { LLMMessage } from "./llm";
+
+export interface ConversationTurn {
+  question: string;
+  answer: StructuredChatResponse;
+}
+
+// Older turns are dropped first; long text blocks are shortened so a
+// follow-up does not resend whole earlier answers
+const MAX_TURNS = 6;
+const MAX_BLOCK_LENGTH = 300;
+
+const shorten = (text: string) =>
+  text.length > MAX_BLOCK_LENGTH ? `${text.slice(0, MAX_BLOCK_LENGTH)}...` : text;
+
+/**
+ * Compact JSON form of an earlier answer for the model's context. Keeping
+ * it JSON shows the model the same format it has to answer in.
+ */
+export function serializeAnswer(answer: StructuredChatResponse): string {
+  return JSON.stringify({
+    title: answer.title,
+    summary: answer.summary,
+    content: answer.content
+      // The disclaimer is repeated on every answer and adds nothing
+      .filter((item) => item.type !== "warning")
+      .map((item) => ({
+        type: item.type,
+        ...(item.title ? { title: item.title } : {}),
+        ...(item.content ? { content: shorten(item.content) } : {}),
+        ...(item.items ? { items: item.items.map(shorten) } : {}),
+        ...(item.act ? { act: item.act, section: item.section } : {}),
+        ...(item.columns ? { columns: item.columns } : {}),
+        ...(item.rows ? { rows: item.rows.map((row) => row.map(shorten)) } : {}),
+        ...(item.events
+          ? { events: item.events.map(({ when, event }) => ({ when, event: shorten(event) })) }
+          : {}),
+      })),
+  });
+}
+
+/**
+ * Turn earlier question/answer pairs into provider history
+ */
+export function toHistory(turns: ConversationTurn[]): LLMMessage[] {
+  return turns.slice(-MAX_TURNS).flatMap((turn): LLMMessage[] => [
+    { role: "user", text: turn.question },
+    { role: "model", text: serializeAnswer(turn.answer) },
+  ]);
+}
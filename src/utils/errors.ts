@@ -0,0 +1,195 @@
+/**
+ * Typed failures of a model request. Providers translate their HTTP and SDK
+ * errors into these, the advisor decides on retries and model fallback by
+ * type, and the proxy forwards `code` so the client can rebuild the same
+ * error on its side.
+ */
+
+import type { SafetyCategory } from "./llm/types";
+
+export type ErrorCode =
+  | "rate_limit"
+  | "quota_exhausted"
+  | "safety_blocked"
+  | "network"
+  | "parse"
+  | "invalid_key"
+  | "upstream"
+  | "cancelled";
+
+export class AdvisorError extends Error {
+  readonly code: ErrorCode = "upstream";
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** Too many requests for now, either by our own limiter or the API's */
+export class RateLimitError extends AdvisorError {
+  readonly code = "rate_limit";
+
+  /**
+   * @param waitTime ms until a request may be sent again; 0 if the API did not say
+   */
+  constructor(readonly waitTime = 0, message?: string) {
+    super(
+      message ??
+        `Rate limit exceeded. Please wait ${
+          waitTime > 0 ? `${Math.ceil(waitTime / 1000)} seconds` : "a moment"
+        } before making another request.`
+    );
+  }
+}
+
+/** The API quota is used up; waiting a minute will not help */
+export class QuotaExhaustedError extends AdvisorError {
+  readonly code = "quota_exhausted";
+
+  constructor(message = "The API quota has been used up. Please try again later or upgrade your plan.") {
+    super(message);
+  }
+}
+
+/** The provider refused to answer because of its safety filters */
+export class SafetyBlockedError extends AdvisorError {
+  readonly code = "safety_blocked";
+
+  /**
+   * @param reason the provider's own block or finish reason, e.g. `SAFETY`
+   * @param category the harm category that tripped the filter, if reported
+   */
+  constructor(readonly reason?: string, message?: string, readonly category?: SafetyCategory) {
+    super(message ?? `The response was blocked by the model's safety filters${reason ? ` (${reason})` : ""}.`);
+  }
+}
+
+/** The provider could not be reached at all */
+export class NetworkError extends AdvisorError {
+  readonly code = "network";
+
+  constructor(message = "Could not reach the AI service. Check your connection and try again.") {
+    super(message);
+  }
+}
+
+/** A response arrived but could not be read */
+export class ParseError extends AdvisorError {
+  readonly code = "parse";
+}
+
+/** The API key is missing, malformed or revoked */
+export class InvalidKeyError extends AdvisorError {
+  readonly code = "invalid_key";
+
+  constructor(message = "The API key was rejected. Check that it is set and valid.") {
+    super(message);
+  }
+}
+
+/** Any other failed response from the provider */
+export class UpstreamError extends AdvisorError {
+  readonly code = "upstream";
+
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/** The caller aborted the request, or cancelled it while it was queued */
+export class RequestCancelledError extends AdvisorError {
+  readonly code = "cancelled";
+
+  constructor(message = "Request was cancelled.") {
+    super(message);
+  }
+}
+
+/**
+ * Whether an error is the rejection of an aborted `fetch` or SDK call
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    error instanceof RequestCancelledError ||
+    (error instanceof Error && error.name === "AbortError")
+  );
+}
+
+/**
+ * Throw `RequestCancelledError` if the signal has fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new RequestCancelledError();
+}
+
+/**
+ * Whether sending the same request again later can succeed
+ */
+export function isRetryable(error: unknown): boolean {
+  return (
+    error instanceof RateLimitError ||
+    error instanceof NetworkError ||
+    (error instanceof UpstreamError && error.status >= 500)
+  );
+}
+
+/**
+ * Parse a `Retry-After` header (seconds or an HTTP date) or a protobuf
+ * duration such as Gemini's `retryDelay: "37s"` into ms
+ */
+export function parseRetryDelay(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = value.match(/^(\d+(?:\.\d+)?)s?$/);
+  if (seconds) return Math.round(Number(seconds[1]) * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Classify a failed HTTP response from a provider
+ */
+export function errorFromResponse(status: number, detail: string, retryAfter?: number): AdvisorError {
+  if (status === 401 || status === 403 || (status === 400 && /api[ _-]?key/i.test(detail))) {
+    return new InvalidKeyError();
+  }
+  if (status === 429) {
+    // OpenAI reports an empty balance as `insufficient_quota`, Gemini as a
+    // per-day quota violation; everything else is a per-minute limit
+    return /insufficient_quota|per ?day/i.test(detail)
+      ? new QuotaExhaustedError()
+      : new RateLimitError(retryAfter);
+  }
+  return new UpstreamError(status, `[${status}] ${detail}`.trim());
+}
+
+/**
+ * Rebuild a typed error from the `code` sent by the proxy server
+ */
+export function errorFromCode(
+  code: ErrorCode | undefined,
+  message: string,
+  retryAfterMs?: number,
+  category?: SafetyCategory
+): Error {
+  switch (code) {
+    case "rate_limit":
+      return new RateLimitError(retryAfterMs, message);
+    case "quota_exhausted":
+      return new QuotaExhaustedError(message);
+    case "safety_blocked":
+      return new SafetyBlockedError(undefined, message, category);
+    case "network":
+      return new NetworkError(message);
+    case "parse":
+      return new ParseError(message);
+    case "invalid_key":
+      return new InvalidKeyError(message);
+    case "cancelled":
+      return new RequestCancelledError(message);
+    default:
+      return new Error(message);
+  }
+}
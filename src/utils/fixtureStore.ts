@@ -0,0 +1,26 @@
+import type { Fixture, FixtureStore } from "./llm";
+
+// Path the Vite dev server writes recorded fixtures to, see vite.config.ts
+const FIXTURES_ENDPOINT = "/__fixtures";
+
+// Loaded on demand, so fixtures never end up in the main bundle
+const fixtures = import.meta.glob<Fixture>("/fixtures/llm/*.json", { import: "default" });
+
+/**
+ * Fixtures in `fixtures/llm/`, shared with the proxy server. Reads come
+ * from the files bundled by Vite; recording only works against the dev
+ * server, which writes each fixture to disk.
+ */
+export function createBrowserFixtureStore(): FixtureStore {
+  return {
+    get: async (key) => fixtures[`/fixtures/llm/${key}.json`]?.(),
+    async set(key, fixture) {
+      const response = await fetch(`${FIXTURES_ENDPOINT}/${key}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(fixture),
+      });
+      if (!response.ok) throw new Error(`The dev server did not save the fixture (${response.status})`);
+    },
+  };
+}
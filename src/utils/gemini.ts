@@ -1,292 +1,262 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  createAdvisor,
+  type CaseDetails,
+  type ChatSession,
+  type LegalAdvisor,
+  type RequestOptions,
+  type StreamHandlers,
+  type StructuredChatOptions,
+} from "./advisor";
+import { createBrowserFixtureStore } from "./fixtureStore";
+import { createIndexedDBCache } from "./indexedDBCache";
+import { createBareActRetriever } from "./legal/retrieval";
+import {
+  createProvider,
+  MODELS,
+  readProviderConfig,
+  withFixtures,
+} from "./llm";
+import { readPromptVersions } from "./prompts";
+import { createProxyAdvisor } from "./proxyClient";
+import { readRateLimits } from "./rateLimiter";
+import { RequestQueue, type QueueOptions, type QueuedRequest } from "./requestQueue";
+import { readSafetySettings } from "./safety";
+import { createSharedRateLimitStore } from "./sharedRateLimitStore";
+import type { UsageLog } from "./usage";
+import { createUsageStore } from "./usageStore";
+
+export type {
+  CaseAnalysisResponse,
+  CaseDetails,
+  ChatResponseItem,
+  PartialStructuredResponse,
+  ResponseSource,
+  StructuredChatResponse,
+} from "./advisor";
+export {
+  InvalidKeyError,
+  NetworkError,
+  ParseError,
+  QuotaExhaustedError,
+  RateLimitError,
+  RequestCancelledError,
+  SafetyBlockedError,
+} from "./errors";
+export type { PromptLocale, PromptRef } from "./prompts";
+export type { QueueStatus, RequestPriority } from "./requestQueue";
+export type { CitationCheck } from "./legal/citations";
+export {
+  CODE_MAPPINGS,
+  convertSection,
+  formatCodeSection,
+  searchMappings,
+  type CodeMapping,
+} from "./legal/codeMapping";
+export {
+  computeDeadline,
+  formatPeriod,
+  rulesForCaseType,
+  todayISO,
+  type LimitationDeadline,
+  type LimitationRule,
+} from "./legal/limitation";
+export { estimateCosts, formatCostEstimates, type CostEstimate } from "./legal/fees";
+export {
+  E_DAAKHIL_STEPS,
+  E_DAAKHIL_URL,
+  selectConsumerForum,
+  type ConsumerForum,
+} from "./legal/consumerForum";
+export {
+  CASE_TAXONOMY,
+  considerationPaid,
+  formatCaseType,
+  getCaseCategory,
+  getCaseSubtype,
+  intakeFacts,
+  type CaseFact,
+  type CaseSubtype,
+  type IntakeField,
+} from "./legal/caseTypes";
+export {
+  courtsFor,
+  formatJurisdiction,
+  getJurisdiction,
+  JURISDICTIONS,
+  type Jurisdiction,
+} from "./legal/jurisdictions";
+export { getPassage, type Passage } from "./legal/corpus";
+export { passageSource } from "./legal/retrieval";
+export type { ModelDefinition, SafetyCategory } from "./llm";
+export { SAFETY_CATEGORY_LABELS } from "./safety";
+export type { DailyUsage, UsageFeature, UsageLog, UsageTotals } from "./usage";
+
+// Answers are kept in IndexedDB so repeated questions do not spend quota
+const responseCache = createIndexedDBCache();
+
+// Tokens spent per day and feature, for the usage panel
+const usageStore = createUsageStore();
 
-const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_KEY);
-const flashModel = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-const proModel = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-
-// Rate limiting implementation
-class RateLimiter {
-  private requests: number[] = [];
-  private readonly maxRequestsPerMinute = 15;
-  private readonly timeWindow = 60000;
-  private lastRequestTime = 0;
-  private readonly minInterval = 4000;
-
-  canMakeRequest(): boolean {
-    const now = Date.now();
-    
-    if (now - this.lastRequestTime < this.minInterval) {
-      return false;
-    }
-
-    this.requests = this.requests.filter(time => now - time < this.timeWindow);
-    return this.requests.length < this.maxRequestsPerMinute;
-  }
-
-  recordRequest(): void {
-    const now = Date.now();
-    this.requests.push(now);
-    this.lastRequestTime = now;
-  }
-
-  getTimeUntilNextRequest(): number {
-    const now = Date.now();
-    
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    if (timeSinceLastRequest < this.minInterval) {
-      return this.minInterval - timeSinceLastRequest;
-    }
-
-    if (this.requests.length >= this.maxRequestsPerMinute) {
-      const oldestRequest = Math.min(...this.requests);
-      return this.timeWindow - (now - oldestRequest);
-    }
-
-    return 0;
-  }
+/**
+ * Talk to the provider straight from the browser. Only meant for local
+ * development: the API key ends up in the client bundle.
+ */
+function createDirectAdvisor(): LegalAdvisor {
+  // Provider is selected by VITE_LLM_PROVIDER (gemini | openai | local |
+  // fake); VITE_LLM_FIXTURES records its calls or replays them offline
+  const providerConfig = readProviderConfig(import.meta.env);
+  return createAdvisor({
+    provider: withFixtures(
+      createProvider(providerConfig),
+      providerConfig.fixtures,
+      createBrowserFixtureStore()
+    ),
+    models: providerConfig.models,
+    // Per-model limits from VITE_LLM_RATE_LIMITS, shared by every open tab
+    rateLimits: readRateLimits(import.meta.env),
+    // Per-feature safety filters from VITE_LLM_SAFETY_SETTINGS
+    safetySettings: readSafetySettings(import.meta.env),
+    // Pinned template versions from VITE_LLM_PROMPT_VERSIONS
+    promptVersions: readPromptVersions(import.meta.env),
+    // Bundled bare-act excerpts, quoted with each question
+    retriever: createBareActRetriever(),
+    createRateLimitStore: createSharedRateLimitStore,
+    cache: responseCache,
+    onUsage: usageStore.record,
+  });
 }
 
-const rateLimiter = new RateLimiter();
+// With VITE_API_URL set every call goes through the proxy server in
+// `server/`, which holds the key and enforces the rate limits
+const advisor: LegalAdvisor = import.meta.env.VITE_API_URL
+  ? createProxyAdvisor(import.meta.env.VITE_API_URL, usageStore.record)
+  : createDirectAdvisor();
 
-// Legal-specific interfaces (removed budget stuff)
-export interface ChatResponseItem {
-  type: "text" | "list" | "suggestion" | "resource" | "warning" | "code";
-  content: string;
-  items?: string[];
-  title?: string;
-  url?: string;
-  language?: string;
-}
+const requestQueue = new RequestQueue(advisor);
 
-export interface StructuredChatResponse {
-  title: string;
-  summary: string;
-  content: ChatResponseItem[];
-}
+const MODEL_STORAGE_KEY = "lenis:model";
 
-// Enhanced error handling with model fallback
-async function makeAPIRequestWithFallback<T>(
-  requestFn: (model: any) => Promise<T>,
-  useFlashFirst: boolean = true
-): Promise<T> {
-  if (!rateLimiter.canMakeRequest()) {
-    const waitTime = rateLimiter.getTimeUntilNextRequest();
-    throw new Error(`Rate limit exceeded. Please wait ${Math.ceil(waitTime / 1000)} seconds before making another request.`);
+function readSelectedModel(): string | undefined {
+  try {
+    return localStorage.getItem(MODEL_STORAGE_KEY) ?? undefined;
+  } catch {
+    return undefined;
   }
+}
 
-  const models = useFlashFirst ? [flashModel, proModel] : [proModel, flashModel];
-  let lastError: any;
+// Chosen in the model picker and remembered across reloads
+let selectedModel = readSelectedModel();
 
-  for (const model of models) {
-    try {
-      rateLimiter.recordRequest();
-      const result = await requestFn(model);
-      return result;
-    } catch (error: any) {
-      console.error(`Request failed with model:`, error);
-      lastError = error;
+// Every request asks for the selected model unless it names one itself
+const withSelectedModel = <T extends RequestOptions>(options?: T): T =>
+  ({ model: selectedModel, ...options }) as T;
 
-      if (error.message?.includes('429') || error.message?.includes('quota')) {
-        console.log('Quota exceeded for this model, trying fallback...');
-        continue;
-      }
+/**
+ * The models of the fallback chain, in the order they are tried
+ */
+export const getAvailableModels = () => advisor.getModels();
 
-      throw error;
-    }
-  }
+export const getSelectedModel = (): string | undefined => selectedModel;
 
-  if (lastError.message?.includes('429') || lastError.message?.includes('quota')) {
-    throw new Error('All Gemini models have exceeded their quotas. Please try again later or upgrade your plan.');
+/**
+ * Try `model` first from now on. `undefined` goes back to the chain's own
+ * order. Models outside the chain are ignored by the advisor.
+ */
+export function setSelectedModel(model: string | undefined) {
+  selectedModel = model;
+  try {
+    if (model) localStorage.setItem(MODEL_STORAGE_KEY, model);
+    else localStorage.removeItem(MODEL_STORAGE_KEY);
+  } catch (error) {
+    console.warn("Could not persist the selected model:", error);
   }
+}
 
-  throw lastError;
+// Forget a remembered model the chain no longer has, e.g. one picked in
+// direct mode or since removed from the server's LLM_MODELS
+if (selectedModel) {
+  advisor
+    .getModels()
+    .then((models) => {
+      if (!models.some(({ id }) => id === selectedModel)) setSelectedModel(undefined);
+    })
+    .catch((error) => console.warn("Could not check the selected model:", error));
 }
 
 /**
- * Get structured legal chat response - FIXED VERSION
+ * Display name of a model id, as recorded in `meta.model`
  */
-export const getStructuredChatResponse = async (prompt: string): Promise<StructuredChatResponse> => {
-  const requestFn = async (model: any) => {
-    // Simplified prompt that forces JSON response
-    const jsonPrompt = `You are a legal advisor for Indian law. Answer this question: ${prompt}
-
-CRITICAL: You must respond with ONLY valid JSON in this exact format with no other text before or after:
+export const getModelLabel = (model: string): string =>
+  MODELS.find((definition) => definition.id === model)?.label ?? model;
 
-{
-  "title": "Brief title about the legal topic (max 50 characters)",
-  "summary": "One sentence summary of your answer (max 100 characters)",
-  "content": [
-    {
-      "type": "text",
-      "content": "Main legal information and explanation"
-    },
-    {
-      "type": "list",
-      "title": "Key Points" ,
-      "items": ["Point 1", "Point 2", "Point 3"]
-    },
-    {
-      "type": "suggestion",
-      "content": "Practical advice or next steps"
-    },
-    {
-      "type": "warning",
-      "content": "This is general legal information only, not specific legal advice. Consult a qualified lawyer for your specific situation."
-    }
-  ]
-}
+/**
+ * Send a request through the queue: instead of failing while rate limited
+ * it waits, and is dispatched as soon as the limiter has budget again
+ */
+export const queueRequest = <T>(run: () => Promise<T>, options?: QueueOptions): QueuedRequest<T> =>
+  requestQueue.enqueue(run, options);
 
-Respond with ONLY the JSON, no explanations, no markdown, no other text.`;
+/**
+ * Get structured legal chat response
+ */
+export const getStructuredChatResponse = (prompt: string, options?: StructuredChatOptions) =>
+  advisor.getStructuredChatResponse(prompt, withSelectedModel(options));
 
-    const result = await model.generateContent({
-      contents: [{ role: "user", parts: [{ text: jsonPrompt }] }],
-      generationConfig: {
-        maxOutputTokens: 2000,
-        temperature: 0.1, // Very low temperature for consistent JSON
-        topP: 0.8,
-        topK: 10
-      }
-    });
-    
-    const response = await result.response;
-    let text = (await response.text()).trim();
-    
-    // Clean up the response - remove markdown code blocks if present
-    text = text.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-    text = text.replace(/^\s*[\r\n]+|[\r\n]+\s*$/g, ''); // Remove leading/trailing whitespace
-    
-    console.log("Raw response:", text); // Debug log
-    
-    try {
-      const parsed = JSON.parse(text);
-      
-      // Validate structure
-      if (!parsed.title || !parsed.summary || !parsed.content) {
-        throw new Error("Invalid response structure");
-      }
-      
-      return parsed as StructuredChatResponse;
-    } catch (parseError) {
-      console.error("JSON parse error:", parseError);
-      console.error("Response text:", text);
-      
-      // Try to extract JSON from response if it contains other text
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        try {
-          const parsed = JSON.parse(jsonMatch[0]);
-          if (parsed.title && parsed.summary && parsed.content) {
-            return parsed as StructuredChatResponse;
-          }
-        } catch (extractError) {
-          console.error("Failed to extract JSON:", extractError);
-        }
-      }
-      
-      // Fallback: create structured response from plain text
-      return createFallbackResponse(text, prompt);
-    }
-  };
+/**
+ * Structured legal chat response, rendered progressively through `onPartial`
+ */
+export const streamStructuredChatResponse = (
+  prompt: string,
+  handlers?: StreamHandlers,
+  options?: StructuredChatOptions
+) => advisor.streamStructuredChatResponse(prompt, handlers, withSelectedModel(options));
 
-  return makeAPIRequestWithFallback(requestFn, true);
-};
+/**
+ * Structured analysis of a case submitted through the case analysis form
+ */
+export const analyzeCase = (details: CaseDetails, options?: RequestOptions) =>
+  advisor.analyzeCase(details, withSelectedModel(options));
 
 /**
- * Create a fallback structured response when JSON parsing fails
+ * Simple text response for when you just need basic text
  */
-function createFallbackResponse(text: string, originalPrompt: string): StructuredChatResponse {
-  // Extract a reasonable title from the prompt
-  let title = "Legal Information";
-  if (originalPrompt.toLowerCase().includes('tenant')) title = "Tenant Rights";
-  else if (originalPrompt.toLowerCase().includes('property')) title = "Property Law";
-  else if (originalPrompt.toLowerCase().includes('divorce')) title = "Divorce Procedure";
-  else if (originalPrompt.toLowerCase().includes('consumer')) title = "Consumer Rights";
-  else if (originalPrompt.toLowerCase().includes('fir')) title = "FIR and Police Rights";
+export const getGeminiResponse = (prompt: string, options?: RequestOptions) =>
+  advisor.getGeminiResponse(prompt, withSelectedModel(options));
 
-  // Create summary from first sentence or first 100 chars
-  const sentences = text.split('.').filter(s => s.trim().length > 0);
-  const summary = sentences.length > 0 
-    ? sentences[0].substring(0, 100) + (sentences[0].length > 100 ? '...' : '.')
-    : text.substring(0, 100) + (text.length > 100 ? '...' : '');
+/**
+ * Drop every cached answer kept in this browser. A single answer is
+ * replaced by asking again with `refresh: true`.
+ */
+export const clearResponseCache = (): Promise<void> => responseCache.clear();
 
-  return {
-    title,
-    summary,
-    content: [
-      {
-        type: "text",
-        content: text
-      },
-      {
-        type: "warning",
-        content: "This is general legal information only, not specific legal advice. Consult a qualified lawyer for your specific situation."
-      }
-    ]
-  };
-}
+/**
+ * Tokens spent per day and feature, kept in localStorage
+ */
+export const getUsageLog = (): UsageLog => usageStore.load();
 
 /**
- * Simple text response for when you just need basic text
+ * Called with the whole log whenever a request adds to it, in any tab
  */
-export const getGeminiResponse = async (prompt: string): Promise<string> => {
-  const requestFn = async (model: any) => {
-    const result = await model.generateContent({
-      contents: [{ role: "user", parts: [{ text: `You are a legal advisor for Indian law. ${prompt}` }] }],
-      generationConfig: {
-        maxOutputTokens: 500,
-        temperature: 0.3,
-        topP: 0.8,
-        topK: 20
-      }
-    });
-    const response = await result.response;
-    return response.text();
-  };
+export const subscribeToUsage = (listener: (log: UsageLog) => void): (() => void) =>
+  usageStore.subscribe(listener);
 
-  return makeAPIRequestWithFallback(requestFn, true);
-};
+export const clearUsage = (): void => usageStore.clear();
 
 // Utility functions
 export const canMakeRequest = (): boolean => {
-  return rateLimiter.canMakeRequest();
+  return advisor.canMakeRequest();
 };
 
 export const getTimeUntilNextRequest = (): number => {
-  return rateLimiter.getTimeUntilNextRequest();
+  return advisor.getTimeUntilNextRequest();
 };
 
 // Chat functions
-export const startGeminiChat = (systemInstruction?: string) => {
-  try {
-    const chat = flashModel.startChat({
-      history: [],
-      generationConfig: {
-        maxOutputTokens: 600,
-        temperature: 0.3,
-        topP: 0.8,
-        topK: 20,
-      },
-      systemInstruction: systemInstruction || "You are a legal advisor assistant for Indian law. Provide helpful, accurate legal information.",
-    });
-    return chat;
-  } catch (error) {
-    console.error("Error starting Gemini chat:", error);
-    throw error;
-  }
-};
-
-export const sendChatMessage = async (chat: any, message: string): Promise<string> => {
-  const requestFn = async () => {
-    const result = await chat.sendMessage(message);
-    const response = await result.response;
-    return response.text();
-  };
-
-  if (!rateLimiter.canMakeRequest()) {
-    const waitTime = rateLimiter.getTimeUntilNextRequest();
-    throw new Error(`Rate limit exceeded. Please wait ${Math.ceil(waitTime / 1000)} seconds.`);
-  }
-
-  rateLimiter.recordRequest();
-  return requestFn();
-};
\ No newline at end of file
+export const startGeminiChat = (systemInstruction?: string): ChatSession =>
+  advisor.startChat(systemInstruction);
+
+export const sendChatMessage = (
+  chat: ChatSession,
+  message: string,
+  options?: RequestOptions
+): Promise<string> => advisor.sendChatMessage(chat, message, withSelectedModel(options));
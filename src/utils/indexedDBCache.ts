@@ -0,0 +1,60 @@
+import type { CacheEntry, ResponseCache } from "./responseCache";
+
+const DB_NAME = "lenis";
+const DB_VERSION = 1;
+const STORE_NAME = "responses";
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Browser cache for model answers, kept across reloads in IndexedDB.
+ * Expired entries are removed when they are next read.
+ */
+export function createIndexedDBCache(): ResponseCache {
+  let database: Promise<IDBDatabase> | undefined;
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    database ??= openDatabase();
+    const db = await database;
+
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  const remove = async (key: string) => {
+    await run("readwrite", (store) => store.delete(key));
+  };
+
+  return {
+    async get<T>(key: string) {
+      const entry = await run<CacheEntry | undefined>("readonly", (store) => store.get(key));
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        await remove(key);
+        return undefined;
+      }
+      return entry.value as T;
+    },
+    async set(key, value, ttl) {
+      const entry: CacheEntry = { value, expiresAt: Date.now() + ttl };
+      await run("readwrite", (store) => store.put(entry, key));
+    },
+    delete: remove,
+    async clear() {
+      await run("readwrite", (store) => store.clear());
+    },
+  };
+}
@@ -0,0 +1,505 @@
+/**
+ * Case types, each split into the sub-types people come with, and the
+ * facts worth asking for each before an analysis: the dates limitation
+ * runs from, the amounts fees and forums turn on, and the personal law or
+ * documents that decide which rules apply. Category and sub-type names end
+ * up in the case type text that `rulesForCaseType` and `estimateCosts`
+ * match against, so a new name should still match the right pattern there.
+ */
+
+export type IntakeFieldKind = "text" | "date" | "amount" | "select";
+
+export interface IntakeField {
+  id: string;
+  label: string;
+  kind: IntakeFieldKind;
+  /** Choices for a "select" field */
+  options?: string[];
+  placeholder?: string;
+}
+
+export interface CaseSubtype {
+  id: string;
+  name: string;
+  fields: IntakeField[];
+}
+
+export interface CaseCategory {
+  id: string;
+  name: string;
+  subtypes: CaseSubtype[];
+}
+
+/** One answered intake field, as sent with the case */
+export interface CaseFact {
+  label: string;
+  value: string;
+}
+
+const YES_NO = ["Yes", "No"];
+
+const PERSONAL_LAWS = [
+  "Hindu Marriage Act, 1955 (Hindus, Buddhists, Jains, Sikhs)",
+  "Special Marriage Act, 1954",
+  "Muslim personal law",
+  "Indian Divorce Act, 1869 (Christians)",
+  "Parsi Marriage and Divorce Act, 1936",
+];
+
+const PROPERTY_TYPES = ["Agricultural land", "House or flat", "Plot", "Shop or commercial premises"];
+
+export const CASE_TAXONOMY: CaseCategory[] = [
+  {
+    id: "contract",
+    name: "Contract Dispute",
+    subtypes: [
+      {
+        id: "breach",
+        name: "Breach of Contract",
+        fields: [
+          { id: "contractDate", label: "Date of the contract", kind: "date" },
+          { id: "contractValue", label: "Value of the contract", kind: "amount" },
+          { id: "breachDate", label: "Date of the breach", kind: "date" },
+          {
+            id: "contractForm",
+            label: "Form of the contract",
+            kind: "select",
+            options: ["Written and signed", "Emails or messages only", "Oral"],
+          },
+        ],
+      },
+      {
+        id: "money-recovery",
+        name: "Money Recovery",
+        fields: [
+          { id: "amountDue", label: "Amount due", kind: "amount" },
+          { id: "dueDate", label: "Date it fell due", kind: "date" },
+          {
+            id: "lastAcknowledged",
+            label: "Last payment or written acknowledgement of the debt",
+            kind: "date",
+          },
+          {
+            id: "debtProof",
+            label: "Proof of the debt",
+            kind: "select",
+            options: [
+              "Promissory note or loan agreement",
+              "Invoice",
+              "Bank transfer record",
+              "Nothing in writing",
+            ],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: "property",
+    name: "Property Case",
+    subtypes: [
+      {
+        id: "title-possession",
+        name: "Title or Possession",
+        fields: [
+          { id: "propertyType", label: "Type of property", kind: "select", options: PROPERTY_TYPES },
+          {
+            id: "titleDocument",
+            label: "How you hold it",
+            kind: "select",
+            options: ["Registered sale deed", "Inheritance", "Gift deed or will", "Unregistered agreement"],
+          },
+          { id: "dispossessedOn", label: "Date you were dispossessed, if you were", kind: "date" },
+        ],
+      },
+      {
+        id: "partition",
+        name: "Partition",
+        fields: [
+          { id: "propertyType", label: "Type of property", kind: "select", options: PROPERTY_TYPES },
+          {
+            id: "acquiredBy",
+            label: "How the family came to own it",
+            kind: "select",
+            options: ["Ancestral", "Bought by a parent", "Bought jointly"],
+          },
+          {
+            id: "coOwners",
+            label: "Other co-owners",
+            kind: "text",
+            placeholder: "e.g., two brothers and a sister",
+          },
+        ],
+      },
+      {
+        id: "specific-performance",
+        name: "Specific Performance of a Sale Agreement",
+        fields: [
+          { id: "propertyType", label: "Type of property", kind: "select", options: PROPERTY_TYPES },
+          { id: "agreementDate", label: "Date of the agreement for sale", kind: "date" },
+          { id: "completionDate", label: "Sale to be completed by", kind: "date" },
+          { id: "salePrice", label: "Agreed sale price", kind: "amount" },
+          { id: "advancePaid", label: "Advance paid", kind: "amount" },
+        ],
+      },
+      {
+        id: "tenancy",
+        name: "Landlord and Tenant",
+        fields: [
+          { id: "role", label: "You are the", kind: "select", options: ["Landlord", "Tenant"] },
+          { id: "monthlyRent", label: "Monthly rent", kind: "amount" },
+          { id: "tenancyStart", label: "Tenancy started on", kind: "date" },
+          {
+            id: "rentAgreement",
+            label: "Rent agreement",
+            kind: "select",
+            options: ["Registered", "Unregistered", "No written agreement"],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: "consumer",
+    name: "Consumer Complaint",
+    subtypes: [
+      {
+        id: "defective-goods",
+        name: "Defective Goods",
+        fields: [
+          { id: "product", label: "Product", kind: "text", placeholder: "e.g., refrigerator, car" },
+          { id: "purchaseDate", label: "Date of purchase", kind: "date" },
+          { id: "amountPaid", label: "Amount paid", kind: "amount" },
+          { id: "underWarranty", label: "Still under warranty", kind: "select", options: YES_NO },
+        ],
+      },
+      {
+        id: "deficient-service",
+        name: "Deficient Service",
+        fields: [
+          { id: "service", label: "Service", kind: "text", placeholder: "e.g., bank, airline, hospital" },
+          { id: "serviceDate", label: "Date of the deficiency", kind: "date" },
+          { id: "amountPaid", label: "Amount paid", kind: "amount" },
+        ],
+      },
+      {
+        id: "insurance",
+        name: "Insurance Claim Rejected",
+        fields: [
+          {
+            id: "policyType",
+            label: "Policy",
+            kind: "select",
+            options: ["Health", "Motor", "Life", "Property"],
+          },
+          { id: "amountPaid", label: "Premium paid", kind: "amount" },
+          { id: "claimAmount", label: "Amount claimed", kind: "amount" },
+          { id: "repudiationDate", label: "Date the claim was rejected", kind: "date" },
+        ],
+      },
+      {
+        id: "builder-delay",
+        name: "Delayed Flat Possession",
+        fields: [
+          { id: "agreementDate", label: "Date of the builder-buyer agreement", kind: "date" },
+          { id: "promisedPossession", label: "Possession promised by", kind: "date" },
+          { id: "amountPaid", label: "Amount paid so far", kind: "amount" },
+          { id: "reraRegistered", label: "Project registered with RERA", kind: "select", options: YES_NO },
+        ],
+      },
+    ],
+  },
+  {
+    id: "cheque",
+    name: "Cheque Bounce",
+    subtypes: [
+      {
+        id: "payee",
+        name: "Your Cheque Was Dishonoured",
+        fields: [
+          { id: "chequeAmount", label: "Cheque amount", kind: "amount" },
+          { id: "chequeDate", label: "Date on the cheque", kind: "date" },
+          { id: "dishonourDate", label: "Date of the bank's return memo", kind: "date" },
+          {
+            id: "returnReason",
+            label: "Reason on the return memo",
+            kind: "select",
+            options: [
+              "Funds insufficient",
+              "Exceeds arrangement",
+              "Payment stopped by drawer",
+              "Account closed",
+              "Signature mismatch",
+            ],
+          },
+          { id: "noticeDate", label: "Date the demand notice was sent", kind: "date" },
+        ],
+      },
+      {
+        id: "drawer",
+        name: "Complaint Against You",
+        fields: [
+          { id: "chequeAmount", label: "Cheque amount", kind: "amount" },
+          { id: "noticeReceived", label: "Date you received the demand notice", kind: "date" },
+          {
+            id: "debtDisputed",
+            label: "Do you dispute owing the amount",
+            kind: "select",
+            options: ["Yes, nothing was owed", "Part of it was owed", "No, it was owed"],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: "criminal",
+    name: "Criminal",
+    subtypes: [
+      {
+        id: "fir",
+        name: "Filing an FIR",
+        fields: [
+          { id: "incidentDate", label: "Date of the incident", kind: "date" },
+          { id: "policeStation", label: "Police station", kind: "text" },
+          {
+            id: "firStatus",
+            label: "FIR status",
+            kind: "select",
+            options: ["Registered", "Police refused to register it", "Not approached yet"],
+          },
+        ],
+      },
+      {
+        id: "bail",
+        name: "Bail",
+        fields: [
+          {
+            id: "custody",
+            label: "Custody",
+            kind: "select",
+            options: ["Police custody", "Judicial custody", "Not arrested yet (anticipatory bail)"],
+          },
+          { id: "arrestDate", label: "Date of arrest", kind: "date" },
+          {
+            id: "sections",
+            label: "Sections in the FIR",
+            kind: "text",
+            placeholder: "e.g., BNS 318(4), 316(2)",
+          },
+        ],
+      },
+      {
+        id: "fraud",
+        name: "Cheating and Fraud",
+        fields: [
+          { id: "amountLost", label: "Amount lost", kind: "amount" },
+          { id: "incidentDate", label: "Date of the fraud", kind: "date" },
+          {
+            id: "mode",
+            label: "How the money was taken",
+            kind: "select",
+            options: ["Online or UPI", "Bank transfer", "Cash", "Investment scheme"],
+          },
+          {
+            id: "reported",
+            label: "Reported on the cybercrime portal or to the police",
+            kind: "select",
+            options: YES_NO,
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: "family",
+    name: "Family Law",
+    subtypes: [
+      {
+        id: "divorce",
+        name: "Divorce",
+        fields: [
+          { id: "marriageDate", label: "Date of marriage", kind: "date" },
+          { id: "personalLaw", label: "Religion or personal law", kind: "select", options: PERSONAL_LAWS },
+          {
+            id: "mutualConsent",
+            label: "Does your spouse agree to the divorce",
+            kind: "select",
+            options: ["Yes, by mutual consent", "No, it will be contested"],
+          },
+          { id: "separatedSince", label: "Living separately since", kind: "date" },
+          { id: "children", label: "Children and their ages", kind: "text", placeholder: "e.g., one son, 7" },
+        ],
+      },
+      {
+        id: "maintenance",
+        name: "Maintenance",
+        fields: [
+          {
+            id: "claimant",
+            label: "Maintenance is for",
+            kind: "select",
+            options: ["Wife", "Child", "Parent"],
+          },
+          { id: "personalLaw", label: "Religion or personal law", kind: "select", options: PERSONAL_LAWS },
+          { id: "respondentIncome", label: "Monthly income of the person who should pay", kind: "amount" },
+          { id: "supportStopped", label: "Support stopped on", kind: "date" },
+        ],
+      },
+      {
+        id: "custody",
+        name: "Child Custody",
+        fields: [
+          {
+            id: "children",
+            label: "Children and their ages",
+            kind: "text",
+            placeholder: "e.g., two daughters, 4 and 9",
+          },
+          {
+            id: "currentCustody",
+            label: "The children live with",
+            kind: "select",
+            options: ["Mother", "Father", "Grandparents or other relatives"],
+          },
+          { id: "personalLaw", label: "Religion or personal law", kind: "select", options: PERSONAL_LAWS },
+        ],
+      },
+      {
+        id: "domestic-violence",
+        name: "Domestic Violence",
+        fields: [
+          {
+            id: "relationship",
+            label: "Your relationship to the respondent",
+            kind: "select",
+            options: [
+              "Wife",
+              "Live-in partner",
+              "Mother",
+              "Daughter or sister",
+              "Other woman in the household",
+            ],
+          },
+          { id: "lastIncident", label: "Date of the latest incident", kind: "date" },
+          {
+            id: "residence",
+            label: "The shared household",
+            kind: "select",
+            options: ["Still living there", "Left it", "Was thrown out of it"],
+          },
+          {
+            id: "policeComplaint",
+            label: "Complained to the police or a protection officer",
+            kind: "select",
+            options: YES_NO,
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: "labour",
+    name: "Labor",
+    subtypes: [
+      {
+        id: "termination",
+        name: "Wrongful Termination",
+        fields: [
+          { id: "joiningDate", label: "Date of joining", kind: "date" },
+          { id: "terminationDate", label: "Date of termination", kind: "date" },
+          { id: "monthlyWages", label: "Last monthly wages", kind: "amount" },
+          {
+            id: "noticeGiven",
+            label: "Notice or pay in lieu of notice given",
+            kind: "select",
+            options: YES_NO,
+          },
+        ],
+      },
+      {
+        id: "unpaid-wages",
+        name: "Unpaid Wages",
+        fields: [
+          { id: "wagesDue", label: "Wages due", kind: "amount" },
+          { id: "unpaidSince", label: "Unpaid since", kind: "date" },
+          { id: "employer", label: "Employer", kind: "text", placeholder: "e.g., factory, shop, contractor" },
+        ],
+      },
+      {
+        id: "harassment",
+        name: "Sexual Harassment at Work",
+        fields: [
+          { id: "incidentDate", label: "Date of the latest incident", kind: "date" },
+          {
+            id: "internalCommittee",
+            label: "Internal Committee",
+            kind: "select",
+            options: ["Complained to it", "Workplace has none", "Not complained yet"],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: "environment",
+    name: "Environmental",
+    subtypes: [
+      {
+        id: "pollution",
+        name: "Pollution",
+        fields: [
+          {
+            id: "pollutionSource",
+            label: "Source",
+            kind: "select",
+            options: ["Industry", "Construction", "Waste dumping or burning", "Noise"],
+          },
+          { id: "pollutionSince", label: "Going on since", kind: "date" },
+          {
+            id: "authorityApproached",
+            label: "Authority already approached",
+            kind: "text",
+            placeholder: "e.g., State Pollution Control Board",
+          },
+        ],
+      },
+      {
+        id: "forest-trees",
+        name: "Damage to Forests or Trees",
+        fields: [
+          { id: "damageDate", label: "Date the damage began", kind: "date" },
+          { id: "area", label: "Area affected", kind: "text", placeholder: "e.g., 2 acres of mangroves" },
+        ],
+      },
+    ],
+  },
+];
+
+const byId = new Map(CASE_TAXONOMY.map((category) => [category.id, category]));
+
+export const getCaseCategory = (id: string): CaseCategory | undefined => byId.get(id);
+
+export const getCaseSubtype = (category: CaseCategory, id?: string): CaseSubtype | undefined =>
+  id === undefined ? undefined : category.subtypes.find((subtype) => subtype.id === id);
+
+/** "Family Law: Divorce", or just the category before a sub-type is chosen */
+export const formatCaseType = (category: CaseCategory, subtype?: CaseSubtype): string =>
+  subtype ? `${category.name}: ${subtype.name}` : category.name;
+
+/** The answered fields of `subtype` as facts, amounts in rupees; blank ones are left out */
+export function intakeFacts(subtype: CaseSubtype, values: Record<string, string>): CaseFact[] {
+  return subtype.fields.flatMap(({ id, label, kind }) => {
+    const value = values[id]?.trim();
+    if (!value) return [];
+    return [{ label, value: kind === "amount" ? `₹${Number(value).toLocaleString("en-IN")}` : value }];
+  });
+}
+
+/**
+ * The consideration a consumer complaint's commission and fee go by: the
+ * `amountPaid` answer, not the compensation claimed
+ */
+export function considerationPaid(values: Record<string, string>): number | undefined {
+  const amount = Number(values.amountPaid);
+  return amount > 0 ? amount : undefined;
+}
@@ -0,0 +1,170 @@
+import type {
+  CaseAnalysisResponse,
+  ChatResponseItem,
+  StructuredChatResponse,
+} from "../advisor";
+import { CODE_REPLACEMENTS, convertSection, type CodeMapping } from "./codeMapping";
+import {
+  findStatute,
+  lookupSection,
+  normalizeSection,
+  STATUTES,
+  statuteTitle,
+  type SectionStatus,
+} from "./statutes";
+
+/** A section cited in an answer, checked against the statute index */
+export interface CitationCheck {
+  /** The citation as written, e.g. "Section 498A of the IPC" */
+  text: string;
+  /** Id of the act in the statute index, if it was recognised */
+  act?: string;
+  /** Title of the act as indexed, or as cited if it is not */
+  actTitle: string;
+  /** Usual short form of the act, e.g. "IPC" */
+  actShort: string;
+  section: string;
+  status: SectionStatus;
+  heading?: string;
+  /** Why a repealed section is no longer law */
+  note?: string;
+  /** Where a section of the IPC, CrPC or Evidence Act went in the 2023 codes */
+  equivalent?: CodeMapping;
+}
+
+/** Fields of a case analysis that are checked for citations */
+export type CaseAnalysisField =
+  | "legalAssessment"
+  | "keyIssues"
+  | "recommendedActions"
+  | "potentialRisks"
+  | "nextSteps";
+
+const CASE_ANALYSIS_FIELDS: CaseAnalysisField[] = [
+  "legalAssessment",
+  "keyIssues",
+  "recommendedActions",
+  "potentialRisks",
+  "nextSteps",
+];
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Longest first, so "BNSS" is not read as "BNS" followed by an "S"
+const ALIASES = [...new Set(STATUTES.flatMap((statute) => statute.aliases))]
+  .sort((a, b) => b.length - a.length)
+  .map(escape)
+  .join("|");
+
+const SECTION_WORD = String.raw`(?:sections?|secs?\.?|ss?\.|u\/s\.?)`;
+// "498A" or "498-A", then any sub-sections: "125(1)(a)"
+const SECTION = String.raw`\d+(?:-?[A-Z]{1,2})?\b(?:\(\w+\))*`;
+const SECTIONS = String.raw`${SECTION}(?:\s*(?:,|and|&|\/|or|to)\s*${SECTION})*`;
+const ACT = String.raw`(?:the\s+)?(${ALIASES})(?![A-Za-z])(?:,?\s*(1[89]\d\d|20\d\d))?`;
+
+// "Section 498A of the IPC", "ss. 3 and 4, Dowry Prohibition Act, 1961"
+const SECTIONS_THEN_ACT = new RegExp(
+  String.raw`\b${SECTION_WORD}\s*(${SECTIONS})\s*(?:of\s+|,\s*)?${ACT}`,
+  "gi"
+);
+// "IPC Section 420", "BNS s. 103"
+const ACT_THEN_SECTIONS = new RegExp(
+  String.raw`\b(${ALIASES})(?![A-Za-z])\s*,?\s*${SECTION_WORD}\s*(${SECTIONS})`,
+  "gi"
+);
+
+const splitSections = (sections: string) =>
+  sections.match(new RegExp(SECTION, "gi"))?.map(normalizeSection) ?? [];
+
+const check = (text: string, actName: string, section: string): CitationCheck => {
+  const statute = findStatute(actName);
+  if (!statute) return { text, actTitle: actName, actShort: actName, section, status: "unknown" };
+  const equivalent =
+    statute.id in CODE_REPLACEMENTS
+      ? convertSection(statute.id, section).find((mapping) => mapping.old.act === statute.id)
+      : undefined;
+  return {
+    text,
+    act: statute.id,
+    actTitle: statuteTitle(statute),
+    actShort: statute.aliases[0],
+    section,
+    ...lookupSection(statute, section),
+    ...(equivalent ? { equivalent } : {}),
+  };
+};
+
+/**
+ * Every section of a known act cited in `text`. Sections cited without an
+ * act are skipped: there is nothing to check them against.
+ */
+export function findCitations(text: string): CitationCheck[] {
+  const found: CitationCheck[] = [];
+  for (const match of text.matchAll(SECTIONS_THEN_ACT)) {
+    const [whole, sections, act, year = ""] = match;
+    for (const section of splitSections(sections)) found.push(check(whole, `${act} ${year}`, section));
+  }
+  for (const match of text.matchAll(ACT_THEN_SECTIONS)) {
+    const [whole, act, sections] = match;
+    for (const section of splitSections(sections)) found.push(check(whole, act, section));
+  }
+  return dedupe(found);
+}
+
+const dedupe = (citations: CitationCheck[]) => {
+  const seen = new Set<string>();
+  return citations.filter(({ act, actTitle, section }) => {
+    const key = `${act ?? actTitle}:${section}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/** Citations of one chat item: a "citation" item's own act, plus any in its text */
+function itemCitations(item: ChatResponseItem): CitationCheck[] {
+  const cited =
+    item.type === "citation" && item.act && item.section
+      ? splitSections(item.section).map((section) =>
+          check(`${item.section}, ${item.act}`, item.act!, section)
+        )
+      : [];
+  const text = [
+    item.title,
+    item.content,
+    ...(item.items ?? []),
+    ...(item.rows?.flat() ?? []),
+    ...(item.events?.map(({ when, event }) => `${when} ${event}`) ?? []),
+  ]
+    .filter(Boolean)
+    .join("\n");
+  return dedupe([...cited, ...findCitations(text)]);
+}
+
+/**
+ * Mark every cited section of a chat answer as verified, unknown or
+ * repealed, in `citations` on the item that cites it
+ */
+export function annotateCitations(response: StructuredChatResponse): StructuredChatResponse {
+  return {
+    ...response,
+    content: response.content.map((item) => {
+      const citations = itemCitations(item);
+      return citations.length ? { ...item, citations } : item;
+    }),
+  };
+}
+
+/**
+ * Same as `annotateCitations`, keyed by the field of the analysis that
+ * cites the section
+ */
+export function annotateCaseCitations(response: CaseAnalysisResponse): CaseAnalysisResponse {
+  const citations: Partial<Record<CaseAnalysisField, CitationCheck[]>> = {};
+  for (const field of CASE_ANALYSIS_FIELDS) {
+    const value = response[field];
+    const found = findCitations(Array.isArray(value) ? value.join("\n") : value);
+    if (found.length) citations[field] = found;
+  }
+  return { ...response, citations };
+}
@@ -0,0 +1,252 @@
+import { getStatute, normalizeSection } from "./statutes";
+
+/**
+ * Where the sections most often asked about went when the IPC, CrPC and
+ * Evidence Act were replaced by the BNS, BNSS and BSA on 1 July 2024. The
+ * table is deliberate rather than exhaustive: a section missing from it
+ * has no known counterpart here, not necessarily none at all. New-code
+ * sections keep their sub-section, e.g. IPC 302 is BNS 103(1).
+ */
+
+export interface CodeSection {
+  /** Id of the act in the statute index */
+  act: string;
+  /** Section with any sub-section, e.g. "103(1)" */
+  section: string;
+}
+
+export interface CodeMapping {
+  old: CodeSection;
+  /** Missing when the offence or provision was dropped */
+  new?: CodeSection;
+  heading: string;
+  /** What changed, or why there is no counterpart */
+  note?: string;
+}
+
+/** Old code and the code that replaced it */
+export const CODE_REPLACEMENTS: Record<string, string> = {
+  ipc: "bns",
+  crpc: "bnss",
+  iea: "bsa",
+};
+
+type Row = [old: string, new: string | null, heading: string, note?: string];
+
+const IPC_TO_BNS: Row[] = [
+  ["34", "3(5)", "Acts done by several persons in furtherance of common intention"],
+  ["107", "45", "Abetment of a thing"],
+  ["109", "49", "Punishment of abetment if the act abetted is committed in consequence"],
+  ["120A", "61(1)", "Definition of criminal conspiracy"],
+  ["120B", "61(2)", "Punishment of criminal conspiracy"],
+  ["121", "147", "Waging, or attempting to wage war, or abetting waging of war, against the Government of India"],
+  [
+    "124A",
+    "152",
+    "Sedition",
+    "Sedition is not an offence in the BNS; section 152 punishes acts endangering the sovereignty, unity and integrity of India instead",
+  ],
+  ["141", "189(1)", "Unlawful assembly"],
+  ["147", "191(2)", "Punishment for rioting"],
+  ["153A", "196", "Promoting enmity between different groups"],
+  ["191", "227", "Giving false evidence"],
+  ["193", "229", "Punishment for false evidence"],
+  ["279", "281", "Rash driving or riding on a public way"],
+  ["292", "294", "Sale, etc., of obscene books, etc."],
+  ["299", "100", "Culpable homicide"],
+  ["300", "101", "Murder"],
+  ["302", "103(1)", "Punishment for murder"],
+  ["304", "105", "Punishment for culpable homicide not amounting to murder"],
+  ["304A", "106(1)", "Causing death by negligence"],
+  ["304B", "80", "Dowry death"],
+  ["306", "108", "Abetment of suicide"],
+  ["307", "109", "Attempt to murder"],
+  ["308", "110", "Attempt to commit culpable homicide"],
+  ["309", null, "Attempt to commit suicide", "Attempting suicide is not an offence under the BNS"],
+  ["312", "88", "Causing miscarriage"],
+  ["319", "114", "Hurt"],
+  ["320", "116", "Grievous hurt"],
+  ["323", "115(2)", "Punishment for voluntarily causing hurt"],
+  ["324", "118(1)", "Voluntarily causing hurt by dangerous weapons or means"],
+  ["325", "117(2)", "Punishment for voluntarily causing grievous hurt"],
+  ["326", "118(2)", "Voluntarily causing grievous hurt by dangerous weapons or means"],
+  ["326A", "124(1)", "Voluntarily causing grievous hurt by use of acid, etc."],
+  ["339", "126(1)", "Wrongful restraint"],
+  ["340", "127(1)", "Wrongful confinement"],
+  ["341", "126(2)", "Punishment for wrongful restraint"],
+  ["342", "127(2)", "Punishment for wrongful confinement"],
+  ["351", "130", "Assault"],
+  ["354", "74", "Assault or criminal force to woman with intent to outrage her modesty"],
+  ["354A", "75", "Sexual harassment"],
+  ["354B", "76", "Assault or use of criminal force to woman with intent to disrobe"],
+  ["354C", "77", "Voyeurism"],
+  ["354D", "78", "Stalking"],
+  ["363", "137(2)", "Punishment for kidnapping"],
+  ["364A", "140(2)", "Kidnapping for ransom, etc."],
+  ["366", "87", "Kidnapping, abducting or inducing woman to compel her marriage, etc."],
+  ["370", "143", "Trafficking of person"],
+  ["375", "63", "Rape"],
+  ["376", "64", "Punishment for rape"],
+  ["376D", "70(1)", "Gang rape"],
+  [
+    "377",
+    null,
+    "Unnatural offences",
+    "The section had already been read down in Navtej Singh Johar v. Union of India (2018)",
+  ],
+  ["378", "303(1)", "Theft"],
+  ["379", "303(2)", "Punishment for theft"],
+  ["380", "305", "Theft in a dwelling house, or means of transportation or place of worship, etc."],
+  ["383", "308(1)", "Extortion"],
+  ["384", "308(2)", "Punishment for extortion"],
+  ["390", "309(1)", "Robbery"],
+  ["392", "309(4)", "Punishment for robbery"],
+  ["395", "310(2)", "Punishment for dacoity"],
+  ["403", "314", "Dishonest misappropriation of property"],
+  ["405", "316(1)", "Criminal breach of trust"],
+  ["406", "316(2)", "Punishment for criminal breach of trust"],
+  ["409", "316(5)", "Criminal breach of trust by public servant, or by banker, merchant or agent"],
+  ["411", "317(2)", "Dishonestly receiving stolen property"],
+  ["415", "318(1)", "Cheating"],
+  ["417", "318(2)", "Punishment for cheating"],
+  ["419", "319(2)", "Punishment for cheating by personation"],
+  ["420", "318(4)", "Cheating and dishonestly inducing delivery of property"],
+  ["425", "324(1)", "Mischief"],
+  ["427", "324(4)", "Mischief causing damage to the amount of fifty rupees"],
+  ["441", "329(1)", "Criminal trespass"],
+  ["447", "329(3)", "Punishment for criminal trespass"],
+  ["448", "329(4)", "Punishment for house-trespass"],
+  ["463", "336(1)", "Forgery"],
+  ["465", "336(2)", "Punishment for forgery"],
+  ["467", "338", "Forgery of valuable security, will, etc."],
+  ["468", "336(3)", "Forgery for purpose of cheating"],
+  ["471", "340(2)", "Using as genuine a forged document or electronic record"],
+  ["494", "82(1)", "Marrying again during lifetime of husband or wife"],
+  [
+    "497",
+    null,
+    "Adultery",
+    "Struck down in Joseph Shine v. Union of India (2018)",
+  ],
+  ["498", "84", "Enticing or taking away or detaining with criminal intent a married woman"],
+  ["498A", "85", "Husband or relative of husband of a woman subjecting her to cruelty", "Cruelty itself is defined in BNS 86"],
+  ["499", "356(1)", "Defamation"],
+  ["500", "356(2)", "Punishment for defamation"],
+  ["503", "351(1)", "Criminal intimidation"],
+  ["506", "351(2)", "Punishment for criminal intimidation", "Threats to cause death or grievous hurt fall under 351(3)"],
+  ["509", "79", "Word, gesture or act intended to insult modesty of a woman"],
+  ["511", "62", "Punishment for attempting to commit offences"],
+];
+
+const CRPC_TO_BNSS: Row[] = [
+  ["41", "35", "When police may arrest without warrant"],
+  ["41A", "35(3)", "Notice of appearance before police officer"],
+  ["46", "43", "Arrest how made"],
+  ["50", "47", "Person arrested to be informed of grounds of arrest and of right to bail"],
+  ["57", "58", "Person arrested not to be detained more than twenty-four hours"],
+  ["125", "144", "Order for maintenance of wives, children and parents"],
+  ["144", "163", "Power to issue order in urgent cases of nuisance or apprehended danger"],
+  ["145", "164", "Procedure where dispute concerning land or water is likely to cause breach of peace"],
+  ["154", "173", "Information in cognizable cases", "The BNSS adds e-FIRs and a zero FIR regardless of where the offence took place"],
+  ["155", "174", "Information as to non-cognizable cases and investigation of such cases"],
+  ["156", "175", "Police officer's power to investigate cognizable case"],
+  ["157", "176", "Procedure for investigation"],
+  ["160", "179", "Police officer's power to require attendance of witnesses"],
+  ["161", "180", "Examination of witnesses by police"],
+  ["164", "183", "Recording of confessions and statements"],
+  ["167", "187", "Procedure when investigation cannot be completed in twenty-four hours"],
+  ["173", "193", "Report of police officer on completion of investigation"],
+  ["174", "194", "Police to enquire and report on suicide, etc."],
+  ["190", "210", "Cognizance of offences by Magistrates"],
+  ["197", "218", "Prosecution of Judges and public servants"],
+  ["200", "223", "Examination of complainant", "The accused must now be heard before the Magistrate takes cognizance"],
+  ["204", "227", "Issue of process"],
+  ["313", "351", "Power to examine the accused"],
+  ["320", "359", "Compounding of offences"],
+  ["374", "415", "Appeals from convictions"],
+  ["397", "438", "Calling for records to exercise powers of revision"],
+  ["436", "478", "In what cases bail to be taken"],
+  ["436A", "479", "Maximum period for which undertrial prisoner can be detained", "First-time offenders are released after one-third of the maximum sentence"],
+  ["437", "480", "When bail may be taken in case of non-bailable offence"],
+  ["438", "482", "Direction for grant of bail to person apprehending arrest"],
+  ["439", "483", "Special powers of High Court or Court of Session regarding bail"],
+  ["468", "514", "Bar to taking cognizance after lapse of the period of limitation"],
+  ["482", "528", "Saving of inherent powers of High Court"],
+];
+
+const IEA_TO_BSA: Row[] = [
+  ["3", "2", "Interpretation clause"],
+  ["17", "15", "Admission defined"],
+  ["24", "22", "Confession caused by inducement, threat or promise, when irrelevant in criminal proceeding"],
+  ["25", "23(1)", "Confession to police officer not to be proved"],
+  ["26", "23(2)", "Confession by accused while in custody of police not to be proved against him"],
+  ["27", "23(2)", "How much of information received from accused may be proved", "Now the proviso to 23(2)"],
+  ["32", "26", "Cases in which statement of relevant fact by person who is dead or cannot be found, etc., is relevant"],
+  ["45", "39", "Opinions of experts"],
+  ["61", "56", "Proof of contents of documents"],
+  ["62", "57", "Primary evidence"],
+  ["63", "58", "Secondary evidence"],
+  ["65", "60", "Cases in which secondary evidence relating to documents may be given"],
+  ["65A", "62", "Special provisions as to evidence relating to electronic record"],
+  ["65B", "63", "Admissibility of electronic records", "The certificate now follows a form in the Schedule to the BSA"],
+  ["101", "104", "Burden of proof"],
+  ["103", "106", "Burden of proof as to particular fact"],
+  ["106", "109", "Burden of proving fact especially within knowledge"],
+  ["113A", "117", "Presumption as to abetment of suicide by a married woman"],
+  ["113B", "118", "Presumption as to dowry death"],
+  ["114", "119", "Court may presume existence of certain facts"],
+  ["118", "124", "Who may testify"],
+  ["132", "137", "Witness not excused from answering on ground that answer will criminate"],
+  ["137", "142", "Examination-in-chief, cross-examination and re-examination"],
+  ["145", "148", "Cross-examination as to previous statements in writing"],
+  ["154", "157", "Question by party to his own witness"],
+  ["165", "168", "Judge's power to put questions or order production"],
+];
+
+const toMappings = (oldAct: string, rows: Row[]): CodeMapping[] =>
+  rows.map(([oldSection, newSection, heading, note]) => ({
+    old: { act: oldAct, section: oldSection },
+    ...(newSection ? { new: { act: CODE_REPLACEMENTS[oldAct], section: newSection } } : {}),
+    heading,
+    ...(note ? { note } : {}),
+  }));
+
+export const CODE_MAPPINGS: CodeMapping[] = [
+  ...toMappings("ipc", IPC_TO_BNS),
+  ...toMappings("crpc", CRPC_TO_BNSS),
+  ...toMappings("iea", IEA_TO_BSA),
+];
+
+/** Whether `act` is one of the codes replaced in 2024, or one that replaced them */
+export const isConvertible = (act: string) =>
+  act in CODE_REPLACEMENTS || Object.values(CODE_REPLACEMENTS).includes(act);
+
+/**
+ * Mappings for `section` of `act`, from either side: IPC 420 finds BNS
+ * 318(4), and BNS 318 finds IPC 415, 417 and 420. Sub-sections are ignored
+ * when matching.
+ */
+export function convertSection(act: string, section: string): CodeMapping[] {
+  const wanted = normalizeSection(section);
+  return CODE_MAPPINGS.filter((mapping) => {
+    const side = mapping.old.act === act ? mapping.old : mapping.new?.act === act ? mapping.new : undefined;
+    return side !== undefined && normalizeSection(side.section) === wanted;
+  });
+}
+
+/** Mappings whose heading or section contains `query`, for the converter's search */
+export function searchMappings(query: string, act?: string): CodeMapping[] {
+  const wanted = query.trim().toLowerCase();
+  return CODE_MAPPINGS.filter(
+    (mapping) =>
+      (!act || mapping.old.act === act || mapping.new?.act === act) &&
+      (mapping.heading.toLowerCase().includes(wanted) ||
+        [mapping.old, mapping.new].some(
+          (side) => side && (!act || side.act === act) && side.section.toLowerCase().startsWith(wanted)
+        ))
+  );
+}
+
+/** "BNS s. 103(1)" */
+export const formatCodeSection = ({ act, section }: CodeSection): string =>
+  `${getStatute(act)?.aliases[0] ?? act.toUpperCase()} s. ${section}`;
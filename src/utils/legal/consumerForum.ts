@@ -0,0 +1,133 @@
+import { consumerCommissionFee, findFeeSchedule } from "./fees";
+import { getDistrict, getJurisdiction, type Jurisdiction } from "./jurisdictions";
+
+/**
+ * Which consumer commission a complaint goes to under the Consumer
+ * Protection Act, 2019, and where it can be filed. Pecuniary limits are
+ * those of the Consumer Protection (Jurisdiction of the District
+ * Commission, the State Commission and the National Commission) Rules,
+ * 2021, and are measured by the consideration paid, not the compensation
+ * claimed.
+ */
+
+export type ConsumerCommission = "district" | "state" | "national";
+
+export interface ConsumerForumInput {
+  /** Value of the goods or services paid as consideration, in rupees */
+  consideration: number;
+  /** Where the complainant lives or works */
+  complainantLocation: string;
+  /** The complainant's district and state, when chosen from `JURISDICTIONS` */
+  complainantJurisdiction?: Jurisdiction;
+  /** Where the opposite party lives, carries on business or has a branch */
+  oppositePartyLocation?: string;
+}
+
+export interface ConsumerForum {
+  commission: ConsumerCommission;
+  name: string;
+  /** The pecuniary band, e.g. "Up to ₹50 lakh" */
+  limit: string;
+  /** Provision the commission's jurisdiction comes from */
+  source: string;
+  /** Places the complaint can be filed, each with the clause that allows it */
+  territorial: string[];
+  fee: number;
+  appeal: string;
+}
+
+export const E_DAAKHIL_URL = "https://edaakhil.nic.in";
+
+/** What e-Daakhil asks for, in order; the same for every commission */
+export const E_DAAKHIL_STEPS = [
+  "Register on e-Daakhil with an email address and mobile number, and verify both",
+  "Choose the commission, then enter the details of the complainant and every opposite party",
+  "Upload the complaint, signed, with an index and a list of dates",
+  "Upload an affidavit in support of the complaint, and a memo of parties",
+  "Upload the bills, receipts, warranty, correspondence and any legal notice relied on",
+  "Pay the fee online, if one is payable, and note the filing reference for hearings",
+];
+
+interface CommissionRule {
+  commission: ConsumerCommission;
+  name: string;
+  /** Highest consideration the commission hears */
+  upTo: number;
+  limit: string;
+  source: string;
+  appeal: string;
+}
+
+const COMMISSIONS: CommissionRule[] = [
+  {
+    commission: "district",
+    name: "District Consumer Disputes Redressal Commission",
+    upTo: 50_00_000,
+    limit: "Up to ₹50 lakh",
+    source: "Consumer Protection Act, 2019, Section 34",
+    appeal: "Appeal to the State Commission within 45 days of the order (section 41)",
+  },
+  {
+    commission: "state",
+    name: "State Consumer Disputes Redressal Commission",
+    upTo: 2_00_00_000,
+    limit: "Above ₹50 lakh, up to ₹2 crore",
+    source: "Consumer Protection Act, 2019, Section 47",
+    appeal: "Appeal to the National Commission within 30 days of the order (section 51)",
+  },
+  {
+    commission: "national",
+    name: "National Consumer Disputes Redressal Commission",
+    upTo: Infinity,
+    limit: "Above ₹2 crore",
+    source: "Consumer Protection Act, 2019, Section 58",
+    appeal: "Appeal to the Supreme Court within 30 days of the order (section 67)",
+  },
+];
+
+/** "Mumbai" becomes "Maharashtra" where the state is known */
+const stateOf = (location: string) => findFeeSchedule(location)?.state ?? location.trim();
+
+/** The complainant's district or state by name, from the jurisdiction where there is one */
+function complainantPlace(
+  commission: ConsumerCommission,
+  { complainantLocation, complainantJurisdiction }: ConsumerForumInput
+): string {
+  const state = complainantJurisdiction && getJurisdiction(complainantJurisdiction.state);
+  if (!state) return commission === "district" ? complainantLocation.trim() : stateOf(complainantLocation);
+  if (commission === "state") return state.name;
+  return getDistrict(state, complainantJurisdiction.district)?.name ?? state.name;
+}
+
+function territorialOptions(commission: ConsumerCommission, input: ConsumerForumInput): string[] {
+  if (commission === "national") {
+    return ["New Delhi: the National Commission sits only there, though hearings can be held by video"];
+  }
+
+  const { oppositePartyLocation } = input;
+  const clause = commission === "district" ? "34(2)" : "47(4)";
+  const place = commission === "district" ? (location: string) => location.trim() : stateOf;
+  const complainant = complainantPlace(commission, input);
+  const samePlace = oppositePartyLocation && place(oppositePartyLocation) === complainant;
+  return [
+    `${complainant}, where you live or work (section ${clause}(d))`,
+    ...(oppositePartyLocation?.trim() && !samePlace
+      ? [`${place(oppositePartyLocation)}, where the opposite party carries on business or has a branch (section ${clause}(a))`]
+      : []),
+    `Wherever the cause of action arose, wholly or in part (section ${clause}(c))`,
+  ];
+}
+
+/** The commission a complaint of `input.consideration` goes to, and where it can be filed */
+export function selectConsumerForum(input: ConsumerForumInput): ConsumerForum {
+  const rule = COMMISSIONS.find(({ upTo }) => input.consideration <= upTo)!;
+  return {
+    commission: rule.commission,
+    name: rule.name,
+    limit: rule.limit,
+    source: rule.source,
+    territorial: territorialOptions(rule.commission, input),
+    fee: consumerCommissionFee(input.consideration),
+    appeal: rule.appeal,
+  };
+}
@@ -0,0 +1,350 @@
+import { getStatute, lookupSection } from "./statutes";
+
+/**
+ * Abridged text of the in-force sections questions most often turn on,
+ * bundled so that answers can be grounded without a network call. Long
+ * sections are cut down to their operative part, marked with "…"; check
+ * the full text on India Code before relying on an excerpt.
+ */
+
+export interface Passage {
+  /** Act id and section, e.g. "bns-103" */
+  id: string;
+  /** Id of the act in the statute index */
+  act: string;
+  section: string;
+  heading?: string;
+  text: string;
+}
+
+type Excerpt = [act: string, section: string, text: string, heading?: string];
+
+const EXCERPTS: Excerpt[] = [
+  // Bharatiya Nyaya Sanhita, 2023
+  [
+    "bns",
+    "64",
+    "(1) Whoever commits rape shall be punished with rigorous imprisonment of either description for a term which shall not be less than ten years, but which may extend to imprisonment for life, and shall also be liable to fine. …",
+  ],
+  [
+    "bns",
+    "75",
+    "(1) A man committing any of the following acts: (i) physical contact and advances involving unwelcome and explicit sexual overtures; or (ii) a demand or request for sexual favours; or (iii) showing pornography against the will of a woman; or (iv) making sexually coloured remarks, shall be guilty of the offence of sexual harassment. …",
+  ],
+  [
+    "bns",
+    "80",
+    "(1) Where the death of a woman is caused by any burns or bodily injury or occurs otherwise than under normal circumstances within seven years of her marriage and it is shown that soon before her death she was subjected to cruelty or harassment by her husband or any relative of her husband for, or in connection with, any demand for dowry, such death shall be called \"dowry death\". (2) Whoever commits dowry death shall be punished with imprisonment for a term which shall not be less than seven years but which may extend to imprisonment for life.",
+  ],
+  [
+    "bns",
+    "85",
+    "Whoever, being the husband or the relative of the husband of a woman, subjects such woman to cruelty shall be punished with imprisonment for a term which may extend to three years and shall also be liable to fine.",
+  ],
+  [
+    "bns",
+    "86",
+    "For the purposes of section 85, \"cruelty\" means (a) any wilful conduct which is of such a nature as is likely to drive the woman to commit suicide or to cause grave injury or danger to life, limb or health (whether mental or physical) of the woman; or (b) harassment of the woman where such harassment is with a view to coercing her or any person related to her to meet any unlawful demand for any property or valuable security. …",
+    "Cruelty defined",
+  ],
+  [
+    "bns",
+    "103",
+    "(1) Whoever commits murder shall be punished with death or imprisonment for life, and shall also be liable to fine. (2) When a group of five or more persons acting in concert commits murder on the ground of race, caste or community, sex, place of birth, language, personal belief or any other similar ground each member of such group shall be punished with death or with imprisonment for life, and shall also be liable to fine.",
+  ],
+  [
+    "bns",
+    "106",
+    "(1) Whoever causes death of any person by doing any rash or negligent act not amounting to culpable homicide, shall be punished with imprisonment of either description for a term which may extend to five years, and shall also be liable to fine; and if such act is done by a registered medical practitioner while performing medical procedure, he shall be punished with imprisonment of either description for a term which may extend to two years, and shall also be liable to fine. …",
+  ],
+  [
+    "bns",
+    "303",
+    "(1) Whoever, intending to take dishonestly any movable property out of the possession of any person without that person's consent, moves that property in order to such taking, is said to commit theft. … (2) Whoever commits theft shall be punished with imprisonment of either description for a term which may extend to three years, or with fine, or with both …",
+  ],
+  [
+    "bns",
+    "316",
+    "(1) Whoever, being in any manner entrusted with property, or with any dominion over property, dishonestly misappropriates or converts to his own use that property, or dishonestly uses or disposes of that property in violation of any direction of law or of any legal contract … commits \"criminal breach of trust\". (2) Whoever commits criminal breach of trust shall be punished with imprisonment of either description for a term which may extend to five years, or with fine, or with both. …",
+  ],
+  [
+    "bns",
+    "318",
+    "(1) Whoever, by deceiving any person, fraudulently or dishonestly induces the person so deceived to deliver any property to any person, or to consent that any person shall retain any property, … is said to \"cheat\". … (4) Whoever cheats and thereby dishonestly induces the person deceived to deliver any property to any person … shall be punished with imprisonment of either description for a term which may extend to seven years, and shall also be liable to fine.",
+  ],
+  [
+    "bns",
+    "351",
+    "(1) Whoever threatens another by any means, with any injury to his person, reputation or property, or to the person or reputation of any one in whom that person is interested, with intent to cause alarm to that person, or to cause that person to do any act which he is not legally bound to do, … commits criminal intimidation. (2) Whoever commits the offence of criminal intimidation shall be punished with imprisonment of either description for a term which may extend to two years, or with fine, or with both. …",
+  ],
+  [
+    "bns",
+    "356",
+    "(1) Whoever, by words either spoken or intended to be read, or by signs or by visible representations, makes or publishes in any manner, any imputation concerning any person intending to harm, or knowing or having reason to believe that such imputation will harm, the reputation of such person, is said … to defame that person. … (2) Whoever defames another shall be punished with simple imprisonment for a term which may extend to two years, or with fine, or with both, or with community service.",
+  ],
+
+  // Bharatiya Nagarik Suraksha Sanhita, 2023
+  [
+    "bnss",
+    "35",
+    "(1) Any police officer may without an order from a Magistrate and without a warrant, arrest any person (a) who commits, in the presence of a police officer, a cognizable offence; (b) against whom a reasonable complaint has been made, or credible information has been received, or a reasonable suspicion exists that he has committed a cognizable offence punishable with imprisonment for a term which may be less than seven years … if the police officer is satisfied that such arrest is necessary. … (3) The police officer shall, in all cases where the arrest of a person is not required under sub-section (1), issue a notice directing the person … to appear before him. …",
+  ],
+  [
+    "bnss",
+    "144",
+    "(1) If any person having sufficient means neglects or refuses to maintain (a) his wife, unable to maintain herself; or (b) his legitimate or illegitimate child, whether married or not, unable to maintain itself; … or (d) his father or mother, unable to maintain himself or herself, a Magistrate of the first class may, upon proof of such neglect or refusal, order such person to make a monthly allowance for the maintenance … at such monthly rate, as such Magistrate thinks fit. …",
+  ],
+  [
+    "bnss",
+    "173",
+    "(1) Every information relating to the commission of a cognizable offence, irrespective of the area where the offence is committed, may be given orally or by electronic communication to an officer in charge of a police station. … (2) A copy of the information as recorded … shall be given forthwith, free of cost, to the informant or the victim. … (4) Any person aggrieved by a refusal on the part of an officer in charge of a police station to record the information … may send the substance of such information, in writing and by post, to the Superintendent of Police concerned. …",
+  ],
+  [
+    "bnss",
+    "187",
+    "(1) Whenever any person is arrested and detained in custody and it appears that the investigation cannot be completed within the period of twenty-four hours …, the officer in charge of the police station … shall forthwith transmit to the nearest Judicial Magistrate a copy of the entries in the diary … and shall at the same time forward the accused to such Magistrate. … (3) … no Magistrate shall authorise the detention of the accused person in custody for a total period exceeding (i) ninety days, where the investigation relates to an offence punishable with death, imprisonment for life or imprisonment for a term of ten years or more; (ii) sixty days, where the investigation relates to any other offence, and, on the expiry of the said period …, the accused person shall be released on bail if he is prepared to and does furnish bail. …",
+  ],
+  [
+    "bnss",
+    "479",
+    "(1) Where a person has, during the period of investigation, inquiry or trial under this Sanhita of an offence under any law (not being an offence for which the punishment of death or life imprisonment has been specified as one of the punishments under that law) undergone detention for a period extending up to one-half of the maximum period of imprisonment specified for that offence under that law, he shall be released by the Court on bail: Provided that where such person is a first-time offender … he shall be released on bond by the Court, if he has undergone detention for the period extending up to one-third of the maximum period of imprisonment specified for such offence under that law. …",
+  ],
+  [
+    "bnss",
+    "480",
+    "(1) When any person accused of, or suspected of, the commission of any non-bailable offence is arrested or detained without warrant by an officer in charge of a police station or appears or is brought before a Court other than the High Court or Court of Session, he may be released on bail, but such person shall not be so released if there appear reasonable grounds for believing that he has been guilty of an offence punishable with death or imprisonment for life. …",
+  ],
+  [
+    "bnss",
+    "482",
+    "(1) When any person has reason to believe that he may be arrested on an accusation of having committed a non-bailable offence, he may apply to the High Court or the Court of Session for a direction under this section that in the event of such arrest, he shall be released on bail. (2) When the High Court or the Court of Session makes a direction under sub-section (1), it may include such conditions in such directions in the light of the facts of the particular case, as it may think fit. …",
+  ],
+  [
+    "bnss",
+    "528",
+    "Nothing in this Sanhita shall be deemed to limit or affect the inherent powers of the High Court to make such orders as may be necessary to give effect to any order under this Sanhita, or to prevent abuse of the process of any Court or otherwise to secure the ends of justice.",
+  ],
+
+  // Bharatiya Sakshya Adhiniyam, 2023
+  [
+    "bsa",
+    "63",
+    "(1) Notwithstanding anything contained in this Adhiniyam, any information contained in an electronic record which is printed on paper, stored, recorded or copied in optical or magnetic media or semiconductor memory which is produced by a computer or any communication device … shall be deemed to be also a document, if the conditions mentioned in this section are satisfied … and shall be admissible in any proceedings, without further proof or production of the original. … (4) In any proceeding where it is desired to give a statement in evidence by virtue of this section, a certificate … shall be submitted along with the electronic record at each instance where it is being submitted for admission. …",
+  ],
+  [
+    "bsa",
+    "118",
+    "When the question is whether a person has committed the dowry death of a woman and it is shown that soon before her death such woman had been subjected by such person to cruelty or harassment for, or in connection with, any demand for dowry, the Court shall presume that such person had caused the dowry death.",
+  ],
+
+  // Consumer Protection Act, 2019
+  [
+    "cpa2019",
+    "34",
+    "(1) Subject to the other provisions of this Act, the District Commission shall have jurisdiction to entertain complaints where the value of the goods or services paid as consideration does not exceed one crore rupees. … (2) A complaint shall be instituted in a District Commission within the local limits of whose jurisdiction (a) the opposite party … ordinarily resides or carries on business or has a branch office or personally works for gain; or … (d) the complainant resides or personally works for gain. …",
+    "Jurisdiction of District Commission",
+  ],
+  [
+    "cpa2019",
+    "35",
+    "(1) A complaint, in relation to any goods sold or delivered or agreed to be sold or delivered or any service provided or agreed to be provided, may be filed with a District Commission by (a) the consumer … ; (b) any recognised consumer association …; (c) one or more consumers, where there are numerous consumers having the same interest …; (d) the Central Government, the Central Authority or the State Government …. (2) Every complaint filed under sub-section (1) shall be accompanied with such amount of fee and payable in such manner, including electronic form, as may be prescribed.",
+    "Manner in which complaint shall be made",
+  ],
+  [
+    "cpa2019",
+    "69",
+    "(1) The District Commission, the State Commission or the National Commission shall not admit a complaint unless it is filed within two years from the date on which the cause of action has arisen. (2) Notwithstanding anything contained in sub-section (1), a complaint may be entertained after the period specified in sub-section (1), if the complainant satisfies … that he had sufficient cause for not filing the complaint within such period: Provided that no such complaint shall be entertained unless the … Commission … records its reasons for condoning such delay.",
+    "Limitation period",
+  ],
+
+  // Hindu Marriage Act, 1955
+  [
+    "hma",
+    "13",
+    "(1) Any marriage solemnized, whether before or after the commencement of this Act, may, on a petition presented by either the husband or the wife, be dissolved by a decree of divorce on the ground that the other party (i) has, after the solemnization of the marriage, had voluntary sexual intercourse with any person other than his or her spouse; or (ia) has, after the solemnization of the marriage, treated the petitioner with cruelty; or (ib) has deserted the petitioner for a continuous period of not less than two years immediately preceding the presentation of the petition; or (ii) has ceased to be a Hindu by conversion to another religion; or (iii) has been incurably of unsound mind …. …",
+  ],
+  [
+    "hma",
+    "13B",
+    "(1) Subject to the provisions of this Act a petition for dissolution of marriage by a decree of divorce may be presented to the district court by both the parties to a marriage together … on the ground that they have been living separately for a period of one year or more, that they have not been able to live together and that they have mutually agreed that the marriage should be dissolved. (2) On the motion of both the parties made not earlier than six months after the date of the presentation of the petition … and not later than eighteen months after the said date, if the petition is not withdrawn in the meantime, the court shall … pass a decree of divorce …",
+    "Divorce by mutual consent",
+  ],
+  [
+    "hma",
+    "24",
+    "Where in any proceeding under this Act it appears to the court that either the wife or the husband, as the case may be, has no independent income sufficient for her or his support and the necessary expenses of the proceeding, it may, on the application of the wife or the husband, order the respondent to pay to the petitioner the expenses of the proceeding, and monthly during the proceeding such sum as, having regard to the petitioner's own income and the income of the respondent, it may seem to the court to be reasonable. …",
+    "Maintenance pendente lite and expenses of proceedings",
+  ],
+  [
+    "hma",
+    "25",
+    "(1) Any court exercising jurisdiction under this Act may, at the time of passing any decree or at any time subsequent thereto, on application made to it for the purpose by either the wife or the husband, as the case may be, order that the respondent shall pay to the applicant for her or his maintenance and support such gross sum or such monthly or periodical sum for a term not exceeding the life of the applicant as, having regard to the respondent's own income and other property, if any, the income and other property of the applicant, the conduct of the parties and other circumstances of the case, it may seem to the court to be just. …",
+    "Permanent alimony and maintenance",
+  ],
+
+  // Protection of Women from Domestic Violence Act, 2005
+  [
+    "dv",
+    "12",
+    "(1) An aggrieved person or a Protection Officer or any other person on behalf of the aggrieved person may present an application to the Magistrate seeking one or more reliefs under this Act: Provided that before passing any order on such application, the Magistrate shall take into consideration any domestic incident report received by him from the Protection Officer or the service provider. … (5) The Magistrate shall endeavour to dispose of every application … within a period of sixty days from the date of its first hearing.",
+    "Application to Magistrate",
+  ],
+  [
+    "dv",
+    "17",
+    "(1) Notwithstanding anything contained in any other law for the time being in force, every woman in a domestic relationship shall have the right to reside in the shared household, whether or not she has any right, title or beneficial interest in the same. (2) The aggrieved person shall not be evicted or excluded from the shared household or any part of it by the respondent save in accordance with the procedure established by law.",
+    "Right to reside in a shared household",
+  ],
+  [
+    "dv",
+    "18",
+    "The Magistrate may, after giving the aggrieved person and the respondent an opportunity of being heard and on being prima facie satisfied that domestic violence has taken place or is likely to take place, pass a protection order in favour of the aggrieved person and prohibit the respondent from (a) committing any act of domestic violence; … (d) attempting to communicate in any form, whatsoever, with the aggrieved person …; (e) alienating any assets, operating bank lockers or bank accounts used or held or enjoyed by both the parties …",
+    "Protection orders",
+  ],
+
+  // Negotiable Instruments Act, 1881
+  [
+    "ni",
+    "138",
+    "Where any cheque drawn by a person on an account maintained by him with a banker for payment of any amount of money to another person from out of that account for the discharge, in whole or in part, of any debt or other liability, is returned by the bank unpaid, either because of the amount of money standing to the credit of that account is insufficient to honour the cheque or that it exceeds the amount arranged to be paid from that account …, such person shall be deemed to have committed an offence and shall … be punished with imprisonment for a term which may be extended to two years, or with fine which may extend to twice the amount of the cheque, or with both: Provided that nothing contained in this section shall apply unless (a) the cheque has been presented to the bank within a period of six months from the date on which it is drawn or within the period of its validity, whichever is earlier; (b) the payee … makes a demand for the payment of the said amount of money by giving a notice in writing, to the drawer of the cheque, within thirty days of the receipt of information by him from the bank regarding the return of the cheque as unpaid; and (c) the drawer of such cheque fails to make the payment of the said amount of money … within fifteen days of the receipt of the said notice.",
+  ],
+  [
+    "ni",
+    "142",
+    "(1) Notwithstanding anything contained in the Code of Criminal Procedure, 1973 (a) no court shall take cognizance of any offence punishable under section 138 except upon a complaint, in writing, made by the payee or … the holder in due course of the cheque; (b) such complaint is made within one month of the date on which the cause of action arises under clause (c) of the proviso to section 138: Provided that the cognizance of a complaint may be taken by the Court after the prescribed period, if the complainant satisfies the Court that he had sufficient cause for not making a complaint within such period; (c) no court inferior to that of a Metropolitan Magistrate or a Judicial Magistrate of the first class shall try any offence punishable under section 138. (2) The offence under section 138 shall be inquired into and tried only by a court within whose local jurisdiction … the bank branch of the payee, where the payee … maintains the account, is situated. …",
+  ],
+
+  // Limitation Act, 1963
+  [
+    "limitation",
+    "3",
+    "(1) Subject to the provisions contained in sections 4 to 24 (inclusive), every suit instituted, appeal preferred, and application made after the prescribed period shall be dismissed, although limitation has not been set up as a defence. …",
+    "Bar of limitation",
+  ],
+  [
+    "limitation",
+    "5",
+    "Any appeal or any application, other than an application under any of the provisions of Order XXI of the Code of Civil Procedure, 1908, may be admitted after the prescribed period, if the appellant or the applicant satisfies the court that he had sufficient cause for not preferring the appeal or making the application within such period. …",
+    "Extension of prescribed period in certain cases",
+  ],
+
+  // Transfer of Property Act, 1882
+  [
+    "tpa",
+    "53A",
+    "Where any person contracts to transfer for consideration any immoveable property by writing signed by him or on his behalf from which the terms necessary to constitute the transfer can be ascertained with reasonable certainty, and the transferee has, in part performance of the contract, taken possession of the property or any part thereof, … and the transferee has performed or is willing to perform his part of the contract, then … the transferor or any person claiming under him shall be debarred from enforcing against the transferee … any right in respect of the property of which the transferee has taken or continued in possession, other than a right expressly provided by the terms of the contract. …",
+    "Part performance",
+  ],
+  [
+    "tpa",
+    "106",
+    "(1) In the absence of a contract or local law or usage to the contrary, a lease of immovable property for agricultural or manufacturing purposes shall be deemed to be a lease from year to year, terminable, on the part of either lessor or lessee, by six months' notice; and a lease of immovable property for any other purpose shall be deemed to be a lease from month to month, terminable, on the part of either lessor or lessee, by fifteen days' notice. …",
+    "Duration of certain leases in absence of written contract or local usage",
+  ],
+
+  // Indian Contract Act, 1872
+  [
+    "ica",
+    "73",
+    "When a contract has been broken, the party who suffers by such breach is entitled to receive, from the party who has broken the contract, compensation for any loss or damage caused to him thereby, which naturally arose in the usual course of things from such breach, or which the parties knew, when they made the contract, to be likely to result from the breach of it. Such compensation is not to be given for any remote and indirect loss or damage sustained by reason of the breach.",
+    "Compensation for loss or damage caused by breach of contract",
+  ],
+
+  // Right to Information Act, 2005
+  [
+    "rti",
+    "6",
+    "(1) A person, who desires to obtain any information under this Act, shall make a request in writing or through electronic means in English or Hindi or in the official language of the area in which the application is being made, accompanying such fee as may be prescribed, to the Central Public Information Officer or State Public Information Officer … (2) An applicant making request for information shall not be required to give any reason for requesting the information or any other personal details except those that may be necessary for contacting him. …",
+    "Request for obtaining information",
+  ],
+  [
+    "rti",
+    "7",
+    "(1) … the Central Public Information Officer or State Public Information Officer … on receipt of a request under section 6 shall, as expeditiously as possible, and in any case within thirty days of the receipt of the request, either provide the information on payment of such fee as may be prescribed or reject the request for any of the reasons specified in sections 8 and 9: Provided that where the information sought for concerns the life or liberty of a person, the same shall be provided within forty-eight hours of the receipt of the request. (2) If the … Public Information Officer … fails to give decision on the request for information within the period specified under sub-section (1), … [he] shall be deemed to have refused the request. …",
+    "Disposal of request",
+  ],
+  [
+    "rti",
+    "19",
+    "(1) Any person who, does not receive a decision within the time specified in sub-section (1) or clause (a) of sub-section (3) of section 7, or is aggrieved by a decision of the Central Public Information Officer or State Public Information Officer, … may within thirty days from the expiry of such period or from the receipt of such a decision prefer an appeal to such officer who is senior in rank to the … Public Information Officer in each public authority … (3) A second appeal against the decision under sub-section (1) shall lie within ninety days from the date on which the decision should have been made or was actually received, with the Central Information Commission or the State Information Commission. …",
+    "Appeal",
+  ],
+
+  // Information Technology Act, 2000
+  [
+    "it",
+    "66C",
+    "Whoever, fraudulently or dishonestly make use of the electronic signature, password or any other unique identification feature of any other person, shall be punished with imprisonment of either description for a term which may extend to three years and shall also be liable to fine which may extend to rupees one lakh.",
+  ],
+  [
+    "it",
+    "66D",
+    "Whoever, by means of any communication device or computer resource cheats by personation, shall be punished with imprisonment of either description for a term which may extend to three years and shall also be liable to fine which may extend to one lakh rupees.",
+  ],
+
+  // Code of Civil Procedure, 1908
+  [
+    "cpc",
+    "9",
+    "The Courts shall (subject to the provisions herein contained) have jurisdiction to try all suits of a civil nature excepting suits of which their cognizance is either expressly or impliedly barred. …",
+    "Courts to try all civil suits unless barred",
+  ],
+  [
+    "cpc",
+    "11",
+    "No Court shall try any suit or issue in which the matter directly and substantially in issue has been directly and substantially in issue in a former suit between the same parties, or between parties under whom they or any of them claim, litigating under the same title, in a Court competent to try such subsequent suit or the suit in which such issue has been subsequently raised, and has been heard and finally decided by such Court. …",
+    "Res judicata",
+  ],
+  [
+    "cpc",
+    "80",
+    "(1) Save as otherwise provided in sub-section (2), no suits shall be instituted against the Government … or against a public officer in respect of any act purporting to be done by such public officer in his official capacity, until the expiration of two months next after notice in writing has been delivered to, or left at the office of … [the Government or the officer], stating the cause of action, the name, description and place of residence of the plaintiff and the relief which he claims …",
+    "Notice",
+  ],
+
+  // Specific Relief Act, 1963
+  [
+    "sra",
+    "10",
+    "The specific performance of a contract shall be enforced by the court subject to the provisions contained in sub-section (2) of section 11, section 14 and section 16.",
+    "Specific performance in respect of contracts",
+  ],
+
+  // Arbitration and Conciliation Act, 1996
+  [
+    "arbitration",
+    "34",
+    "(1) Recourse to a Court against an arbitral award may be made only by an application for setting aside such award in accordance with sub-section (2) and sub-section (3). … (3) An application for setting aside may not be made after three months have elapsed from the date on which the party making that application had received the arbitral award …: Provided that if the Court is satisfied that the applicant was prevented by sufficient cause from making the application within the said period of three months it may entertain the application within a further period of thirty days, but not thereafter.",
+    "Application for setting aside arbitral award",
+  ],
+
+  // Dowry Prohibition Act, 1961
+  [
+    "dowry",
+    "3",
+    "(1) If any person, after the commencement of this Act, gives or takes or abets the giving or taking of dowry, he shall be punishable with imprisonment for a term which shall not be less than five years, and with fine which shall not be less than fifteen thousand rupees or the amount of the value of such dowry, whichever is more. …",
+    "Penalty for giving or taking dowry",
+  ],
+  [
+    "dowry",
+    "4",
+    "If any person demands, directly or indirectly, from the parents or other relatives or guardian of a bride or bridegroom, as the case may be, any dowry, he shall be punishable with imprisonment for a term which shall not be less than six months, but which may extend to two years and with fine which may extend to ten thousand rupees. …",
+    "Penalty for demanding dowry",
+  ],
+];
+
+/** Every bundled passage, with the heading from the statute index where the excerpt has none */
+export const BARE_ACTS: Passage[] = EXCERPTS.map(([act, section, text, heading]) => {
+  const statute = getStatute(act);
+  return {
+    id: `${act}-${section.toLowerCase()}`,
+    act,
+    section,
+    heading: heading ?? (statute && lookupSection(statute, section).heading),
+    text,
+  };
+});
+
+const byId = new Map(BARE_ACTS.map((passage) => [passage.id, passage]));
+
+export const getPassage = (id: string): Passage | undefined => byId.get(id);
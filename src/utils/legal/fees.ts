@@ -0,0 +1,353 @@
+import type { Jurisdiction } from "./jurisdictions";
+
+/**
+ * Court fees and property transfer duties by state, for a first estimate
+ * of what a case costs before any lawyer's fee. The slabs are simplified
+ * from each state's schedule and dated with `asOf`: states revise them,
+ * so every estimate names the table it came from and should be checked
+ * against the current schedule before money is paid.
+ */
+
+/** Part of an ad valorem scale: `rate` applies to the value above the previous slab, up to `upTo` */
+export interface FeeSlab {
+  upTo?: number;
+  rate: number;
+}
+
+/** Fixed fees for petitions that are not valued */
+export type PetitionKind = "matrimonial" | "criminal" | "cheque";
+
+export interface StampDutyRate {
+  /** Who the rate applies to, e.g. "Women buyers" */
+  buyer: string;
+  rate: number;
+}
+
+export interface FeeSchedule {
+  /** Id of the state in `JURISDICTIONS` */
+  stateId: string;
+  state: string;
+  /** Places a case location is matched against, lower-case */
+  places: string[];
+  courtFee: {
+    source: string;
+    slabs: FeeSlab[];
+    /** Highest fee payable on a suit, whatever its value */
+    cap?: number;
+    petitions: Record<PetitionKind, number>;
+  };
+  stampDuty: {
+    source: string;
+    rates: StampDutyRate[];
+    registrationRate: number;
+    registrationCap?: number;
+  };
+  /** Process fees, copies and notarisation on top of the court fee */
+  incidentals: [low: number, high: number];
+  asOf: string;
+}
+
+/** One cost line: a range in rupees and the table it was worked out from */
+export interface CostEstimate {
+  label: string;
+  low: number;
+  high: number;
+  source: string;
+}
+
+export interface CostEstimateInput {
+  caseType: string;
+  location: string;
+  /** Where the case is filed; decides the schedule over `location` when given */
+  jurisdiction?: Jurisdiction;
+  /** Value of the claim or of the property, in rupees */
+  value?: number;
+  /** Amount paid for the goods or services, in rupees; the consumer fee goes by this */
+  consideration?: number;
+}
+
+export const FEE_SCHEDULES: FeeSchedule[] = [
+  {
+    stateId: "MH",
+    state: "Maharashtra",
+    places: ["maharashtra", "mumbai", "bombay", "pune", "nagpur", "thane", "nashik"],
+    courtFee: {
+      source: "Maharashtra Court Fees Act, 1959, Schedule I, Article 1",
+      slabs: [
+        { upTo: 1_00_000, rate: 0.03 },
+        { upTo: 10_00_000, rate: 0.02 },
+        { rate: 0.01 },
+      ],
+      cap: 3_00_000,
+      petitions: { matrimonial: 100, criminal: 10, cheque: 500 },
+    },
+    stampDuty: {
+      source: "Maharashtra Stamp Act, 1958, Schedule I, Article 25, and the Registration Act, 1908",
+      rates: [
+        { buyer: "Women buyers", rate: 0.05 },
+        { buyer: "Other buyers, with metro cess", rate: 0.06 },
+      ],
+      registrationRate: 0.01,
+      registrationCap: 30_000,
+    },
+    incidentals: [500, 3_000],
+    asOf: "2024",
+  },
+  {
+    stateId: "DL",
+    state: "Delhi",
+    places: ["delhi", "new delhi"],
+    courtFee: {
+      source: "Court Fees Act, 1870 as applied in Delhi, Schedule I, Article 1",
+      slabs: [
+        { upTo: 50_000, rate: 0.02 },
+        { upTo: 5_00_000, rate: 0.015 },
+        { rate: 0.01 },
+      ],
+      petitions: { matrimonial: 100, criminal: 10, cheque: 200 },
+    },
+    stampDuty: {
+      source: "Indian Stamp Act, 1899 as applied in Delhi, and the Registration Act, 1908",
+      rates: [
+        { buyer: "Women buyers", rate: 0.04 },
+        { buyer: "Men buyers", rate: 0.06 },
+      ],
+      registrationRate: 0.01,
+    },
+    incidentals: [500, 3_000],
+    asOf: "2024",
+  },
+  {
+    stateId: "KA",
+    state: "Karnataka",
+    places: ["karnataka", "bengaluru", "bangalore", "mysuru", "mysore", "mangaluru", "hubballi"],
+    courtFee: {
+      source: "Karnataka Court-fees and Suits Valuation Act, 1958, Schedule I, Article 1",
+      slabs: [
+        { upTo: 1_00_000, rate: 0.04 },
+        { upTo: 10_00_000, rate: 0.03 },
+        { rate: 0.02 },
+      ],
+      petitions: { matrimonial: 100, criminal: 10, cheque: 250 },
+    },
+    stampDuty: {
+      source: "Karnataka Stamp Act, 1957, Article 20, and the Registration Act, 1908",
+      rates: [{ buyer: "All buyers, with cess and surcharge", rate: 0.056 }],
+      registrationRate: 0.02,
+    },
+    incidentals: [500, 2_500],
+    asOf: "2024",
+  },
+  {
+    stateId: "KL",
+    state: "Kerala",
+    places: ["kerala", "kochi", "ernakulam", "thiruvananthapuram", "kozhikode", "thrissur"],
+    courtFee: {
+      source: "Kerala Court Fees and Suits Valuation Act, 1959, Schedule I, Article 1",
+      slabs: [
+        { upTo: 1_00_000, rate: 0.05 },
+        { rate: 0.01 },
+      ],
+      petitions: { matrimonial: 50, criminal: 10, cheque: 250 },
+    },
+    stampDuty: {
+      source: "Kerala Stamp Act, 1959, Article 21, and the Registration Act, 1908",
+      rates: [{ buyer: "All buyers", rate: 0.08 }],
+      registrationRate: 0.02,
+    },
+    incidentals: [500, 2_500],
+    asOf: "2024",
+  },
+  {
+    stateId: "TN",
+    state: "Tamil Nadu",
+    places: ["tamil nadu", "chennai", "madras", "coimbatore", "madurai"],
+    courtFee: {
+      source: "Tamil Nadu Court-fees and Suits Valuation Act, 1955, Schedule I, Article 1",
+      slabs: [{ rate: 0.075 }],
+      petitions: { matrimonial: 100, criminal: 10, cheque: 250 },
+    },
+    stampDuty: {
+      source: "Indian Stamp Act, 1899 as amended in Tamil Nadu, Article 23, and the Registration Act, 1908",
+      rates: [{ buyer: "All buyers", rate: 0.07 }],
+      registrationRate: 0.02,
+    },
+    incidentals: [500, 2_500],
+    asOf: "2024",
+  },
+];
+
+// Same in every state; upper bounds in rupees of the value paid for the goods or service
+const CONSUMER_FEES: [upTo: number, fee: number][] = [
+  [5_00_000, 0],
+  [10_00_000, 200],
+  [20_00_000, 400],
+  [50_00_000, 1_000],
+  [1_00_00_000, 2_000],
+  [2_00_00_000, 2_500],
+  [4_00_00_000, 3_000],
+  [6_00_00_000, 4_000],
+  [8_00_00_000, 5_000],
+  [10_00_00_000, 6_000],
+  [Infinity, 7_500],
+];
+
+const CONSUMER_SOURCE = "Consumer Protection (Consumer Disputes Redressal Commissions) Rules, 2020, rule 7";
+
+const NGT_SOURCE = "National Green Tribunal (Practice and Procedure) Rules, 2011, rule 12";
+
+const POSH_SOURCE = "Sexual Harassment of Women at Workplace (Prevention, Prohibition and Redressal) Act, 2013, Section 9";
+
+/** The schedule of the state `location` is in, e.g. "Delhi High Court" is Delhi */
+export function findFeeSchedule(location: string): FeeSchedule | undefined {
+  const place = location.toLowerCase();
+  return FEE_SCHEDULES.find((schedule) => schedule.places.some((name) => place.includes(name)));
+}
+
+/** The schedule of the jurisdiction's state, or of the state `location` names */
+export const scheduleFor = (location: string, jurisdiction?: Jurisdiction): FeeSchedule | undefined =>
+  jurisdiction
+    ? FEE_SCHEDULES.find(({ stateId }) => stateId === jurisdiction.state)
+    : findFeeSchedule(location);
+
+/** Fee on a suit valued at `value` under an ad valorem scale */
+export function adValoremFee(value: number, slabs: FeeSlab[], cap = Infinity): number {
+  let fee = 0;
+  let lower = 0;
+  for (const { upTo = Infinity, rate } of slabs) {
+    if (value <= lower) break;
+    fee += (Math.min(value, upTo) - lower) * rate;
+    lower = upTo;
+  }
+  return Math.round(Math.min(fee, cap));
+}
+
+export const consumerCommissionFee = (value: number): number =>
+  CONSUMER_FEES.find(([upTo]) => value <= upTo)![1];
+
+const rupees = (amount: number) => `₹${amount.toLocaleString("en-IN")}`;
+
+const withIncidentals = (
+  label: string,
+  fee: number,
+  schedule: FeeSchedule,
+  source: string
+): CostEstimate => ({
+  label,
+  low: fee + schedule.incidentals[0],
+  high: fee + schedule.incidentals[1],
+  source: `${source}, as of ${schedule.asOf}`,
+});
+
+const suitEstimate = (schedule: FeeSchedule, value: number, what: string): CostEstimate =>
+  withIncidentals(
+    `Court fee on a ${what} valued at ${rupees(value)}, with process fees and copies`,
+    adValoremFee(value, schedule.courtFee.slabs, schedule.courtFee.cap),
+    schedule,
+    schedule.courtFee.source
+  );
+
+const petitionEstimate = (schedule: FeeSchedule, kind: PetitionKind, what: string): CostEstimate =>
+  withIncidentals(
+    `Court fee on ${what}, with process fees and copies`,
+    schedule.courtFee.petitions[kind],
+    schedule,
+    schedule.courtFee.source
+  );
+
+function transferEstimate(schedule: FeeSchedule, value: number): CostEstimate {
+  const { rates, registrationRate, registrationCap = Infinity, source } = schedule.stampDuty;
+  const registration = Math.min(value * registrationRate, registrationCap);
+  const duties = rates.map(({ rate }) => Math.round(value * rate + registration));
+  return {
+    label: `Stamp duty and registration on a transfer of property worth ${rupees(value)}`,
+    low: Math.min(...duties),
+    high: Math.max(...duties),
+    source: `${source}, as of ${schedule.asOf}`,
+  };
+}
+
+/**
+ * What filing is likely to cost for the case type in the state of the
+ * jurisdiction, or of `location` without one, one line per fee. Suits and
+ * property transfers need a `value`, consumer complaints a `consideration`;
+ * without one, only fixed fees are estimated.
+ */
+export function estimateCosts({
+  caseType,
+  location,
+  jurisdiction,
+  value,
+  consideration,
+}: CostEstimateInput): CostEstimate[] {
+  const type = caseType.toLowerCase();
+  const valued = value !== undefined && value > 0 ? value : undefined;
+
+  // Fees that do not depend on the state
+  if (/consumer/.test(type)) {
+    // Measured by what was paid, like the commission's pecuniary limit
+    return consideration === undefined || consideration <= 0
+      ? []
+      : [
+          {
+            label: `Consumer commission fee for goods or services worth ${rupees(consideration)}`,
+            low: consumerCommissionFee(consideration),
+            high: consumerCommissionFee(consideration),
+            source: CONSUMER_SOURCE,
+          },
+        ];
+  }
+  if (/environment|pollution|green/.test(type)) {
+    const fee = valued === undefined ? 1_000 : Math.max(1_000, Math.round(valued * 0.01));
+    return [
+      {
+        label: valued === undefined ? "NGT application fee" : `NGT application fee on compensation of ${rupees(valued)}`,
+        low: fee,
+        high: fee,
+        source: NGT_SOURCE,
+      },
+    ];
+  }
+  if (/sexual harassment|\bposh\b/.test(type)) {
+    return [{ label: "Complaint to the Internal or Local Committee", low: 0, high: 0, source: POSH_SOURCE }];
+  }
+  if (/labou?r|employ|workman/.test(type)) {
+    return [{ label: "Industrial dispute before the Labour Court", low: 0, high: 0, source: "Industrial Disputes Act, 1947" }];
+  }
+
+  const schedule = scheduleFor(location, jurisdiction);
+  if (!schedule) return [];
+
+  // Nothing is filed against a cheque complaint, and no schedule here covers a domestic violence application
+  if (/(cheque|check bounce|dishono).*against you|domestic violence/.test(type)) return [];
+  if (/cheque|check bounce|dishono/.test(type)) {
+    return [petitionEstimate(schedule, "cheque", "a cheque bounce complaint")];
+  }
+  if (/family|divorce|marriage|matrimonial/.test(type)) {
+    return [petitionEstimate(schedule, "matrimonial", "a matrimonial petition")];
+  }
+  if (/criminal|offence|fir|police|bail/.test(type)) {
+    return [petitionEstimate(schedule, "criminal", "a complaint or bail application")];
+  }
+  if (valued === undefined) return [];
+  const suit = suitEstimate(
+    schedule,
+    valued,
+    /property|land|possession|\btenan|landlord/.test(type) ? "suit over property" : "suit"
+  );
+  // Only a case that ends in a conveyance pays stamp duty; a title, tenancy or partition dispute does not
+  if (/transfer|\bsale\b|conveyance|specific performance/.test(type)) {
+    return [suit, transferEstimate(schedule, valued)];
+  }
+  return [suit];
+}
+
+/** One line per estimate, e.g. "Court fee …: ₹3,500 to ₹6,000 (source)" */
+export function formatCostEstimates(estimates: CostEstimate[]): string {
+  return estimates
+    .map(({ label, low, high, source }) => {
+      const amount = low === high ? (low === 0 ? "no fee" : rupees(low)) : `${rupees(low)} to ${rupees(high)}`;
+      return `${label}: ${amount} (${source})`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,497 @@
+/**
+ * States and union territories, the High Court each falls under, and the
+ * districts cases come from most, down to the courts and tribunals a case
+ * can be filed in. Districts are the main ones per state rather than all
+ * of them; a district's own courts are derived from its name unless it
+ * lists others in `courts`.
+ */
+
+export interface HighCourt {
+  name: string;
+  /** Principal seat */
+  seat: string;
+  benches?: string[];
+}
+
+export interface District {
+  id: string;
+  name: string;
+  /** Courts beyond the usual district, family and consumer forums */
+  courts?: string[];
+}
+
+export interface StateJurisdiction {
+  /** Vehicle registration code, e.g. "MH" */
+  id: string;
+  name: string;
+  kind: "state" | "ut";
+  highCourt: HighCourt;
+  /** Zonal bench of the National Green Tribunal for the state */
+  ngtBench: string;
+  districts: District[];
+}
+
+/** Where a case is, as ids into `JURISDICTIONS`; `court` is a court name from `courtsFor` */
+export interface Jurisdiction {
+  state: string;
+  district?: string;
+  court?: string;
+}
+
+const slug = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+const districts = (...entries: (string | Omit<District, "id">)[]): District[] =>
+  entries.map((entry) =>
+    typeof entry === "string" ? { id: slug(entry), name: entry } : { id: slug(entry.name), ...entry }
+  );
+
+const NGT = {
+  principal: "Principal Bench, New Delhi",
+  central: "Central Zone Bench, Bhopal",
+  western: "Western Zone Bench, Pune",
+  eastern: "Eastern Zone Bench, Kolkata",
+  southern: "Southern Zone Bench, Chennai",
+};
+
+const BOMBAY: HighCourt = {
+  name: "Bombay High Court",
+  seat: "Mumbai",
+  benches: ["Nagpur", "Aurangabad", "Panaji", "Kolhapur"],
+};
+const GAUHATI: HighCourt = {
+  name: "Gauhati High Court",
+  seat: "Guwahati",
+  benches: ["Kohima", "Aizawl", "Itanagar"],
+};
+const PUNJAB_HARYANA: HighCourt = { name: "Punjab and Haryana High Court", seat: "Chandigarh" };
+const CALCUTTA: HighCourt = {
+  name: "Calcutta High Court",
+  seat: "Kolkata",
+  benches: ["Port Blair", "Jalpaiguri"],
+};
+const MADRAS: HighCourt = { name: "Madras High Court", seat: "Chennai", benches: ["Madurai"] };
+const KERALA: HighCourt = { name: "High Court of Kerala", seat: "Kochi" };
+const JAMMU_KASHMIR: HighCourt = {
+  name: "High Court of Jammu and Kashmir and Ladakh",
+  seat: "Srinagar",
+  benches: ["Jammu"],
+};
+
+export const JURISDICTIONS: StateJurisdiction[] = [
+  {
+    id: "AP",
+    name: "Andhra Pradesh",
+    kind: "state",
+    highCourt: { name: "High Court of Andhra Pradesh", seat: "Amaravati" },
+    ngtBench: NGT.southern,
+    districts: districts("Visakhapatnam", "NTR", "Guntur", "Tirupati"),
+  },
+  {
+    id: "AR",
+    name: "Arunachal Pradesh",
+    kind: "state",
+    highCourt: GAUHATI,
+    ngtBench: NGT.eastern,
+    districts: districts("Papum Pare", "Itanagar Capital Complex"),
+  },
+  {
+    id: "AS",
+    name: "Assam",
+    kind: "state",
+    highCourt: GAUHATI,
+    ngtBench: NGT.eastern,
+    districts: districts("Kamrup Metropolitan", "Dibrugarh", "Cachar"),
+  },
+  {
+    id: "BR",
+    name: "Bihar",
+    kind: "state",
+    highCourt: { name: "Patna High Court", seat: "Patna" },
+    ngtBench: NGT.eastern,
+    districts: districts("Patna", "Gaya", "Muzaffarpur", "Bhagalpur"),
+  },
+  {
+    id: "CG",
+    name: "Chhattisgarh",
+    kind: "state",
+    highCourt: { name: "High Court of Chhattisgarh", seat: "Bilaspur" },
+    ngtBench: NGT.central,
+    districts: districts("Raipur", "Bilaspur", "Durg"),
+  },
+  {
+    id: "GA",
+    name: "Goa",
+    kind: "state",
+    highCourt: BOMBAY,
+    ngtBench: NGT.western,
+    districts: districts("North Goa", "South Goa"),
+  },
+  {
+    id: "GJ",
+    name: "Gujarat",
+    kind: "state",
+    highCourt: { name: "Gujarat High Court", seat: "Ahmedabad" },
+    ngtBench: NGT.western,
+    districts: districts(
+      { name: "Ahmedabad", courts: ["City Civil and Sessions Court, Ahmedabad"] },
+      "Surat",
+      "Vadodara",
+      "Rajkot"
+    ),
+  },
+  {
+    id: "HR",
+    name: "Haryana",
+    kind: "state",
+    highCourt: PUNJAB_HARYANA,
+    ngtBench: NGT.principal,
+    districts: districts("Gurugram", "Faridabad", "Panchkula", "Ambala"),
+  },
+  {
+    id: "HP",
+    name: "Himachal Pradesh",
+    kind: "state",
+    highCourt: { name: "High Court of Himachal Pradesh", seat: "Shimla" },
+    ngtBench: NGT.principal,
+    districts: districts("Shimla", "Kangra", "Mandi"),
+  },
+  {
+    id: "JH",
+    name: "Jharkhand",
+    kind: "state",
+    highCourt: { name: "Jharkhand High Court", seat: "Ranchi" },
+    ngtBench: NGT.eastern,
+    districts: districts("Ranchi", "East Singhbhum", "Dhanbad"),
+  },
+  {
+    id: "KA",
+    name: "Karnataka",
+    kind: "state",
+    highCourt: { name: "High Court of Karnataka", seat: "Bengaluru", benches: ["Dharwad", "Kalaburagi"] },
+    ngtBench: NGT.southern,
+    districts: districts(
+      { name: "Bengaluru Urban", courts: ["City Civil and Sessions Court, Bengaluru"] },
+      "Mysuru",
+      "Dakshina Kannada",
+      "Dharwad",
+      "Kalaburagi"
+    ),
+  },
+  {
+    id: "KL",
+    name: "Kerala",
+    kind: "state",
+    highCourt: KERALA,
+    ngtBench: NGT.southern,
+    districts: districts("Ernakulam", "Thiruvananthapuram", "Kozhikode", "Thrissur"),
+  },
+  {
+    id: "MP",
+    name: "Madhya Pradesh",
+    kind: "state",
+    highCourt: { name: "High Court of Madhya Pradesh", seat: "Jabalpur", benches: ["Indore", "Gwalior"] },
+    ngtBench: NGT.central,
+    districts: districts("Bhopal", "Indore", "Jabalpur", "Gwalior"),
+  },
+  {
+    id: "MH",
+    name: "Maharashtra",
+    kind: "state",
+    highCourt: BOMBAY,
+    ngtBench: NGT.western,
+    districts: districts(
+      {
+        name: "Mumbai City",
+        courts: ["City Civil and Sessions Court, Mumbai", "Court of Small Causes, Mumbai"],
+      },
+      { name: "Mumbai Suburban", courts: ["City Civil and Sessions Court, Mumbai (Dindoshi)"] },
+      "Pune",
+      "Thane",
+      "Nagpur",
+      "Nashik",
+      "Chhatrapati Sambhajinagar"
+    ),
+  },
+  {
+    id: "MN",
+    name: "Manipur",
+    kind: "state",
+    highCourt: { name: "High Court of Manipur", seat: "Imphal" },
+    ngtBench: NGT.eastern,
+    districts: districts("Imphal West", "Imphal East"),
+  },
+  {
+    id: "ML",
+    name: "Meghalaya",
+    kind: "state",
+    highCourt: { name: "High Court of Meghalaya", seat: "Shillong" },
+    ngtBench: NGT.eastern,
+    districts: districts("East Khasi Hills"),
+  },
+  {
+    id: "MZ",
+    name: "Mizoram",
+    kind: "state",
+    highCourt: GAUHATI,
+    ngtBench: NGT.eastern,
+    districts: districts("Aizawl"),
+  },
+  {
+    id: "NL",
+    name: "Nagaland",
+    kind: "state",
+    highCourt: GAUHATI,
+    ngtBench: NGT.eastern,
+    districts: districts("Kohima", "Dimapur"),
+  },
+  {
+    id: "OD",
+    name: "Odisha",
+    kind: "state",
+    highCourt: { name: "Orissa High Court", seat: "Cuttack" },
+    ngtBench: NGT.eastern,
+    districts: districts("Khordha", "Cuttack", "Ganjam"),
+  },
+  {
+    id: "PB",
+    name: "Punjab",
+    kind: "state",
+    highCourt: PUNJAB_HARYANA,
+    ngtBench: NGT.principal,
+    districts: districts("Ludhiana", "Amritsar", "Jalandhar", "SAS Nagar"),
+  },
+  {
+    id: "RJ",
+    name: "Rajasthan",
+    kind: "state",
+    highCourt: { name: "Rajasthan High Court", seat: "Jodhpur", benches: ["Jaipur"] },
+    ngtBench: NGT.central,
+    districts: districts("Jaipur", "Jodhpur", "Udaipur", "Kota"),
+  },
+  {
+    id: "SK",
+    name: "Sikkim",
+    kind: "state",
+    highCourt: { name: "High Court of Sikkim", seat: "Gangtok" },
+    ngtBench: NGT.eastern,
+    districts: districts("Gangtok"),
+  },
+  {
+    id: "TN",
+    name: "Tamil Nadu",
+    kind: "state",
+    highCourt: MADRAS,
+    ngtBench: NGT.southern,
+    districts: districts(
+      { name: "Chennai", courts: ["City Civil Court, Chennai", "Court of Small Causes, Chennai"] },
+      "Coimbatore",
+      "Madurai",
+      "Tiruchirappalli"
+    ),
+  },
+  {
+    id: "TS",
+    name: "Telangana",
+    kind: "state",
+    highCourt: { name: "High Court for the State of Telangana", seat: "Hyderabad" },
+    ngtBench: NGT.southern,
+    districts: districts(
+      { name: "Hyderabad", courts: ["City Civil Court, Hyderabad"] },
+      "Rangareddy",
+      "Medchal-Malkajgiri"
+    ),
+  },
+  {
+    id: "TR",
+    name: "Tripura",
+    kind: "state",
+    highCourt: { name: "High Court of Tripura", seat: "Agartala" },
+    ngtBench: NGT.eastern,
+    districts: districts("West Tripura"),
+  },
+  {
+    id: "UP",
+    name: "Uttar Pradesh",
+    kind: "state",
+    highCourt: { name: "Allahabad High Court", seat: "Prayagraj", benches: ["Lucknow"] },
+    ngtBench: NGT.principal,
+    districts: districts(
+      "Lucknow",
+      "Prayagraj",
+      "Kanpur Nagar",
+      "Gautam Buddh Nagar",
+      "Ghaziabad",
+      "Varanasi"
+    ),
+  },
+  {
+    id: "UK",
+    name: "Uttarakhand",
+    kind: "state",
+    highCourt: { name: "High Court of Uttarakhand", seat: "Nainital" },
+    ngtBench: NGT.principal,
+    districts: districts("Dehradun", "Haridwar", "Nainital"),
+  },
+  {
+    id: "WB",
+    name: "West Bengal",
+    kind: "state",
+    highCourt: CALCUTTA,
+    ngtBench: NGT.eastern,
+    districts: districts(
+      { name: "Kolkata", courts: ["City Civil Court, Kolkata", "Court of Small Causes, Kolkata"] },
+      "North 24 Parganas",
+      "Howrah",
+      "Darjeeling"
+    ),
+  },
+  {
+    id: "AN",
+    name: "Andaman and Nicobar Islands",
+    kind: "ut",
+    highCourt: CALCUTTA,
+    ngtBench: NGT.eastern,
+    districts: districts("South Andaman"),
+  },
+  {
+    id: "CH",
+    name: "Chandigarh",
+    kind: "ut",
+    highCourt: PUNJAB_HARYANA,
+    ngtBench: NGT.principal,
+    districts: districts("Chandigarh"),
+  },
+  {
+    id: "DH",
+    name: "Dadra and Nagar Haveli and Daman and Diu",
+    kind: "ut",
+    highCourt: BOMBAY,
+    ngtBench: NGT.western,
+    districts: districts("Dadra and Nagar Haveli", "Daman", "Diu"),
+  },
+  {
+    id: "DL",
+    name: "Delhi",
+    kind: "ut",
+    highCourt: { name: "Delhi High Court", seat: "New Delhi" },
+    ngtBench: NGT.principal,
+    districts: districts(
+      { name: "New Delhi", courts: ["Patiala House Courts"] },
+      { name: "Central Delhi", courts: ["Tis Hazari Courts"] },
+      { name: "South Delhi", courts: ["Saket Courts"] },
+      { name: "East Delhi", courts: ["Karkardooma Courts"] },
+      { name: "North West Delhi", courts: ["Rohini Courts"] },
+      { name: "South West Delhi", courts: ["Dwarka Courts"] }
+    ),
+  },
+  {
+    id: "JK",
+    name: "Jammu and Kashmir",
+    kind: "ut",
+    highCourt: JAMMU_KASHMIR,
+    ngtBench: NGT.principal,
+    districts: districts("Srinagar", "Jammu"),
+  },
+  {
+    id: "LA",
+    name: "Ladakh",
+    kind: "ut",
+    highCourt: JAMMU_KASHMIR,
+    ngtBench: NGT.principal,
+    districts: districts("Leh", "Kargil"),
+  },
+  {
+    id: "LD",
+    name: "Lakshadweep",
+    kind: "ut",
+    highCourt: KERALA,
+    ngtBench: NGT.southern,
+    districts: districts("Lakshadweep"),
+  },
+  {
+    id: "PY",
+    name: "Puducherry",
+    kind: "ut",
+    highCourt: MADRAS,
+    ngtBench: NGT.southern,
+    districts: districts("Puducherry"),
+  },
+];
+
+const byId = new Map(JURISDICTIONS.map((state) => [state.id, state]));
+
+export const getJurisdiction = (id: string): StateJurisdiction | undefined => byId.get(id);
+
+export const getDistrict = (state: StateJurisdiction, id?: string): District | undefined =>
+  id === undefined ? undefined : state.districts.find((district) => district.id === id);
+
+// Courts every case can reach, whatever its state
+const NATIONAL_COURTS = ["Supreme Court of India", "National Consumer Disputes Redressal Commission"];
+
+/**
+ * Courts and tribunals a case in `jurisdiction` can be filed in: the
+ * district's own, then the state's High Court and commission, then the
+ * national ones. Without a district, only the last two groups.
+ */
+export function courtsFor({ state: stateId, district: districtId }: Jurisdiction): string[] {
+  const state = getJurisdiction(stateId);
+  if (!state) return NATIONAL_COURTS;
+
+  const district = getDistrict(state, districtId);
+  const { highCourt } = state;
+  return [
+    ...(district
+      ? [
+          `District and Sessions Court, ${district.name}`,
+          ...(district.courts ?? []),
+          `Family Court, ${district.name}`,
+          `District Consumer Disputes Redressal Commission, ${district.name}`,
+        ]
+      : []),
+    highCourt.name,
+    ...(highCourt.benches ?? []).map((bench) => `${highCourt.name}, ${bench} Bench`),
+    `${state.name} State Consumer Disputes Redressal Commission`,
+    `National Green Tribunal, ${state.ngtBench}`,
+    ...NATIONAL_COURTS,
+  ];
+}
+
+/** "Pune, Maharashtra", or the court when one was chosen: "Bombay High Court (Pune, Maharashtra)" */
+export function formatJurisdiction(jurisdiction: Jurisdiction): string {
+  const state = getJurisdiction(jurisdiction.state);
+  if (!state) return jurisdiction.court ?? "";
+  const place = [getDistrict(state, jurisdiction.district)?.name, state.name].filter(Boolean).join(", ");
+  return jurisdiction.court ? `${jurisdiction.court} (${place})` : place;
+}
+
+/** The jurisdiction spelled out for a prompt, one "Label: value" line each */
+export function describeJurisdiction(jurisdiction: Jurisdiction): string {
+  const state = getJurisdiction(jurisdiction.state);
+  if (!state) return "";
+  const district = getDistrict(state, jurisdiction.district);
+  return [
+    `${state.kind === "ut" ? "Union Territory" : "State"}: ${state.name}`,
+    district && `District: ${district.name}`,
+    jurisdiction.court && `Court or Forum: ${jurisdiction.court}`,
+    `High Court: ${state.highCourt.name}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/** `value` as a `Jurisdiction` whose ids exist, for input from outside the app */
+export function parseJurisdiction(value: unknown): Jurisdiction | undefined {
+  if (typeof value !== "object" || value === null) return undefined;
+  const { state: stateId, district: districtId, court } = value as Record<string, unknown>;
+  const state = typeof stateId === "string" ? getJurisdiction(stateId) : undefined;
+  if (!state) return undefined;
+  const district = typeof districtId === "string" ? getDistrict(state, districtId) : undefined;
+  const jurisdiction: Jurisdiction = { state: state.id, ...(district ? { district: district.id } : {}) };
+  return typeof court === "string" && courtsFor(jurisdiction).includes(court)
+    ? { ...jurisdiction, court }
+    : jurisdiction;
+}
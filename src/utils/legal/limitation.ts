@@ -0,0 +1,336 @@
+/**
+ * Limitation periods for the case types users bring most, and the last
+ * day to file given the date time starts running. Deterministic on
+ * purpose: the deadline never comes from the model. Periods follow the
+ * Limitation Act, 1963 and the special acts that override it (section 29).
+ */
+
+export interface LimitationPeriod {
+  years?: number;
+  months?: number;
+  days?: number;
+}
+
+export interface LimitationRule {
+  id: string;
+  /** What has to be filed, e.g. "Suit for compensation for breach of contract" */
+  description: string;
+  /** Act and provision the period comes from, e.g. "Limitation Act, 1963, Article 55" */
+  source: string;
+  period: LimitationPeriod;
+  /** The event time runs from, completing "Time runs from …" */
+  runsFrom: string;
+  /** Whether, and how, a late filing can still be admitted */
+  condonation: string;
+}
+
+/** The last day to file under a rule, as ISO dates ("2027-01-10") */
+export interface LimitationDeadline {
+  rule: LimitationRule;
+  from: string;
+  lastDay: string;
+  /** Negative once the last day has passed */
+  daysLeft: number;
+  status: "open" | "closing" | "expired";
+  /** The last day is a Saturday or Sunday, when most courts are closed */
+  weekend: boolean;
+}
+
+// Under 30 days left is flagged as closing
+const CLOSING_DAYS = 30;
+
+const NO_CONDONATION_FOR_SUITS =
+  "Section 5 does not apply to suits: a late suit is dismissed (section 3). Time spent pursuing the same claim in good faith in a court without jurisdiction is excluded (section 14), and a written acknowledgment of the liability or a part payment before the period runs out starts it afresh (sections 18 and 19).";
+
+const SECTION_5 =
+  "The court can admit it late under section 5 of the Limitation Act if the delay is explained by sufficient cause, shown day by day.";
+
+export const LIMITATION_RULES: LimitationRule[] = [
+  {
+    id: "art-55",
+    description: "Suit for compensation for breach of contract",
+    source: "Limitation Act, 1963, Article 55",
+    period: { years: 3 },
+    runsFrom: "the date the contract is broken",
+    condonation: NO_CONDONATION_FOR_SUITS,
+  },
+  {
+    id: "art-54",
+    description: "Suit for specific performance of a contract",
+    source: "Limitation Act, 1963, Article 54",
+    period: { years: 3 },
+    runsFrom: "the date fixed for performance, or if none, the date the other side refused to perform",
+    condonation: NO_CONDONATION_FOR_SUITS,
+  },
+  {
+    id: "art-19",
+    description: "Suit for money payable for money lent",
+    source: "Limitation Act, 1963, Article 19",
+    period: { years: 3 },
+    runsFrom: "the date the loan was made",
+    condonation: NO_CONDONATION_FOR_SUITS,
+  },
+  {
+    id: "art-65",
+    description: "Suit for possession of immovable property based on title",
+    source: "Limitation Act, 1963, Article 65",
+    period: { years: 12 },
+    runsFrom: "the date the defendant's possession became adverse to the plaintiff",
+    condonation: NO_CONDONATION_FOR_SUITS,
+  },
+  {
+    id: "art-64",
+    description: "Suit for possession of immovable property based on previous possession",
+    source: "Limitation Act, 1963, Article 64",
+    period: { years: 12 },
+    runsFrom: "the date of dispossession",
+    condonation: NO_CONDONATION_FOR_SUITS,
+  },
+  {
+    id: "art-59",
+    description: "Suit to cancel or set aside an instrument or decree, or rescind a contract",
+    source: "Limitation Act, 1963, Article 59",
+    period: { years: 3 },
+    runsFrom: "the date the plaintiff first learnt the facts entitling them to have it cancelled",
+    condonation: NO_CONDONATION_FOR_SUITS,
+  },
+  {
+    id: "art-113",
+    description: "Any other suit",
+    source: "Limitation Act, 1963, Article 113",
+    period: { years: 3 },
+    runsFrom: "the date the right to sue accrues",
+    condonation: NO_CONDONATION_FOR_SUITS,
+  },
+  {
+    id: "art-116",
+    description: "Appeal to a High Court against a decree or order",
+    source: "Limitation Act, 1963, Article 116",
+    period: { days: 90 },
+    runsFrom: "the date of the decree or order",
+    condonation: `${SECTION_5} Time taken to obtain a certified copy is excluded (section 12).`,
+  },
+  {
+    id: "cpa-69",
+    description: "Consumer complaint before a District, State or National Commission",
+    source: "Consumer Protection Act, 2019, Section 69",
+    period: { years: 2 },
+    runsFrom: "the date the cause of action arose, e.g. the deficient service or the sale of the defective goods",
+    condonation:
+      "The Commission can entertain a late complaint under section 69(2) if sufficient cause is shown, and must record its reasons for condoning the delay.",
+  },
+  {
+    id: "cpa-41",
+    description: "Appeal to the State Commission against a District Commission order",
+    source: "Consumer Protection Act, 2019, Section 41",
+    period: { days: 45 },
+    runsFrom: "the date of the District Commission's order",
+    condonation:
+      "The State Commission can admit a late appeal for sufficient cause. Half the amount the order directs to be paid, or more, must be deposited first.",
+  },
+  {
+    id: "ni-138-notice",
+    description: "Demand notice to the drawer of a dishonoured cheque",
+    source: "Negotiable Instruments Act, 1881, Section 138(b)",
+    period: { days: 30 },
+    runsFrom: "the date the bank's return memo was received",
+    condonation:
+      "There is no condonation for a late notice. If the cheque is still within its validity (three months from its date), presenting it again and sending a notice after the fresh dishonour keeps the remedy alive.",
+  },
+  {
+    id: "ni-138-payment",
+    description: "Payment of the cheque amount after receiving the demand notice",
+    source: "Negotiable Instruments Act, 1881, Section 138(c)",
+    period: { days: 15 },
+    runsFrom: "the date the demand notice was received",
+    condonation:
+      "There is no extension: once the 15 days pass without payment the offence is complete and a complaint can be filed. The case can still be compounded with the payee under section 147 at any stage.",
+  },
+  {
+    id: "ni-142-complaint",
+    description: "Criminal complaint for a dishonoured cheque",
+    source: "Negotiable Instruments Act, 1881, Section 142(1)(b)",
+    period: { months: 1 },
+    runsFrom: "the day after the 15 days the notice gave the drawer to pay ran out",
+    condonation:
+      "The Magistrate can take cognizance of a late complaint under the proviso to section 142(1)(b) if sufficient cause for the delay is shown.",
+  },
+  {
+    id: "bnss-514-fine",
+    description: "Prosecution of an offence punishable with fine only",
+    source: "Bharatiya Nagarik Suraksha Sanhita, 2023, Section 514",
+    period: { months: 6 },
+    runsFrom: "the date of the offence, or the date it became known to the victim or the police",
+    condonation:
+      "The court can take cognizance after the period under section 519 if the delay is properly explained or it is necessary in the interests of justice.",
+  },
+  {
+    id: "bnss-514-one-year",
+    description: "Prosecution of an offence punishable with imprisonment of up to one year",
+    source: "Bharatiya Nagarik Suraksha Sanhita, 2023, Section 514",
+    period: { years: 1 },
+    runsFrom: "the date of the offence, or the date it became known to the victim or the police",
+    condonation:
+      "The court can take cognizance after the period under section 519 if the delay is properly explained or it is necessary in the interests of justice.",
+  },
+  {
+    id: "bnss-514-three-years",
+    description: "Prosecution of an offence punishable with imprisonment of one to three years",
+    source: "Bharatiya Nagarik Suraksha Sanhita, 2023, Section 514",
+    period: { years: 3 },
+    runsFrom: "the date of the offence, or the date it became known to the victim or the police",
+    condonation:
+      "The court can take cognizance after the period under section 519 if the delay is properly explained or it is necessary in the interests of justice. Offences punishable with more than three years have no limitation period.",
+  },
+  {
+    id: "hma-28",
+    description: "Appeal against a decree under the Hindu Marriage Act",
+    source: "Hindu Marriage Act, 1955, Section 28(4)",
+    period: { days: 90 },
+    runsFrom: "the date of the decree or order",
+    condonation: SECTION_5,
+  },
+  {
+    id: "dv-29",
+    description: "Appeal to the Court of Session against a Magistrate's order under the Domestic Violence Act",
+    source: "Protection of Women from Domestic Violence Act, 2005, Section 29",
+    period: { days: 30 },
+    runsFrom: "the date the order was served on the party appealing",
+    condonation: SECTION_5,
+  },
+  {
+    id: "posh-9",
+    description: "Complaint of sexual harassment to the Internal or Local Committee",
+    source: "Sexual Harassment of Women at Workplace (Prevention, Prohibition and Redressal) Act, 2013, Section 9(1)",
+    period: { months: 3 },
+    runsFrom: "the date of the incident, or of the last incident in a series",
+    condonation:
+      "The Committee can extend the time by up to three months more, recording its reasons in writing, if circumstances prevented the complaint being made in time.",
+  },
+  {
+    id: "ida-2a",
+    description: "Application to the Labour Court or Tribunal against discharge, dismissal or retrenchment",
+    source: "Industrial Disputes Act, 1947, Section 2A(3)",
+    period: { years: 3 },
+    runsFrom: "the date of the discharge, dismissal, retrenchment or termination",
+    condonation: "The Act provides for no extension: apply within the three years.",
+  },
+  {
+    id: "ngt-14",
+    description: "Application to the National Green Tribunal for adjudication of a dispute",
+    source: "National Green Tribunal Act, 2010, Section 14(3)",
+    period: { months: 6 },
+    runsFrom: "the date the cause of action first arose",
+    condonation:
+      "The Tribunal can allow a further 60 days, and no more, if sufficient cause prevented filing in time.",
+  },
+  {
+    id: "ngt-16",
+    description: "Appeal to the National Green Tribunal against an order or decision",
+    source: "National Green Tribunal Act, 2010, Section 16",
+    period: { days: 30 },
+    runsFrom: "the date the order or decision was communicated",
+    condonation:
+      "The Tribunal can allow a further 60 days, and no more, if sufficient cause prevented filing in time.",
+  },
+];
+
+const byId = new Map(LIMITATION_RULES.map((rule) => [rule.id, rule]));
+
+// Case types by the words they are usually described with; the first match
+// wins, so narrow sub-types come before the broad patterns they also match
+const CASE_TYPE_RULES: [pattern: RegExp, ruleIds: string[]][] = [
+  [/sexual harassment|\bposh\b/i, ["posh-9"]],
+  // An application under section 12 has no limitation period, so only the appeal has a deadline
+  [/domestic violence/i, ["dv-29"]],
+  [/(cheque|check bounce|dishono).*against you/i, ["ni-138-payment"]],
+  [/cheque|check bounce|dishono/i, ["ni-138-notice", "ni-142-complaint"]],
+  [/consumer/i, ["cpa-69", "cpa-41"]],
+  [/specific performance/i, ["art-54", "art-116"]],
+  [/contract|loan|money|recovery/i, ["art-55", "art-54", "art-19", "art-113", "art-116"]],
+  [/property|land|possession|\btenan|landlord/i, ["art-65", "art-64", "art-54", "art-59", "art-116"]],
+  [/criminal|offence|fir|police/i, ["bnss-514-fine", "bnss-514-one-year", "bnss-514-three-years"]],
+  [/family|divorce|marriage|matrimonial/i, ["hma-28", "art-116"]],
+  [/labou?r|employ|dismiss|termination|workman/i, ["ida-2a", "art-113"]],
+  [/environment|pollution|green/i, ["ngt-14", "ngt-16"]],
+];
+
+const FALLBACK_RULES = ["art-113", "art-116"];
+
+/** Rules that usually govern `caseType`; the general residuary rules when none match */
+export function rulesForCaseType(caseType: string): LimitationRule[] {
+  const ids = CASE_TYPE_RULES.find(([pattern]) => pattern.test(caseType))?.[1] ?? FALLBACK_RULES;
+  return ids.map((id) => byId.get(id)!);
+}
+
+export const getLimitationRule = (id: string): LimitationRule | undefined => byId.get(id);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** "2024-01-31" as a UTC date, or undefined when it is not a real date */
+const parseDate = (iso: string): Date | undefined => {
+  const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return undefined;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 ? date : undefined;
+};
+
+const toISODate = (date: Date) => date.toISOString().slice(0, 10);
+
+export const todayISO = () => {
+  const now = new Date();
+  return toISODate(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+};
+
+/**
+ * `date` plus `period`. The day time starts from is excluded (section 12),
+ * so a three-year period from 10 January 2024 ends on 10 January 2027. A
+ * month that is too short ends the period on its last day.
+ */
+function addPeriod(date: Date, { years = 0, months = 0, days = 0 }: LimitationPeriod): Date {
+  const totalMonths = date.getUTCMonth() + years * 12 + months;
+  const year = date.getUTCFullYear() + Math.floor(totalMonths / 12);
+  const month = totalMonths % 12;
+  const lastDayOfMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const end = new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDayOfMonth)));
+  return new Date(end.getTime() + days * DAY_MS);
+}
+
+/**
+ * The last day to file under `rule` when time started running on `from`
+ * (an ISO date). Undefined for a date that does not exist.
+ */
+export function computeDeadline(
+  rule: LimitationRule,
+  from: string,
+  today: string = todayISO()
+): LimitationDeadline | undefined {
+  const start = parseDate(from);
+  const now = parseDate(today);
+  if (!start || !now) return undefined;
+
+  const lastDay = addPeriod(start, rule.period);
+  const daysLeft = Math.round((lastDay.getTime() - now.getTime()) / DAY_MS);
+  const weekday = lastDay.getUTCDay();
+  return {
+    rule,
+    from,
+    lastDay: toISODate(lastDay),
+    daysLeft,
+    status: daysLeft < 0 ? "expired" : daysLeft < CLOSING_DAYS ? "closing" : "open",
+    weekend: weekday === 0 || weekday === 6,
+  };
+}
+
+/** "3 years", "1 month", "90 days" */
+export function formatPeriod({ years, months, days }: LimitationPeriod): string {
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? "" : "s"}`;
+  return [
+    years && plural(years, "year"),
+    months && plural(months, "month"),
+    days && plural(days, "day"),
+  ]
+    .filter(Boolean)
+    .join(" and ");
+}
@@ -0,0 +1,140 @@
+import { findCitations } from "./citations";
+import { BARE_ACTS, type Passage } from "./corpus";
+import { getStatute, statuteTitle } from "./statutes";
+
+/** A passage ranked for a query, higher `score` first */
+export interface RetrievedPassage extends Passage {
+  score: number;
+}
+
+export interface Retriever {
+  /** Up to `limit` passages relevant to `query`, best first; none when nothing matches well */
+  search(query: string, limit: number): RetrievedPassage[];
+}
+
+export interface BM25Options {
+  /** How quickly repeats of a term stop adding to the score */
+  k1?: number;
+  /** How much longer passages are penalised, from 0 (not at all) to 1 */
+  b?: number;
+  /** Lowest score worth returning; a lone common word scores below it */
+  minScore?: number;
+  /**
+   * Share of the best passage's score the others must reach, from 0 to 1;
+   * a passage matching only a side word of the query falls below it
+   */
+  relativeScore?: number;
+}
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be been by can could did do does for from had has have he her his how i if in " +
+    "into is it its me my no not of on or our she should so such that the their them there they this " +
+    "to under was we were what when where which who whom why will with would you your any all shall " +
+    "may section sections act law legal india indian"
+  ).split(" ")
+);
+
+// Just enough stemming that "cheated", "cheating" and "cheats" meet
+const stem = (word: string) =>
+  word.length <= 4
+    ? word
+    : word.replace(/(?:ing|ed|s)$/, (suffix, offset: number) =>
+        suffix === "s" && word[offset - 1] === "s" ? suffix : ""
+      );
+
+/** Lower-cased words of `text`, without stopwords, stemmed */
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((word) => !STOPWORDS.has(word))
+    .map(stem);
+
+/** The words a passage is found by: its act, section and heading as well as its text */
+const indexedText = (passage: Passage) => {
+  const statute = getStatute(passage.act);
+  return [
+    statute?.aliases.join(" "),
+    passage.section,
+    // Twice: a heading says what the section is about better than its text
+    passage.heading,
+    passage.heading,
+    passage.text,
+  ]
+    .filter(Boolean)
+    .join(" ");
+};
+
+/** Okapi BM25 over `passages`, indexed once up front */
+export function createBM25Retriever(
+  passages: Passage[],
+  { k1 = 1.2, b = 0.75, minScore = 2, relativeScore = 0.6 }: BM25Options = {}
+): Retriever {
+  const documents = passages.map((passage) => {
+    const terms = tokenize(indexedText(passage));
+    const frequencies = new Map<string, number>();
+    for (const term of terms) frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    return { passage, length: terms.length, frequencies };
+  });
+  const averageLength = documents.reduce((sum, { length }) => sum + length, 0) / (documents.length || 1);
+
+  const documentFrequency = new Map<string, number>();
+  for (const { frequencies } of documents) {
+    for (const term of frequencies.keys()) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }
+  const idf = (term: string) => {
+    const count = documentFrequency.get(term) ?? 0;
+    return Math.log(1 + (documents.length - count + 0.5) / (count + 0.5));
+  };
+
+  return {
+    search(query, limit) {
+      const terms = [...new Set(tokenize(query))];
+      if (!terms.length || limit <= 0) return [];
+
+      const scored = documents
+        .map(({ passage, length, frequencies }) => {
+          let score = 0;
+          for (const term of terms) {
+            const frequency = frequencies.get(term);
+            if (!frequency) continue;
+            score +=
+              (idf(term) * frequency * (k1 + 1)) /
+              (frequency + k1 * (1 - b + (b * length) / averageLength));
+          }
+          return { ...passage, score };
+        })
+        .sort((a, b) => b.score - a.score);
+
+      const cutoff = Math.max(minScore, (scored[0]?.score ?? 0) * relativeScore);
+      return scored.filter(({ score }) => score >= cutoff).slice(0, limit);
+    },
+  };
+}
+
+/**
+ * `query` with the 2023 section added after each IPC, CrPC or Evidence Act
+ * section it cites: the excerpts are of the new codes, so "section 420 IPC"
+ * has to find BNS 318 by its number.
+ */
+const withNewSections = (query: string) => {
+  const sections = findCitations(query).flatMap(({ equivalent }) =>
+    equivalent?.new ? [equivalent.new.section.replace(/\(.*$/, "")] : []
+  );
+  return sections.length ? `${query} ${sections.join(" ")}` : query;
+};
+
+/** A retriever over the bundled bare-act excerpts */
+export function createBareActRetriever(options?: BM25Options): Retriever {
+  const retriever = createBM25Retriever(BARE_ACTS, options);
+  return { search: (query, limit) => retriever.search(withNewSections(query), limit) };
+}
+
+/** Where a passage comes from, e.g. "Section 103, Bharatiya Nyaya Sanhita, 2023" */
+export const passageSource = (passage: Passage): string => {
+  const statute = getStatute(passage.act);
+  return `Section ${passage.section}, ${statute ? statuteTitle(statute) : passage.act}`;
+};
+
+/** A passage as it is quoted to the model, headed by the id it is cited by */
+export const formatPassage = (passage: Passage): string =>
+  `[${passage.id}] ${passageSource(passage)}${passage.heading ? ` (${passage.heading})` : ""}\n${passage.text}`;
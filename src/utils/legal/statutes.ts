@@ -0,0 +1,679 @@
+/**
+ * Index of the central acts answers most often cite: every section number
+ * each act has, and the headings of the sections that come up most. It is
+ * bundled with the app so that citations can be checked without a network
+ * call. Headings are not exhaustive: a section without one is still valid.
+ */
+
+export interface Statute {
+  id: string;
+  /** Short title without the year, e.g. "Bharatiya Nyaya Sanhita" */
+  name: string;
+  year: number;
+  /** Abbreviations and other names the act is cited by */
+  aliases: string[];
+  /** Highest plain section number; sections 1 to this exist */
+  sections: number;
+  /** Sections inserted by amendment, e.g. "498A" */
+  inserted?: string[];
+  /** Sections omitted or struck down in an act that is otherwise in force */
+  omitted?: { from: string; to?: string; note: string }[];
+  headings: Record<string, string>;
+  /** The act as a whole was repealed by the statute `by`, effective `on` */
+  repealed?: { by: string; on: string };
+}
+
+export type SectionStatus = "verified" | "unknown" | "repealed";
+
+export interface SectionLookup {
+  status: SectionStatus;
+  heading?: string;
+  /** Why the section is no longer law */
+  note?: string;
+}
+
+/** `"105A"` to `"105L"` as a list */
+const lettered = (section: number, from: string, to: string): string[] =>
+  Array.from(
+    { length: to.charCodeAt(0) - from.charCodeAt(0) + 1 },
+    (_, index) => `${section}${String.fromCharCode(from.charCodeAt(0) + index)}`
+  );
+
+export const STATUTES: Statute[] = [
+  {
+    id: "bns",
+    name: "Bharatiya Nyaya Sanhita",
+    year: 2023,
+    aliases: ["BNS", "Bharatiya Nyaya Sanhita"],
+    sections: 358,
+    headings: {
+      "1": "Short title, commencement and application",
+      "2": "Definitions",
+      "61": "Criminal conspiracy",
+      "63": "Rape",
+      "64": "Punishment for rape",
+      "74": "Assault or use of criminal force to woman with intent to outrage her modesty",
+      "75": "Sexual harassment",
+      "78": "Stalking",
+      "79": "Word, gesture or act intended to insult modesty of a woman",
+      "80": "Dowry death",
+      "85": "Husband or relative of husband of a woman subjecting her to cruelty",
+      "100": "Culpable homicide",
+      "101": "Murder",
+      "103": "Punishment for murder",
+      "105": "Punishment for culpable homicide not amounting to murder",
+      "106": "Causing death by negligence",
+      "108": "Abetment of suicide",
+      "109": "Attempt to murder",
+      "111": "Organised crime",
+      "113": "Terrorist act",
+      "115": "Voluntarily causing hurt",
+      "117": "Voluntarily causing grievous hurt",
+      "126": "Wrongful restraint",
+      "127": "Wrongful confinement",
+      "137": "Kidnapping",
+      "152": "Act endangering sovereignty, unity and integrity of India",
+      "196": "Promoting enmity between different groups on grounds of religion, race, place of birth, residence, language, etc.",
+      "303": "Theft",
+      "304": "Snatching",
+      "308": "Extortion",
+      "309": "Robbery",
+      "310": "Dacoity",
+      "314": "Dishonest misappropriation of property",
+      "316": "Criminal breach of trust",
+      "318": "Cheating",
+      "324": "Mischief",
+      "329": "Criminal trespass and house-trespass",
+      "336": "Forgery",
+      "351": "Criminal intimidation",
+      "356": "Defamation",
+      "358": "Repeal and savings",
+    },
+  },
+  {
+    id: "bnss",
+    name: "Bharatiya Nagarik Suraksha Sanhita",
+    year: 2023,
+    aliases: ["BNSS", "Bharatiya Nagarik Suraksha Sanhita"],
+    sections: 531,
+    headings: {
+      "1": "Short title, extent and commencement",
+      "35": "When police may arrest without warrant",
+      "47": "Person arrested to be informed of grounds of arrest and of right to bail",
+      "58": "Person arrested not to be detained more than twenty-four hours",
+      "144": "Order for maintenance of wives, children and parents",
+      "163": "Power to issue order in urgent cases of nuisance or apprehended danger",
+      "173": "Information in cognizable cases",
+      "175": "Police officer's power to investigate cognizable case",
+      "180": "Examination of witnesses by police",
+      "183": "Recording of confessions and statements",
+      "187": "Procedure when investigation cannot be completed in twenty-four hours",
+      "193": "Report of police officer on completion of investigation",
+      "223": "Examination of complainant",
+      "478": "In what cases bail to be taken",
+      "479": "Maximum period for which undertrial prisoner can be detained",
+      "480": "When bail may be taken in case of non-bailable offence",
+      "482": "Direction for grant of bail to person apprehending arrest",
+      "483": "Special powers of High Court or Court of Session regarding bail",
+      "528": "Saving of inherent powers of High Court",
+      "531": "Repeal and savings",
+    },
+  },
+  {
+    id: "bsa",
+    name: "Bharatiya Sakshya Adhiniyam",
+    year: 2023,
+    aliases: ["BSA", "Bharatiya Sakshya Adhiniyam"],
+    sections: 170,
+    headings: {
+      "1": "Short title, application and commencement",
+      "2": "Definitions",
+      "22": "Confession caused by inducement, threat, coercion or promise, when irrelevant in criminal proceeding",
+      "23": "Confession to police officer",
+      "57": "Primary evidence",
+      "58": "Secondary evidence",
+      "61": "Electronic or digital record",
+      "63": "Admissibility of electronic records",
+      "104": "Burden of proof",
+      "117": "Presumption as to abetment of suicide by a married woman",
+      "118": "Presumption as to dowry death",
+      "170": "Repeal and savings",
+    },
+  },
+  {
+    id: "ipc",
+    name: "Indian Penal Code",
+    year: 1860,
+    aliases: ["IPC", "I.P.C.", "Indian Penal Code", "Penal Code"],
+    sections: 511,
+    inserted: [
+      "52A",
+      "53A",
+      "120A",
+      "120B",
+      "121A",
+      "124A",
+      "153A",
+      "153AA",
+      "153B",
+      "166A",
+      "166B",
+      ...lettered(171, "A", "I"),
+      "228A",
+      "229A",
+      "295A",
+      "304A",
+      "304B",
+      "326A",
+      "326B",
+      ...lettered(354, "A", "D"),
+      "363A",
+      "364A",
+      "366A",
+      "366B",
+      "370A",
+      "376A",
+      "376AB",
+      "376B",
+      "376C",
+      "376D",
+      "376DA",
+      "376DB",
+      "376E",
+      ...lettered(489, "A", "E"),
+      "498A",
+    ],
+    omitted: [
+      { from: "303", note: "Struck down in Mithu v. State of Punjab (1983)" },
+      { from: "497", note: "Struck down in Joseph Shine v. Union of India (2018)" },
+    ],
+    headings: {
+      "120B": "Punishment of criminal conspiracy",
+      "124A": "Sedition",
+      "279": "Rash driving or riding on a public way",
+      "299": "Culpable homicide",
+      "300": "Murder",
+      "302": "Punishment for murder",
+      "304": "Punishment for culpable homicide not amounting to murder",
+      "304A": "Causing death by negligence",
+      "304B": "Dowry death",
+      "306": "Abetment of suicide",
+      "307": "Attempt to murder",
+      "323": "Punishment for voluntarily causing hurt",
+      "354": "Assault or criminal force to woman with intent to outrage her modesty",
+      "375": "Rape",
+      "376": "Punishment for rape",
+      "377": "Unnatural offences",
+      "378": "Theft",
+      "379": "Punishment for theft",
+      "403": "Dishonest misappropriation of property",
+      "405": "Criminal breach of trust",
+      "406": "Punishment for criminal breach of trust",
+      "415": "Cheating",
+      "420": "Cheating and dishonestly inducing delivery of property",
+      "441": "Criminal trespass",
+      "463": "Forgery",
+      "498A": "Husband or relative of husband of a woman subjecting her to cruelty",
+      "499": "Defamation",
+      "500": "Punishment for defamation",
+      "503": "Criminal intimidation",
+      "506": "Punishment for criminal intimidation",
+      "509": "Word, gesture or act intended to insult the modesty of a woman",
+    },
+    repealed: { by: "bns", on: "2024-07-01" },
+  },
+  {
+    id: "crpc",
+    name: "Code of Criminal Procedure",
+    year: 1973,
+    aliases: ["CrPC", "Cr.P.C.", "Code of Criminal Procedure", "Criminal Procedure Code"],
+    sections: 484,
+    inserted: [
+      ...lettered(41, "A", "D"),
+      "50A",
+      "53A",
+      "54A",
+      "55A",
+      ...lettered(105, "A", "L"),
+      "164A",
+      "198A",
+      "198B",
+      ...lettered(265, "A", "L"),
+      "291A",
+      ...lettered(357, "A", "C"),
+      "436A",
+      "437A",
+    ],
+    headings: {
+      "41": "When police may arrest without warrant",
+      "41A": "Notice of appearance before police officer",
+      "125": "Order for maintenance of wives, children and parents",
+      "144": "Power to issue order in urgent cases of nuisance or apprehended danger",
+      "154": "Information in cognizable cases",
+      "156": "Police officer's power to investigate cognizable case",
+      "161": "Examination of witnesses by police",
+      "164": "Recording of confessions and statements",
+      "167": "Procedure when investigation cannot be completed in twenty-four hours",
+      "173": "Report of police officer on completion of investigation",
+      "200": "Examination of complainant",
+      "436": "In what cases bail to be taken",
+      "436A": "Maximum period for which an undertrial prisoner can be detained",
+      "437": "When bail may be taken in case of non-bailable offence",
+      "438": "Direction for grant of bail to person apprehending arrest",
+      "439": "Special powers of High Court or Court of Session regarding bail",
+      "482": "Saving of inherent powers of High Court",
+    },
+    repealed: { by: "bnss", on: "2024-07-01" },
+  },
+  {
+    id: "iea",
+    name: "Indian Evidence Act",
+    year: 1872,
+    aliases: ["IEA", "Indian Evidence Act", "Evidence Act"],
+    sections: 167,
+    inserted: [
+      "22A",
+      "45A",
+      "47A",
+      "53A",
+      "65A",
+      "65B",
+      "67A",
+      "73A",
+      "81A",
+      "85A",
+      "85B",
+      "85C",
+      "88A",
+      "90A",
+      "113A",
+      "113B",
+      "114A",
+    ],
+    headings: {
+      "3": "Interpretation-clause",
+      "24": "Confession caused by inducement, threat or promise, when irrelevant in criminal proceeding",
+      "25": "Confession to police officer not to be proved",
+      "27": "How much of information received from accused may be proved",
+      "45": "Opinions of experts",
+      "65B": "Admissibility of electronic records",
+      "101": "Burden of proof",
+      "113A": "Presumption as to abetment of suicide by a married woman",
+      "113B": "Presumption as to dowry death",
+    },
+    repealed: { by: "bsa", on: "2024-07-01" },
+  },
+  {
+    id: "cpc",
+    name: "Code of Civil Procedure",
+    year: 1908,
+    aliases: ["CPC", "C.P.C.", "Code of Civil Procedure", "Civil Procedure Code"],
+    sections: 158,
+    inserted: ["35A", "35B", "100A", "148A"],
+    headings: {
+      "9": "Courts to try all civil suits unless barred",
+      "10": "Stay of suit",
+      "11": "Res judicata",
+      "15": "Court in which suits to be instituted",
+      "16": "Suits to be instituted where subject-matter situate",
+      "20": "Other suits to be instituted where defendants reside or cause of action arises",
+      "80": "Notice",
+      "89": "Settlement of disputes outside the Court",
+      "96": "Appeal from original decree",
+      "100": "Second appeal",
+      "114": "Review",
+      "115": "Revision",
+      "151": "Saving of inherent powers of Court",
+    },
+  },
+  {
+    id: "cpa2019",
+    name: "Consumer Protection Act",
+    year: 2019,
+    aliases: ["CPA", "Consumer Protection Act"],
+    sections: 107,
+    headings: {
+      "2": "Definitions",
+      "34": "Jurisdiction of District Commission",
+      "35": "Manner in which complaint shall be made",
+      "41": "Appeal against order of District Commission",
+      "47": "Jurisdiction of State Commission",
+      "58": "Jurisdiction of National Commission",
+      "69": "Limitation period",
+      "107": "Repeal and savings",
+    },
+  },
+  {
+    id: "cpa1986",
+    name: "Consumer Protection Act",
+    year: 1986,
+    aliases: ["Consumer Protection Act"],
+    sections: 31,
+    inserted: ["24A"],
+    headings: {
+      "11": "Jurisdiction of the District Forum",
+      "12": "Manner in which complaint shall be made",
+      "24A": "Limitation period",
+    },
+    repealed: { by: "cpa2019", on: "2020-07-20" },
+  },
+  {
+    id: "hma",
+    name: "Hindu Marriage Act",
+    year: 1955,
+    aliases: ["HMA", "Hindu Marriage Act"],
+    sections: 30,
+    inserted: ["13A", "13B", "21A", "21B", "21C"],
+    headings: {
+      "5": "Conditions for a Hindu marriage",
+      "7": "Ceremonies for a Hindu marriage",
+      "8": "Registration of Hindu marriages",
+      "9": "Restitution of conjugal rights",
+      "10": "Judicial separation",
+      "11": "Void marriages",
+      "12": "Voidable marriages",
+      "13": "Divorce",
+      "13B": "Divorce by mutual consent",
+      "24": "Maintenance pendente lite and expenses of proceedings",
+      "25": "Permanent alimony and maintenance",
+      "26": "Custody of children",
+    },
+  },
+  {
+    id: "hsa",
+    name: "Hindu Succession Act",
+    year: 1956,
+    aliases: ["HSA", "Hindu Succession Act"],
+    sections: 31,
+    omitted: [
+      { from: "23", to: "24", note: "Omitted by the Hindu Succession (Amendment) Act, 2005" },
+    ],
+    headings: {
+      "6": "Devolution of interest in coparcenary property",
+      "8": "General rules of succession in the case of males",
+      "14": "Property of a female Hindu to be her absolute property",
+      "15": "General rules of succession in the case of female Hindus",
+      "30": "Testamentary succession",
+    },
+  },
+  {
+    id: "sma",
+    name: "Special Marriage Act",
+    year: 1954,
+    aliases: ["SMA", "Special Marriage Act"],
+    sections: 51,
+    headings: {
+      "4": "Conditions relating to solemnization of special marriages",
+      "5": "Notice of intended marriage",
+      "27": "Divorce",
+      "28": "Divorce by mutual consent",
+    },
+  },
+  {
+    id: "tpa",
+    name: "Transfer of Property Act",
+    year: 1882,
+    aliases: ["TPA", "Transfer of Property Act"],
+    sections: 137,
+    inserted: ["53A", "65A", "67A", "69A"],
+    headings: {
+      "5": "\"Transfer of property\" defined",
+      "6": "What may be transferred",
+      "52": "Transfer of property pending suit relating thereto",
+      "53A": "Part performance",
+      "54": "\"Sale\" defined",
+      "58": "\"Mortgage\", \"mortgagor\", \"mortgagee\", \"mortgage-money\" and \"mortgage-deed\" defined",
+      "105": "Lease defined",
+      "106": "Duration of certain leases in absence of written contract or local usage",
+      "107": "Leases how made",
+      "111": "Determination of lease",
+      "122": "\"Gift\" defined",
+      "123": "Transfer how effected",
+    },
+  },
+  {
+    id: "ica",
+    name: "Indian Contract Act",
+    year: 1872,
+    aliases: ["ICA", "Indian Contract Act", "Contract Act"],
+    sections: 266,
+    omitted: [
+      { from: "76", to: "123", note: "Repealed by the Sale of Goods Act, 1930" },
+      { from: "239", to: "266", note: "Repealed by the Indian Partnership Act, 1932" },
+    ],
+    headings: {
+      "2": "Interpretation-clause",
+      "10": "What agreements are contracts",
+      "23": "What consideration and objects are lawful, and what not",
+      "73": "Compensation for loss or damage caused by breach of contract",
+      "74": "Compensation for breach of contract where penalty stipulated for",
+      "124": "\"Contract of indemnity\" defined",
+      "126": "\"Contract of guarantee\", \"surety\", \"principal debtor\" and \"creditor\"",
+    },
+  },
+  {
+    id: "sra",
+    name: "Specific Relief Act",
+    year: 1963,
+    aliases: ["SRA", "Specific Relief Act"],
+    sections: 44,
+    inserted: ["14A", "20A", "20B", "20C"],
+    headings: {
+      "6": "Suit by person dispossessed of immovable property",
+      "10": "Specific performance in respect of contracts",
+      "34": "Discretion of court as to declaration of status or right",
+      "38": "Perpetual injunction when granted",
+    },
+  },
+  {
+    id: "limitation",
+    name: "Limitation Act",
+    year: 1963,
+    aliases: ["Limitation Act"],
+    sections: 32,
+    headings: {
+      "3": "Bar of limitation",
+      "5": "Extension of prescribed period in certain cases",
+      "12": "Exclusion of time in legal proceedings",
+      "14": "Exclusion of time of proceeding bona fide in court without jurisdiction",
+      "18": "Effect of acknowledgment in writing",
+      "29": "Savings",
+    },
+  },
+  {
+    id: "ni",
+    name: "Negotiable Instruments Act",
+    year: 1881,
+    aliases: ["NI Act", "N.I. Act", "Negotiable Instruments Act"],
+    sections: 148,
+    inserted: ["142A", "143A"],
+    headings: {
+      "138": "Dishonour of cheque for insufficiency, etc., of funds in the account",
+      "139": "Presumption in favour of holder",
+      "141": "Offences by companies",
+      "142": "Cognizance of offences",
+      "143A": "Power to direct interim compensation",
+      "148": "Power of Appellate Court to order payment pending appeal against conviction",
+    },
+  },
+  {
+    id: "dv",
+    name: "Protection of Women from Domestic Violence Act",
+    year: 2005,
+    aliases: ["PWDVA", "DV Act", "Protection of Women from Domestic Violence Act", "Domestic Violence Act"],
+    sections: 37,
+    headings: {
+      "3": "Definition of domestic violence",
+      "12": "Application to Magistrate",
+      "17": "Right to reside in a shared household",
+      "18": "Protection orders",
+      "19": "Residence orders",
+      "20": "Monetary reliefs",
+      "21": "Custody orders",
+      "22": "Compensation orders",
+      "31": "Penalty for breach of protection order by respondent",
+    },
+  },
+  {
+    id: "dowry",
+    name: "Dowry Prohibition Act",
+    year: 1961,
+    aliases: ["Dowry Prohibition Act"],
+    sections: 10,
+    inserted: ["4A", "8A", "8B"],
+    headings: {
+      "2": "Definition of 'dowry'",
+      "3": "Penalty for giving or taking dowry",
+      "4": "Penalty for demanding dowry",
+    },
+  },
+  {
+    id: "rti",
+    name: "Right to Information Act",
+    year: 2005,
+    aliases: ["RTI Act", "Right to Information Act"],
+    sections: 31,
+    headings: {
+      "6": "Request for obtaining information",
+      "7": "Disposal of request",
+      "8": "Exemption from disclosure of information",
+      "19": "Appeal",
+      "20": "Penalties",
+    },
+  },
+  {
+    id: "it",
+    name: "Information Technology Act",
+    year: 2000,
+    aliases: ["IT Act", "I.T. Act", "Information Technology Act"],
+    sections: 90,
+    inserted: [
+      "43A",
+      ...lettered(66, "A", "F"),
+      ...lettered(67, "A", "C"),
+      "69A",
+      "69B",
+      "70A",
+      "70B",
+      "72A",
+      "77A",
+      "77B",
+      "79A",
+      ...lettered(84, "A", "C"),
+    ],
+    omitted: [{ from: "66A", note: "Struck down in Shreya Singhal v. Union of India (2015)" }],
+    headings: {
+      "43": "Penalty and compensation for damage to computer, computer system, etc.",
+      "43A": "Compensation for failure to protect data",
+      "66": "Computer related offences",
+      "66C": "Punishment for identity theft",
+      "66D": "Punishment for cheating by personation by using computer resource",
+      "66E": "Punishment for violation of privacy",
+      "67": "Punishment for publishing or transmitting obscene material in electronic form",
+      "79": "Exemption from liability of intermediary in certain cases",
+    },
+  },
+  {
+    id: "arbitration",
+    name: "Arbitration and Conciliation Act",
+    year: 1996,
+    aliases: ["Arbitration and Conciliation Act", "Arbitration Act"],
+    sections: 87,
+    inserted: ["11A", "29A", "29B", "42A", "42B", ...lettered(43, "A", "M")],
+    omitted: [
+      { from: "87", note: "Struck down in Hindustan Construction Company v. Union of India (2019)" },
+    ],
+    headings: {
+      "7": "Arbitration agreement",
+      "8": "Power to refer parties to arbitration where there is an arbitration agreement",
+      "9": "Interim measures, etc., by Court",
+      "11": "Appointment of arbitrators",
+      "29A": "Time limit for arbitral award",
+      "34": "Application for setting aside arbitral award",
+      "36": "Enforcement",
+      "37": "Appealable orders",
+    },
+  },
+];
+
+const byId = new Map(STATUTES.map((statute) => [statute.id, statute]));
+
+export const getStatute = (id: string): Statute | undefined => byId.get(id);
+
+/** "Indian Penal Code, 1860" */
+export const statuteTitle = (statute: Statute) => `${statute.name}, ${statute.year}`;
+
+/**
+ * The act `name` refers to, e.g. "IPC", "the Indian Penal Code, 1860" or
+ * "Consumer Protection Act 1986". Without a year, the act still in force
+ * wins over a repealed one of the same name.
+ */
+export function findStatute(name: string): Statute | undefined {
+  const year = Number(name.match(/\b(1[89]\d\d|20\d\d)\b/)?.[1]);
+  const wanted = normalizeName(name.replace(/,?\s*\b(1[89]\d\d|20\d\d)\b/, ""));
+  const candidates = STATUTES.filter((statute) =>
+    statute.aliases.some((alias) => normalizeName(alias) === wanted)
+  );
+  return (
+    candidates.find((statute) => statute.year === year) ??
+    candidates.find((statute) => !statute.repealed) ??
+    candidates[0]
+  );
+}
+
+const normalizeName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/^the\s+/, "")
+    .replace(/[.,]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/** "498-a", "498A(1)" and "498 A" all become "498A" */
+export const normalizeSection = (section: string) =>
+  section
+    .toUpperCase()
+    .replace(/\(.*$/, "")
+    .replace(/[\s-]/g, "");
+
+const sectionOrder = (section: string): [number, string] => {
+  const [, number = "0", suffix = ""] = section.match(/^(\d+)([A-Z]*)$/) ?? [];
+  return [Number(number), suffix];
+};
+
+const compareSections = (a: string, b: string) => {
+  const [numberA, suffixA] = sectionOrder(a);
+  const [numberB, suffixB] = sectionOrder(b);
+  return numberA - numberB || suffixA.localeCompare(suffixB);
+};
+
+const formatDate = (isoDate: string) =>
+  new Date(isoDate).toLocaleDateString("en-IN", { day: "numeric", month: "long", year: "numeric" });
+
+/**
+ * Whether `section` of `statute` exists, and if so whether it is still law
+ */
+export function lookupSection(statute: Statute, section: string): SectionLookup {
+  const key = normalizeSection(section);
+  const [number, suffix] = sectionOrder(key);
+  const exists =
+    number >= 1 && number <= statute.sections && (!suffix || statute.inserted?.includes(key));
+  if (!exists) return { status: "unknown" };
+
+  const heading = statute.headings[key];
+  const omitted = statute.omitted?.find(
+    ({ from, to = from }) => compareSections(key, from) >= 0 && compareSections(key, to) <= 0
+  );
+  if (omitted) return { status: "repealed", heading, note: omitted.note };
+
+  if (statute.repealed) {
+    const replacement = getStatute(statute.repealed.by);
+    return {
+      status: "repealed",
+      heading,
+      note: `Repealed by the ${replacement ? statuteTitle(replacement) : statute.repealed.by} from ${formatDate(statute.repealed.on)}`,
+    };
+  }
+
+  return { status: "verified", heading };
+}
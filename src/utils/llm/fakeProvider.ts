@@ -0,0 +1,145 @@
+import {
+  InvalidKeyError,
+  NetworkError,
+  QuotaExhaustedError,
+  RateLimitError,
+  SafetyBlockedError,
+  throwIfAborted,
+} from "../errors";
+import { sleep } from "../retry";
+import { FALLBACK_CHAINS } from "./models";
+import { createHistoryChatSession, estimateTokens } from "./shared";
+import type {
+  FakeStep,
+  LLMMessage,
+  LLMProvider,
+  LLMRequest,
+  ProviderConfig,
+  ResponseSchema,
+} from "./types";
+
+// Streamed answers arrive in small chunks with a pause in between, so
+// progressive rendering can be watched
+const CHUNK_SIZE = 48;
+const CHUNK_DELAY = 40;
+
+/**
+ * Smallest document that satisfies `schema`, with every string named after
+ * its field. The fake thereby answers whatever schema the advisor sends.
+ */
+function sampleOf(schema: ResponseSchema, name: string): unknown {
+  switch (schema.type) {
+    case "string":
+      return schema.enum?.[0] ?? `Sample ${name}`;
+    case "number":
+    case "integer":
+      return 1;
+    case "boolean":
+      return true;
+    case "array":
+      return Array.from({ length: Math.max(schema.minItems ?? 0, 2) }, (_, index) =>
+        sampleOf(schema.items, `${name} ${index + 1}`)
+      );
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, sampleOf(value, key)])
+      );
+  }
+}
+
+const lastMessage = (request: LLMRequest, role: LLMMessage["role"]) =>
+  [...request.messages].reverse().find((message) => message.role === role);
+
+const lastUserText = (request: LLMRequest) => lastMessage(request, "user")?.text ?? "";
+
+/**
+ * Offline provider with deterministic answers, for working on the UI
+ * without a key or quota. `config.script` decides the outcome of each
+ * call in turn, e.g. `["rate_limit", "ok"]` fails once and then answers;
+ * the last step repeats.
+ */
+export function createFakeProvider(config: ProviderConfig): LLMProvider {
+  const script: FakeStep[] = config.script?.length ? config.script : ["ok"];
+  let calls = 0;
+  // Rest of every answer served cut off, keyed by the part that was served
+  const truncated = new Map<string, string>();
+
+  const nextStep = (): FakeStep => script[Math.min(calls++, script.length - 1)];
+
+  // Throws for the failure steps; the others shape the answer
+  const run = (request: LLMRequest): FakeStep => {
+    throwIfAborted(request.signal);
+    const step = nextStep();
+    switch (step) {
+      case "rate_limit":
+        throw new RateLimitError(1000);
+      case "quota":
+        throw new QuotaExhaustedError();
+      case "safety":
+        throw new SafetyBlockedError("SAFETY", undefined, "dangerous_content");
+      case "network":
+        throw new NetworkError();
+      case "invalid_key":
+        throw new InvalidKeyError();
+      default:
+        return step;
+    }
+  };
+
+  const answer = (request: LLMRequest, text: string, finish: "stop" | "max_tokens" = "stop") => {
+    const promptTokens = estimateTokens(request);
+    const candidateTokens = Math.ceil(text.length / 4);
+    request.onUsage?.({ promptTokens, candidateTokens, totalTokens: promptTokens + candidateTokens });
+    request.onFinish?.(finish);
+    return text;
+  };
+
+  const structured = (request: LLMRequest) => {
+    const step = run(request);
+    const document = JSON.stringify(
+      request.responseSchema
+        ? sampleOf(request.responseSchema, "answer")
+        : { answer: `Sample answer to: ${lastUserText(request).slice(0, 80)}` }
+    );
+
+    if (step === "malformed") {
+      // A trailing comma, as models sometimes write
+      return answer(request, `${document.slice(0, -1)},}`);
+    }
+    if (step === "truncate") {
+      const half = document.slice(0, Math.ceil(document.length / 2));
+      truncated.set(half, document.slice(half.length));
+      return answer(request, half, "max_tokens");
+    }
+    return answer(request, document);
+  };
+
+  const generate = async (request: LLMRequest) => {
+    run(request);
+    // Asked to continue an answer that was served cut off
+    const previous = lastMessage(request, "model");
+    const rest = previous && truncated.get(previous.text);
+    if (rest !== undefined) return answer(request, rest);
+
+    return answer(request, `Sample answer to: ${lastUserText(request).slice(0, 200)}`);
+  };
+
+  return {
+    name: "fake",
+    defaultModels: FALLBACK_CHAINS.fake,
+    capabilities: { jsonMode: true, responseSchema: true },
+    generate,
+    generateStructured: async (request) => structured(request),
+    async *generateStructuredStream(request) {
+      // Usage and finish reason are reported up front here; real providers
+      // report them after the last chunk
+      const text = structured(request);
+      for (let start = 0; start < text.length; start += CHUNK_SIZE) {
+        await sleep(CHUNK_DELAY, request.signal);
+        yield text.slice(start, start + CHUNK_SIZE);
+      }
+    },
+    startChat: (options) => createHistoryChatSession(generate, options),
+    countTokens: async (request) => estimateTokens(request),
+  };
+}
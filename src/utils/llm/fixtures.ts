@@ -0,0 +1,208 @@
+import {
+  AdvisorError,
+  errorFromCode,
+  SafetyBlockedError,
+  throwIfAborted,
+  UpstreamError,
+  type ErrorCode,
+} from "../errors";
+import { cacheKey } from "../responseCache";
+import { createHistoryChatSession } from "./shared";
+import type {
+  FinishReason,
+  FixtureMode,
+  LLMProvider,
+  LLMRequest,
+  SafetyCategory,
+  TokenUsage,
+} from "./types";
+
+export type FixtureCall = "generate" | "generateStructured" | "generateStructuredStream" | "countTokens";
+
+/** One recorded call to a provider and what came back */
+export interface Fixture {
+  call: FixtureCall;
+  request: Pick<LLMRequest, "model" | "systemInstruction" | "messages" | "generationConfig" | "responseSchema">;
+  text?: string;
+  /** Streamed calls keep their chunks so that replay streams the same way */
+  chunks?: string[];
+  tokens?: number;
+  usage?: TokenUsage;
+  finishReason?: FinishReason;
+  error?: { code: ErrorCode; message: string; category?: SafetyCategory };
+  recordedAt: string;
+}
+
+/**
+ * Where fixtures are kept, e.g. JSON files under `fixtures/llm/`
+ */
+export interface FixtureStore {
+  get(key: string): Promise<Fixture | undefined>;
+  set(key: string, fixture: Fixture): Promise<void>;
+}
+
+/** Same key as the response cache: calls that differ in wording only share a fixture */
+export const fixtureKey = (call: FixtureCall, request: LLMRequest) => cacheKey(call, request);
+
+type Outcome = Omit<Fixture, "call" | "request" | "recordedAt">;
+
+function createRecordingProvider(provider: LLMProvider, store: FixtureStore): LLMProvider {
+  const record = async (call: FixtureCall, request: LLMRequest, outcome: Outcome) => {
+    const { model, systemInstruction, messages, generationConfig, responseSchema } = request;
+    try {
+      await store.set(await fixtureKey(call, request), {
+        call,
+        request: { model, systemInstruction, messages, generationConfig, responseSchema },
+        ...outcome,
+        recordedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.warn("Could not save fixture:", error);
+    }
+  };
+
+  // Cancelled calls say nothing about the provider and are not kept
+  const recordError = (call: FixtureCall, request: LLMRequest, outcome: Outcome, error: unknown) =>
+    error instanceof AdvisorError && error.code !== "cancelled"
+      ? record(call, request, {
+          ...outcome,
+          error: {
+            code: error.code,
+            message: error.message,
+            category: error instanceof SafetyBlockedError ? error.category : undefined,
+          },
+        })
+      : undefined;
+
+  // Pass the request on with its callbacks observed
+  const observe = (request: LLMRequest) => {
+    const outcome: Outcome = {};
+    const observed: LLMRequest = {
+      ...request,
+      onUsage: (usage) => {
+        outcome.usage = usage;
+        request.onUsage?.(usage);
+      },
+      onFinish: (reason) => {
+        outcome.finishReason = reason;
+        request.onFinish?.(reason);
+      },
+    };
+    return { outcome, observed };
+  };
+
+  const recordText =
+    (call: "generate" | "generateStructured") =>
+    async (request: LLMRequest): Promise<string> => {
+      const { outcome, observed } = observe(request);
+      try {
+        const text = await provider[call](observed);
+        await record(call, request, { ...outcome, text });
+        return text;
+      } catch (error) {
+        await recordError(call, request, outcome, error);
+        throw error;
+      }
+    };
+
+  const generate = recordText("generate");
+
+  return {
+    ...provider,
+    generate,
+    generateStructured: recordText("generateStructured"),
+    async *generateStructuredStream(request) {
+      const { outcome, observed } = observe(request);
+      const chunks: string[] = [];
+      try {
+        for await (const chunk of provider.generateStructuredStream(observed)) {
+          chunks.push(chunk);
+          yield chunk;
+        }
+        await record("generateStructuredStream", request, { ...outcome, chunks });
+      } catch (error) {
+        await recordError("generateStructuredStream", request, { ...outcome, chunks }, error);
+        throw error;
+      }
+    },
+    // Recorded as one `generate` call per turn, whatever the provider's own
+    // chat API does
+    startChat: (options) => createHistoryChatSession(generate, options),
+    async countTokens(request) {
+      const tokens = await provider.countTokens(request);
+      await record("countTokens", request, { tokens });
+      return tokens;
+    },
+  };
+}
+
+function createReplayProvider(provider: LLMProvider, store: FixtureStore): LLMProvider {
+  const load = async (call: FixtureCall, request: LLMRequest): Promise<Fixture> => {
+    throwIfAborted(request.signal);
+    const fixture = await store.get(await fixtureKey(call, request));
+    if (!fixture) {
+      throw new UpstreamError(
+        404,
+        `No fixture recorded for this ${call} request to ${request.model}. Record one with LLM_FIXTURES=record.`
+      );
+    }
+    return fixture;
+  };
+
+  // Report what the recorded call reported, then fail the way it failed
+  const settle = (request: LLMRequest, fixture: Fixture) => {
+    if (fixture.usage) request.onUsage?.(fixture.usage);
+    if (fixture.finishReason) request.onFinish?.(fixture.finishReason);
+    if (fixture.error) {
+      const { code, message, category } = fixture.error;
+      throw errorFromCode(code, message, undefined, category);
+    }
+  };
+
+  const replayText = (call: "generate" | "generateStructured") => async (request: LLMRequest) => {
+    const fixture = await load(call, request);
+    settle(request, fixture);
+    return fixture.text ?? "";
+  };
+
+  const generate = replayText("generate");
+
+  return {
+    ...provider,
+    generate,
+    generateStructured: replayText("generateStructured"),
+    async *generateStructuredStream(request) {
+      const fixture = await load("generateStructuredStream", request);
+      for (const chunk of fixture.chunks ?? []) {
+        throwIfAborted(request.signal);
+        yield chunk;
+      }
+      settle(request, fixture);
+    },
+    startChat: (options) => createHistoryChatSession(generate, options),
+    async countTokens(request) {
+      const fixture = await load("countTokens", request);
+      settle(request, fixture);
+      return fixture.tokens ?? 0;
+    },
+  };
+}
+
+/**
+ * `provider` as configured by `mode`: recording every call to `store`,
+ * answering from it without touching the network, or unchanged
+ */
+export function withFixtures(
+  provider: LLMProvider,
+  mode: FixtureMode | undefined,
+  store: FixtureStore
+): LLMProvider {
+  switch (mode) {
+    case "record":
+      return createRecordingProvider(provider, store);
+    case "replay":
+      return createReplayProvider(provider, store);
+    default:
+      return provider;
+  }
+}
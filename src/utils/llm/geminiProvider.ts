@@ -0,0 +1,284 @@
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+  HarmBlockThreshold,
+  HarmCategory,
+  HarmProbability,
+  SchemaType,
+  type Content,
+  type GenerateContentResponse,
+  type SafetyRating,
+  type SafetySetting,
+  type Schema,
+  type UsageMetadata,
+} from "@google/generative-ai";
+import {
+  errorFromResponse,
+  isAbortError,
+  NetworkError,
+  parseRetryDelay,
+  RequestCancelledError,
+  SafetyBlockedError,
+} from "../errors";
+import { FALLBACK_CHAINS } from "./models";
+import type {
+  FinishReason,
+  LLMChatOptions,
+  LLMChatSession,
+  LLMMessage,
+  LLMProvider,
+  LLMRequest,
+  ProviderConfig,
+  ResponseSchema,
+  SafetyCategory,
+  SafetySettings,
+  SafetyThreshold,
+  TokenUsage,
+} from "./types";
+
+const toContents = (messages: LLMMessage[]): Content[] =>
+  messages.map((message) => ({
+    role: message.role,
+    parts: [{ text: message.text }],
+  }));
+
+const toGeminiSchema = (schema: ResponseSchema): Schema => {
+  const base = { description: schema.description, nullable: schema.nullable };
+
+  switch (schema.type) {
+    case "string":
+      return schema.enum
+        ? { ...base, type: SchemaType.STRING, format: "enum", enum: schema.enum }
+        : { ...base, type: SchemaType.STRING };
+    case "number":
+      return { ...base, type: SchemaType.NUMBER };
+    case "integer":
+      return { ...base, type: SchemaType.INTEGER };
+    case "boolean":
+      return { ...base, type: SchemaType.BOOLEAN };
+    case "array":
+      return { ...base, type: SchemaType.ARRAY, items: toGeminiSchema(schema.items), minItems: schema.minItems };
+    case "object":
+      return {
+        ...base,
+        type: SchemaType.OBJECT,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+        ),
+        required: schema.required,
+      };
+  }
+};
+
+// `google.rpc.RetryInfo` in the details of a 429 says how long to back off
+const retryDelayOf = (error: GoogleGenerativeAIFetchError): number | undefined => {
+  const retryInfo = error.errorDetails?.find((detail) => "retryDelay" in detail);
+  return parseRetryDelay(retryInfo?.retryDelay as string | undefined);
+};
+
+const reportUsage = (onUsage?: (usage: TokenUsage) => void, metadata?: UsageMetadata) => {
+  if (!onUsage || !metadata) return;
+  onUsage({
+    promptTokens: metadata.promptTokenCount ?? 0,
+    // Missing when nothing was generated, e.g. a blocked prompt
+    candidateTokens: metadata.candidatesTokenCount ?? 0,
+    totalTokens: metadata.totalTokenCount ?? 0,
+  });
+};
+
+const HARM_CATEGORIES: Record<SafetyCategory, HarmCategory> = {
+  harassment: HarmCategory.HARM_CATEGORY_HARASSMENT,
+  hate_speech: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  sexually_explicit: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  dangerous_content: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+};
+
+const THRESHOLDS: Record<SafetyThreshold, HarmBlockThreshold> = {
+  block_none: HarmBlockThreshold.BLOCK_NONE,
+  block_only_high: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+  block_medium_and_above: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  block_low_and_above: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
+};
+
+const PROBABILITY_RANK: HarmProbability[] = [
+  HarmProbability.NEGLIGIBLE,
+  HarmProbability.LOW,
+  HarmProbability.MEDIUM,
+  HarmProbability.HIGH,
+];
+
+// Finish reasons `text()` does not throw on although nothing usable came back
+const BLOCKING_FINISH_REASONS = ["BLOCKLIST", "PROHIBITED_CONTENT", "SPII"];
+
+const toSafetySettings = (settings?: SafetySettings): SafetySetting[] | undefined =>
+  settings &&
+  Object.entries(settings).map(([category, threshold]) => ({
+    category: HARM_CATEGORIES[category as SafetyCategory],
+    threshold: THRESHOLDS[threshold],
+  }));
+
+const blockReasonOf = (response?: GenerateContentResponse): string | undefined =>
+  response?.promptFeedback?.blockReason ?? response?.candidates?.[0]?.finishReason;
+
+/**
+ * The category rated most likely harmful, for the prompt if it was blocked,
+ * otherwise for the answer
+ */
+const blockCategoryOf = (response?: GenerateContentResponse): SafetyCategory | undefined => {
+  const ratings: SafetyRating[] =
+    response?.promptFeedback?.safetyRatings ?? response?.candidates?.[0]?.safetyRatings ?? [];
+  const [worst] = [...ratings].sort(
+    (a, b) => PROBABILITY_RANK.indexOf(b.probability) - PROBABILITY_RANK.indexOf(a.probability)
+  );
+  const entry = Object.entries(HARM_CATEGORIES).find(([, category]) => category === worst?.category);
+  return entry?.[0] as SafetyCategory | undefined;
+};
+
+const finishReasonOf = (response: GenerateContentResponse): FinishReason => {
+  const reason = response.candidates?.[0]?.finishReason;
+  if (reason && BLOCKING_FINISH_REASONS.includes(reason)) {
+    throw new SafetyBlockedError(reason, undefined, blockCategoryOf(response));
+  }
+  if (reason === "MAX_TOKENS") return "max_tokens";
+  return !reason || reason === "STOP" ? "stop" : "other";
+};
+
+/**
+ * Translate the SDK's errors into the typed errors in errors.ts
+ */
+const toTypedError = (error: unknown): unknown => {
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    return errorFromResponse(error.status ?? 0, error.message, retryDelayOf(error));
+  }
+  if (error instanceof GoogleGenerativeAIResponseError) {
+    return new SafetyBlockedError(blockReasonOf(error.response), undefined, blockCategoryOf(error.response));
+  }
+  if (error instanceof GoogleGenerativeAIAbortError || isAbortError(error)) {
+    return new RequestCancelledError();
+  }
+  // The SDK wraps failed fetches (DNS, offline, CORS) in its base error
+  if (error instanceof GoogleGenerativeAIError && error.message.includes("Error fetching from")) {
+    return new NetworkError();
+  }
+  return error;
+};
+
+async function withTypedErrors<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    throw toTypedError(error);
+  }
+}
+
+const jsonConfig = (request: LLMRequest) => ({
+  ...request.generationConfig,
+  responseMimeType: "application/json",
+  responseSchema: request.responseSchema && toGeminiSchema(request.responseSchema),
+});
+
+/**
+ * Adapter for Google Gemini through the official SDK
+ */
+export function createGeminiProvider(config: ProviderConfig): LLMProvider {
+  const genAI = new GoogleGenerativeAI(config.apiKey ?? "");
+  const requestOptions = config.baseUrl ? { baseUrl: config.baseUrl } : undefined;
+
+  const getModel = (request: Pick<LLMRequest, "model" | "systemInstruction" | "safetySettings">) =>
+    genAI.getGenerativeModel(
+      {
+        model: request.model,
+        systemInstruction: request.systemInstruction,
+        safetySettings: toSafetySettings(request.safetySettings),
+      },
+      requestOptions
+    );
+
+  const generate = (request: LLMRequest, json = false) =>
+    withTypedErrors(async () => {
+      const result = await getModel(request).generateContent(
+        {
+          contents: toContents(request.messages),
+          generationConfig: json ? jsonConfig(request) : request.generationConfig,
+        },
+        { signal: request.signal }
+      );
+      reportUsage(request.onUsage, result.response.usageMetadata);
+      const text = result.response.text();
+      request.onFinish?.(finishReasonOf(result.response));
+      return text;
+    });
+
+  return {
+    name: "gemini",
+    defaultModels: FALLBACK_CHAINS.gemini,
+    capabilities: { jsonMode: true, responseSchema: true },
+
+    generate: (request) => generate(request),
+
+    generateStructured: (request) => generate(request, true),
+
+    async *generateStructuredStream(request) {
+      try {
+        const result = await getModel(request).generateContentStream(
+          {
+            contents: toContents(request.messages),
+            generationConfig: jsonConfig(request),
+          },
+          { signal: request.signal }
+        );
+        for await (const chunk of result.stream) {
+          yield chunk.text();
+        }
+        // The aggregated response carries the counts and finish reason of
+        // the last chunk
+        const response = await result.response;
+        reportUsage(request.onUsage, response.usageMetadata);
+        request.onFinish?.(finishReasonOf(response));
+      } catch (error) {
+        throw toTypedError(error);
+      }
+    },
+
+    startChat(options: LLMChatOptions): LLMChatSession {
+      const history: LLMMessage[] = [...(options.history ?? [])];
+      const chat = getModel(options).startChat({
+        history: toContents(history),
+        generationConfig: options.generationConfig,
+      });
+
+      return {
+        async sendMessage(message: string, signal?: AbortSignal) {
+          // `text()` throws on a blocked response, so it is read inside
+          // `withTypedErrors` too
+          const reply = await withTypedErrors(async () => {
+            const { response } = await chat.sendMessage(message, { signal });
+            reportUsage(options.onUsage, response.usageMetadata);
+            const text = response.text();
+            // Throws for the blocks that `text()` lets through
+            finishReasonOf(response);
+            return text;
+          });
+          // The SDK keeps its own history; mirror it in the shared shape
+          history.push({ role: "user", text: message }, { role: "model", text: reply });
+          return reply;
+        },
+        getHistory() {
+          return [...history];
+        },
+      };
+    },
+
+    countTokens: (request) =>
+      withTypedErrors(async () => {
+        const { totalTokens } = await getModel(request).countTokens(
+          { contents: toContents(request.messages) },
+          { signal: request.signal }
+        );
+        return totalTokens;
+      }),
+  };
+}
@@ -0,0 +1,88 @@
+import { createFakeProvider } from "./fakeProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createLocalProvider } from "./localProvider";
+import { createOpenAIProvider } from "./openaiProvider";
+import type { FakeStep, FixtureMode, LLMProvider, ProviderConfig, ProviderName } from "./types";
+
+export type * from "./types";
+export type { Fixture, FixtureCall, FixtureStore } from "./fixtures";
+export { withFixtures } from "./fixtures";
+export type { ModelCapabilities, ModelDefinition } from "./models";
+export { describeModel, FALLBACK_CHAINS, MODELS, resolveChain } from "./models";
+
+const PROVIDERS: Record<ProviderName, (config: ProviderConfig) => LLMProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAIProvider,
+  local: createLocalProvider,
+  fake: createFakeProvider,
+};
+
+/** A provider setting that is not one of the values it can take */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+// Records so that adding a step or mode to its type without listing it here fails to compile
+const FAKE_STEPS: Record<FakeStep, true> = {
+  ok: true,
+  rate_limit: true,
+  quota: true,
+  safety: true,
+  malformed: true,
+  truncate: true,
+  network: true,
+  invalid_key: true,
+};
+
+const FIXTURE_MODES: Record<FixtureMode, true> = { record: true, replay: true };
+
+/** `value` if it is a key of `allowed`; otherwise a `ConfigError` naming the variable and the value */
+export function oneOf<T extends string>(name: string, value: string, allowed: Record<T, true>): T {
+  if (!Object.prototype.hasOwnProperty.call(allowed, value)) {
+    throw new ConfigError(`Invalid ${name} "${value}": expected one of ${Object.keys(allowed).join(", ")}`);
+  }
+  return value as T;
+}
+
+export function createProvider(config: ProviderConfig): LLMProvider {
+  const factory = PROVIDERS[config.provider];
+  if (!factory) {
+    throw new ConfigError(`Unknown LLM provider "${config.provider}"`);
+  }
+  return factory(config);
+}
+
+/**
+ * Build a provider config from `VITE_LLM_*` style variables. Gemini keeps
+ * reading its key from `VITE_GEMINI_KEY` so existing `.env` files still work.
+ * The server passes an empty prefix and reads `LLM_*` / `GEMINI_KEY`.
+ * `LLM_FAKE_SCRIPT` is a comma-separated list of `FakeStep`s and
+ * `LLM_FIXTURES` is `record` or `replay`; anything else throws a
+ * `ConfigError`.
+ */
+export function readProviderConfig(
+  env: Record<string, string | undefined>,
+  prefix = "VITE_"
+): ProviderConfig {
+  const read = (name: string) => env[`${prefix}${name}`] || undefined;
+  const provider = (read("LLM_PROVIDER") ?? "gemini") as ProviderName;
+  const list = (name: string) =>
+    read(name)
+      ?.split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+  const models = list("LLM_MODELS");
+  const fixtures = read("LLM_FIXTURES");
+
+  return {
+    provider,
+    apiKey: provider === "gemini" ? read("GEMINI_KEY") : read("LLM_API_KEY"),
+    baseUrl: read("LLM_BASE_URL"),
+    models: models?.length ? models : undefined,
+    script: list("LLM_FAKE_SCRIPT")?.map((step) => oneOf(`${prefix}LLM_FAKE_SCRIPT step`, step, FAKE_STEPS)),
+    fixtures: fixtures === undefined ? undefined : oneOf(`${prefix}LLM_FIXTURES`, fixtures, FIXTURE_MODES),
+  };
+}
@@ -0,0 +1,116 @@
+import { ParseError } from "../errors";
+import {
+  createHistoryChatSession,
+  estimateTokens,
+  post,
+  postJSON,
+  readLines,
+} from "./shared";
+import { FALLBACK_CHAINS } from "./models";
+import type { FinishReason, LLMProvider, LLMRequest, ProviderConfig } from "./types";
+
+interface LocalChatResponse {
+  message?: { content: string };
+  done?: boolean;
+  /** Why generation stopped, sent with the final message */
+  done_reason?: string;
+  /** Token counts, sent with the final message */
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+const reportUsage = (request: LLMRequest, data: LocalChatResponse) => {
+  if (data.prompt_eval_count === undefined && data.eval_count === undefined) return;
+  const promptTokens = data.prompt_eval_count ?? 0;
+  const candidateTokens = data.eval_count ?? 0;
+  request.onUsage?.({ promptTokens, candidateTokens, totalTokens: promptTokens + candidateTokens });
+};
+
+const reportFinish = (request: LLMRequest, data: LocalChatResponse) => {
+  if (!data.done_reason) return;
+  const finish: FinishReason =
+    data.done_reason === "length" ? "max_tokens" : data.done_reason === "stop" ? "stop" : "other";
+  request.onFinish?.(finish);
+};
+
+/**
+ * Adapter for self-hosted models behind an Ollama-style `/api/chat`
+ * endpoint (Ollama, or llama.cpp via an Ollama-compatible shim). Nothing
+ * leaves the machine the server runs on.
+ */
+export function createLocalProvider(config: ProviderConfig): LLMProvider {
+  const baseUrl = (config.baseUrl ?? "http://localhost:11434").replace(/\/$/, "");
+
+  const toBody = (request: LLMRequest, json: boolean, stream: boolean) => {
+    const messages = [
+      ...(request.systemInstruction
+        ? [{ role: "system", content: request.systemInstruction }]
+        : []),
+      ...request.messages.map((message) => ({
+        role: message.role === "model" ? "assistant" : "user",
+        content: message.text,
+      })),
+    ];
+
+    return {
+      model: request.model,
+      messages,
+      stream,
+      ...(json ? { format: "json" } : {}),
+      options: {
+        num_predict: request.generationConfig?.maxOutputTokens,
+        temperature: request.generationConfig?.temperature,
+        top_p: request.generationConfig?.topP,
+        top_k: request.generationConfig?.topK,
+      },
+    };
+  };
+
+  const complete = async (request: LLMRequest, json: boolean) => {
+    const data = await postJSON<LocalChatResponse>(
+      `${baseUrl}/api/chat`,
+      toBody(request, json, false),
+      {},
+      request.signal
+    );
+
+    reportUsage(request, data);
+    reportFinish(request, data);
+    return data.message?.content ?? "";
+  };
+
+  async function* stream(request: LLMRequest) {
+    const response = await post(`${baseUrl}/api/chat`, toBody(request, true, true), {}, request.signal);
+
+    // Newline-delimited JSON, one partial message per line
+    for await (const line of readLines(response)) {
+      let data: LocalChatResponse;
+      try {
+        data = JSON.parse(line);
+      } catch {
+        throw new ParseError(`Malformed stream line: ${line.slice(0, 100)}`);
+      }
+      if (data.message?.content) yield data.message.content;
+      if (data.done) {
+        reportUsage(request, data);
+        reportFinish(request, data);
+        return;
+      }
+    }
+  }
+
+  const generate = (request: LLMRequest) => complete(request, false);
+
+  return {
+    name: "local",
+    defaultModels: FALLBACK_CHAINS.local,
+    // `format: "json"` is a hint many local servers ignore, so their
+    // output still goes through the lenient extraction path
+    capabilities: { jsonMode: false, responseSchema: false },
+    generate,
+    generateStructured: (request) => complete(request, true),
+    generateStructuredStream: stream,
+    startChat: (options) => createHistoryChatSession(generate, options),
+    countTokens: async (request) => estimateTokens(request),
+  };
+}
@@ -0,0 +1,129 @@
+import type { RateLimitConfig } from "../rateLimiter";
+import type { GenerationConfig, ProviderCapabilities, ProviderName } from "./types";
+
+export interface ModelCapabilities extends ProviderCapabilities {
+  /** Accepts images alongside text */
+  vision: boolean;
+}
+
+export interface ModelDefinition {
+  /** Name sent to the provider's API */
+  id: string;
+  /** Name shown in the model picker */
+  label: string;
+  provider: ProviderName;
+  capabilities: ModelCapabilities;
+  /** Input token limit, prompt and answer together */
+  contextWindow?: number;
+  /** Defaults for every request; a task's own settings take precedence */
+  generationConfig?: GenerationConfig;
+  /** Overridden by `LLM_RATE_LIMITS` */
+  rateLimit?: Partial<RateLimitConfig>;
+}
+
+const GEMINI_CAPABILITIES: ModelCapabilities = { jsonMode: true, responseSchema: true, vision: true };
+const GEMINI_GENERATION_CONFIG: GenerationConfig = { topP: 0.8, topK: 20 };
+
+export const MODELS: ModelDefinition[] = [
+  {
+    id: "gemini-2.5-flash",
+    label: "Gemini 2.5 Flash",
+    provider: "gemini",
+    capabilities: GEMINI_CAPABILITIES,
+    contextWindow: 1_048_576,
+    generationConfig: GEMINI_GENERATION_CONFIG,
+    rateLimit: { maxRequestsPerMinute: 10 },
+  },
+  {
+    id: "gemini-2.5-pro",
+    label: "Gemini 2.5 Pro",
+    provider: "gemini",
+    capabilities: GEMINI_CAPABILITIES,
+    contextWindow: 1_048_576,
+    generationConfig: GEMINI_GENERATION_CONFIG,
+    rateLimit: { maxRequestsPerMinute: 5, minInterval: 12000 },
+  },
+  {
+    id: "gemini-2.5-flash-lite",
+    label: "Gemini 2.5 Flash-Lite",
+    provider: "gemini",
+    capabilities: GEMINI_CAPABILITIES,
+    contextWindow: 1_048_576,
+    generationConfig: GEMINI_GENERATION_CONFIG,
+    rateLimit: { maxRequestsPerMinute: 15 },
+  },
+  {
+    id: "gpt-4o-mini",
+    label: "GPT-4o mini",
+    provider: "openai",
+    capabilities: { jsonMode: true, responseSchema: false, vision: true },
+    contextWindow: 128_000,
+    generationConfig: { topP: 0.8 },
+  },
+  {
+    id: "gpt-4o",
+    label: "GPT-4o",
+    provider: "openai",
+    capabilities: { jsonMode: true, responseSchema: false, vision: true },
+    contextWindow: 128_000,
+    generationConfig: { topP: 0.8 },
+  },
+  {
+    id: "llama3.1",
+    label: "Llama 3.1",
+    provider: "local",
+    capabilities: { jsonMode: false, responseSchema: false, vision: false },
+    // Ollama's default `num_ctx` is smaller; raise it to use the full window
+    contextWindow: 8192,
+    generationConfig: { topP: 0.8 },
+    // Runs on your own machine, so there is no quota to protect
+    rateLimit: { maxRequestsPerMinute: 60, minInterval: 0 },
+  },
+  {
+    id: "fake",
+    label: "Fake (offline)",
+    provider: "fake",
+    capabilities: { jsonMode: true, responseSchema: true, vision: false },
+    contextWindow: 32_768,
+    rateLimit: { maxRequestsPerMinute: 60, minInterval: 0 },
+  },
+];
+
+/** Models tried in order when `LLM_MODELS` is not set */
+export const FALLBACK_CHAINS: Record<ProviderName, string[]> = {
+  gemini: ["gemini-2.5-flash", "gemini-2.5-pro", "gemini-2.5-flash-lite"],
+  openai: ["gpt-4o-mini", "gpt-4o"],
+  local: ["llama3.1"],
+  fake: ["fake"],
+};
+
+/**
+ * Registry entry for a model of `provider`. Models missing from the
+ * registry (e.g. set through `LLM_MODELS`) get the provider's capabilities
+ * and no defaults.
+ */
+export function describeModel(
+  provider: ProviderName,
+  id: string,
+  capabilities: ProviderCapabilities
+): ModelDefinition {
+  return (
+    MODELS.find((model) => model.provider === provider && model.id === id) ?? {
+      id,
+      label: id,
+      provider,
+      capabilities: { ...capabilities, vision: false },
+    }
+  );
+}
+
+/**
+ * The chain to try for one request: `preferred` first when it is part of
+ * the chain, then the others in their configured order
+ */
+export function resolveChain(chain: string[], preferred?: string): string[] {
+  const models = [...new Set(chain)];
+  return preferred && models.includes(preferred)
+    ? [preferred, ...models.filter((model) => model !== preferred)]
+    : models;
+}
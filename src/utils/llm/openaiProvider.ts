@@ -0,0 +1,130 @@
+import { ParseError, SafetyBlockedError } from "../errors";
+import {
+  createHistoryChatSession,
+  estimateTokens,
+  post,
+  postJSON,
+  readLines,
+} from "./shared";
+import { FALLBACK_CHAINS } from "./models";
+import type { FinishReason, LLMProvider, LLMRequest, ProviderConfig } from "./types";
+
+interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+interface ChatCompletionResponse {
+  choices: { message: { content: string | null }; finish_reason?: string | null }[];
+  usage?: CompletionUsage;
+}
+
+interface ChatCompletionChunk {
+  choices: { delta: { content?: string | null }; finish_reason?: string | null }[];
+  /** Only on the last chunk, and only with `stream_options.include_usage` */
+  usage?: CompletionUsage | null;
+}
+
+const reportUsage = (request: LLMRequest, usage?: CompletionUsage | null) => {
+  if (!usage) return;
+  request.onUsage?.({
+    promptTokens: usage.prompt_tokens,
+    candidateTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  });
+};
+
+// Only the last choice of a stream carries a finish reason
+const reportFinish = (request: LLMRequest, reason: string | null | undefined) => {
+  if (!reason) return;
+  if (reason === "content_filter") throw new SafetyBlockedError(reason);
+  const finish: FinishReason = reason === "length" ? "max_tokens" : reason === "stop" ? "stop" : "other";
+  request.onFinish?.(finish);
+};
+
+/**
+ * Adapter for any OpenAI-compatible `/chat/completions` endpoint (OpenAI,
+ * Azure, vLLM, LM Studio, llama.cpp's server in OpenAI mode, ...)
+ */
+export function createOpenAIProvider(config: ProviderConfig): LLMProvider {
+  const baseUrl = (config.baseUrl ?? "https://api.openai.com/v1").replace(/\/$/, "");
+  const headers: Record<string, string> = config.apiKey
+    ? { Authorization: `Bearer ${config.apiKey}` }
+    : {};
+
+  const toBody = (request: LLMRequest, json: boolean) => {
+    const messages = [
+      ...(request.systemInstruction
+        ? [{ role: "system", content: request.systemInstruction }]
+        : []),
+      ...request.messages.map((message) => ({
+        role: message.role === "model" ? "assistant" : "user",
+        content: message.text,
+      })),
+    ];
+
+    return {
+      model: request.model,
+      messages,
+      max_tokens: request.generationConfig?.maxOutputTokens,
+      temperature: request.generationConfig?.temperature,
+      top_p: request.generationConfig?.topP,
+      ...(json ? { response_format: { type: "json_object" } } : {}),
+    };
+  };
+
+  const complete = async (request: LLMRequest, json: boolean) => {
+    const data = await postJSON<ChatCompletionResponse>(
+      `${baseUrl}/chat/completions`,
+      toBody(request, json),
+      headers,
+      request.signal
+    );
+
+    reportFinish(request, data.choices[0]?.finish_reason);
+    reportUsage(request, data.usage);
+    return data.choices[0]?.message.content ?? "";
+  };
+
+  async function* stream(request: LLMRequest) {
+    const response = await post(
+      `${baseUrl}/chat/completions`,
+      { ...toBody(request, true), stream: true, stream_options: { include_usage: true } },
+      headers,
+      request.signal
+    );
+
+    // Server-sent events: `data: {...}` lines terminated by `data: [DONE]`
+    for await (const line of readLines(response)) {
+      if (!line.startsWith("data:")) continue;
+      const data = line.slice("data:".length).trim();
+      if (data === "[DONE]") return;
+      let chunk: ChatCompletionChunk;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        throw new ParseError(`Malformed stream chunk: ${data.slice(0, 100)}`);
+      }
+      reportFinish(request, chunk.choices[0]?.finish_reason);
+      reportUsage(request, chunk.usage);
+      const delta = chunk.choices[0]?.delta.content;
+      if (delta) yield delta;
+    }
+  }
+
+  const generate = (request: LLMRequest) => complete(request, false);
+
+  return {
+    name: "openai",
+    defaultModels: FALLBACK_CHAINS.openai,
+    // `json_object` mode is widely supported; `json_schema` is not
+    capabilities: { jsonMode: true, responseSchema: false },
+    generate,
+    generateStructured: (request) => complete(request, true),
+    generateStructuredStream: stream,
+    startChat: (options) => createHistoryChatSession(generate, options),
+    // The chat completions API has no token counting endpoint
+    countTokens: async (request) => estimateTokens(request),
+  };
+}
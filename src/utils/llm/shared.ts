@@ -0,0 +1,141 @@
+import {
+  errorFromResponse,
+  isAbortError,
+  NetworkError,
+  parseRetryDelay,
+  RequestCancelledError,
+} from "../errors";
+import type {
+  LLMChatOptions,
+  LLMChatSession,
+  LLMMessage,
+  LLMRequest,
+} from "./types";
+
+/**
+ * Chat session for adapters whose APIs are stateless: keeps the history
+ * locally and replays it on every turn.
+ */
+export function createHistoryChatSession(
+  generate: (request: LLMRequest) => Promise<string>,
+  options: LLMChatOptions
+): LLMChatSession {
+  const history: LLMMessage[] = [...(options.history ?? [])];
+
+  return {
+    async sendMessage(message: string, signal?: AbortSignal) {
+      const userMessage: LLMMessage = { role: "user", text: message };
+      const reply = await generate({
+        model: options.model,
+        messages: [...history, userMessage],
+        systemInstruction: options.systemInstruction,
+        generationConfig: options.generationConfig,
+        signal,
+        onUsage: options.onUsage,
+        safetySettings: options.safetySettings,
+      });
+      history.push(userMessage, { role: "model", text: reply });
+      return reply;
+    },
+    getHistory() {
+      return [...history];
+    },
+  };
+}
+
+/**
+ * Rough token estimate (~4 characters per token) for backends without a
+ * tokenizer endpoint.
+ */
+export function estimateTokens(request: LLMRequest): number {
+  const chars =
+    (request.systemInstruction?.length ?? 0) +
+    request.messages.reduce((total, message) => total + message.text.length, 0);
+  return Math.ceil(chars / 4);
+}
+
+/**
+ * POST a JSON body. Failures are thrown as the typed errors in errors.ts.
+ */
+export async function post(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw new RequestCancelledError();
+    console.error(`Request to ${url} failed:`, error);
+    throw new NetworkError();
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw errorFromResponse(
+      response.status,
+      detail,
+      parseRetryDelay(response.headers.get("Retry-After"))
+    );
+  }
+
+  return response;
+}
+
+/**
+ * POST a JSON body and return the parsed JSON response
+ */
+export async function postJSON<T>(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await post(url, body, headers, signal);
+  try {
+    return (await response.json()) as T;
+  } catch (error) {
+    if (isAbortError(error)) throw new RequestCancelledError();
+    throw error;
+  }
+}
+
+/**
+ * Yield the non-empty lines of a streamed response body (SSE or NDJSON)
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+
+  while (true) {
+    let chunk: Awaited<ReturnType<typeof reader.read>>;
+    try {
+      chunk = await reader.read();
+    } catch (error) {
+      // The request's signal fired while the body was still streaming
+      if (isAbortError(error)) throw new RequestCancelledError();
+      throw error;
+    }
+    const { done, value } = chunk;
+    pending += decoder.decode(value, { stream: !done });
+
+    const lines = pending.split("\n");
+    pending = done ? "" : lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (line.trim()) yield line.trim();
+    }
+
+    if (done) return;
+  }
+}
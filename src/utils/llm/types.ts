@@ -0,0 +1,129 @@
+// Provider-agnostic types shared by every LLM adapter
+
+export type ProviderName = "gemini" | "openai" | "local" | "fake";
+
+export interface GenerationConfig {
+  maxOutputTokens?: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+}
+
+/** Token counts the provider reported for one call */
+export interface TokenUsage {
+  promptTokens: number;
+  candidateTokens: number;
+  totalTokens: number;
+}
+
+/** Harm categories a safety setting can be given for */
+export type SafetyCategory = "harassment" | "hate_speech" | "sexually_explicit" | "dangerous_content";
+
+/** Lowest harm probability that gets a response blocked */
+export type SafetyThreshold = "block_none" | "block_only_high" | "block_medium_and_above" | "block_low_and_above";
+
+/** Categories left out keep the provider's default */
+export type SafetySettings = Partial<Record<SafetyCategory, SafetyThreshold>>;
+
+/**
+ * Why the model stopped. Safety stops are thrown as `SafetyBlockedError`
+ * instead, since there is no usable answer.
+ */
+export type FinishReason = "stop" | "max_tokens" | "other";
+
+export interface LLMMessage {
+  role: "user" | "model";
+  text: string;
+}
+
+/**
+ * The OpenAPI subset that JSON-mode backends accept for constraining
+ * structured output
+ */
+export type ResponseSchema = { description?: string; nullable?: boolean } & (
+  | { type: "string"; enum?: string[] }
+  | { type: "number" | "integer" | "boolean" }
+  | { type: "array"; items: ResponseSchema; minItems?: number }
+  | { type: "object"; properties: Record<string, ResponseSchema>; required?: string[] }
+);
+
+export interface LLMRequest {
+  model: string;
+  messages: LLMMessage[];
+  systemInstruction?: string;
+  generationConfig?: GenerationConfig;
+  /** Only sent by `generateStructured*` on providers that support schemas */
+  responseSchema?: ResponseSchema;
+  /** Aborts the underlying HTTP request */
+  signal?: AbortSignal;
+  /** Called once the provider has reported the call's token counts */
+  onUsage?: (usage: TokenUsage) => void;
+  /** Only applied by providers with configurable filters (Gemini) */
+  safetySettings?: SafetySettings;
+  /** Called with the reason the model stopped, once it is known */
+  onFinish?: (reason: FinishReason) => void;
+}
+
+export interface ProviderCapabilities {
+  /** The backend guarantees bare JSON output (no fences or prose) */
+  jsonMode: boolean;
+  /** The backend constrains output to `LLMRequest.responseSchema` */
+  responseSchema: boolean;
+}
+
+export interface LLMChatOptions {
+  model: string;
+  history?: LLMMessage[];
+  systemInstruction?: string;
+  generationConfig?: GenerationConfig;
+  /** Called after every turn that reported token counts */
+  onUsage?: (usage: TokenUsage) => void;
+  safetySettings?: SafetySettings;
+}
+
+export interface LLMChatSession {
+  sendMessage(message: string, signal?: AbortSignal): Promise<string>;
+  getHistory(): LLMMessage[];
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  /** Models tried in order when the caller does not configure any */
+  readonly defaultModels: string[];
+  readonly capabilities: ProviderCapabilities;
+  /** Plain text completion */
+  generate(request: LLMRequest): Promise<string>;
+  /** Completion that should come back as a single JSON document (raw text) */
+  generateStructured(request: LLMRequest): Promise<string>;
+  /** Same as `generateStructured`, yielding text deltas as they arrive */
+  generateStructuredStream(request: LLMRequest): AsyncIterable<string>;
+  startChat(options: LLMChatOptions): LLMChatSession;
+  countTokens(request: LLMRequest): Promise<number>;
+}
+
+/**
+ * Outcome of one call to the fake provider: a normal answer, or one of the
+ * failures the UI has to handle
+ */
+export type FakeStep =
+  | "ok"
+  | "rate_limit"
+  | "quota"
+  | "safety"
+  | "malformed"
+  | "truncate"
+  | "network"
+  | "invalid_key";
+
+/** `record` saves every call as a fixture, `replay` answers from them */
+export type FixtureMode = "record" | "replay";
+
+export interface ProviderConfig {
+  provider: ProviderName;
+  apiKey?: string;
+  baseUrl?: string;
+  models?: string[];
+  /** Fake provider only: one step per call, the last one repeats */
+  script?: FakeStep[];
+  fixtures?: FixtureMode;
+}
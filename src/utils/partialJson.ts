@@ -0,0 +1,164 @@
+/**
+ * Incremental parser for a JSON document that arrives in chunks.
+ *
+ * After every `push` it can produce the most complete valid JSON value seen
+ * so far: open strings that are values are closed (so long texts grow while
+ * streaming), half-written keys, literals and trailing commas are cut back
+ * to the last complete value, and open objects/arrays are closed. Any text
+ * before the first `{` or `[` (for example a ```json fence) is ignored.
+ */
+
+type Container = { kind: "object"; expectKey: boolean } | { kind: "array" };
+
+const closerFor = (container: Container) => (container.kind === "object" ? "}" : "]");
+
+export class PartialJSONParser {
+  private buffer = "";
+  private started = false;
+  private done = false;
+  private stack: Container[] = [];
+  private inString = false;
+  private stringIsKey = false;
+  private escapeStart = -1;
+  private unicodeDigits = 0;
+  // Buffer length and closing brackets at the last point where everything
+  // before it formed complete values
+  private safeLength = 0;
+  private safeClosers = "";
+
+  /** Feed the next chunk and return the best value parsed so far */
+  push(chunk: string): unknown {
+    for (const char of chunk) {
+      if (this.done) break;
+      this.consume(char);
+    }
+    return this.value();
+  }
+
+  /** Whether the top-level value has been closed */
+  get complete(): boolean {
+    return this.done;
+  }
+
+  /** The text consumed so far, starting at the first `{` or `[` */
+  get text(): string {
+    return this.buffer;
+  }
+
+  value(): unknown {
+    if (!this.started) return undefined;
+
+    let candidate: string;
+    if (this.inString && !this.stringIsKey) {
+      const text = this.escapeStart >= 0 ? this.buffer.slice(0, this.escapeStart) : this.buffer;
+      candidate = `${text}"${this.closers()}`;
+    } else {
+      candidate = this.buffer.slice(0, this.safeLength) + this.safeClosers;
+    }
+
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private closers(): string {
+    return this.stack.map(closerFor).reverse().join("");
+  }
+
+  private markSafe(length = this.buffer.length) {
+    this.safeLength = length;
+    this.safeClosers = this.closers();
+  }
+
+  private top(): Container | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  private consume(char: string) {
+    if (!this.started) {
+      if (char !== "{" && char !== "[") return;
+      this.started = true;
+    }
+
+    this.buffer += char;
+
+    if (this.inString) {
+      this.consumeStringChar(char);
+      return;
+    }
+
+    const top = this.top();
+    switch (char) {
+      case "{":
+        this.stack.push({ kind: "object", expectKey: true });
+        this.markSafe();
+        break;
+      case "[":
+        this.stack.push({ kind: "array" });
+        this.markSafe();
+        break;
+      case "}":
+      case "]":
+        this.stack.pop();
+        this.markSafe();
+        if (this.stack.length === 0) this.done = true;
+        break;
+      case ":":
+        if (top?.kind === "object") top.expectKey = false;
+        break;
+      case ",":
+        this.markSafeAfterLiteral();
+        if (top?.kind === "object") top.expectKey = true;
+        break;
+      case '"':
+        this.inString = true;
+        this.stringIsKey = top?.kind === "object" && top.expectKey;
+        break;
+      default:
+        // Literals and numbers only count once a delimiter follows them
+        if (/\s/.test(char)) this.markSafeAfterLiteral();
+    }
+  }
+
+  private markSafeAfterLiteral() {
+    // Only safe if the literal parses, e.g. `true` but not `tr`
+    const before = this.buffer.slice(0, -1);
+    const match = before.match(/[\w.+-]+$/);
+    if (match && /^(true|false|null|-?\d+(\.\d+)?([eE][+-]?\d+)?)$/.test(match[0])) {
+      this.markSafe(before.length);
+    }
+  }
+
+  private consumeStringChar(char: string) {
+    if (this.unicodeDigits > 0) {
+      this.unicodeDigits -= 1;
+      if (this.unicodeDigits === 0) this.escapeStart = -1;
+      return;
+    }
+
+    if (this.escapeStart >= 0) {
+      if (char === "u") {
+        this.unicodeDigits = 4;
+      } else {
+        this.escapeStart = -1;
+      }
+      return;
+    }
+
+    if (char === "\\") {
+      this.escapeStart = this.buffer.length - 1;
+    } else if (char === '"') {
+      this.inString = false;
+      if (!this.stringIsKey) this.markSafe();
+    }
+  }
+}
+
+/**
+ * Parse a possibly truncated JSON document in one go
+ */
+export function parsePartialJSON(text: string): unknown {
+  return new PartialJSONParser().push(text);
+}
@@ -0,0 +1,309 @@
+import type { CaseDetails } from "./advisor";
+import { describeJurisdiction } from "./legal/jurisdictions";
+import { ConfigError, oneOf } from "./llm";
+
+/**
+ * Every prompt sent to a model, by name and version. A new wording gets a
+ * new version rather than replacing the old one, so an answer's
+ * `meta.prompts` can still be reproduced and two versions can be compared
+ * by pinning one (`LLM_PROMPT_VERSIONS`).
+ */
+
+export type PromptLocale = "en" | "hi";
+
+export const PROMPT_LOCALES: PromptLocale[] = ["en", "hi"];
+
+/** Variables each template is rendered with */
+export interface PromptVariables {
+  "chat.system": Record<string, never>;
+  "chat.question": { question: string };
+  "text.question": { prompt: string };
+  "case-analysis.request": CaseDetails;
+  "json.contract": { prompt: string; schema: string };
+  "json.repair": { errors: string[]; hint?: string };
+  "answer.continue": Record<string, never>;
+  "retrieval.context": { excerpts: string[]; prompt: string };
+}
+
+export type PromptId = keyof PromptVariables;
+
+/** Which template produced (part of) a request */
+export interface PromptRef {
+  id: PromptId;
+  version: number;
+  /** The locale actually rendered; `en` when the template has no variant */
+  locale: PromptLocale;
+}
+
+/** Version to use per template; the latest is used for the rest */
+export type PromptVersions = Partial<Record<PromptId, number>>;
+
+export interface PromptOptions {
+  locale?: PromptLocale;
+  versions?: PromptVersions;
+}
+
+type Render<V> = (variables: V) => string;
+
+interface PromptTemplate<V> {
+  version: number;
+  /** `en` is required and stands in for missing locales */
+  locales: { en: Render<V> } & Partial<Record<PromptLocale, Render<V>>>;
+}
+
+type PromptRegistry = { [Id in PromptId]: PromptTemplate<PromptVariables[Id]>[] };
+
+const CHAT_SYSTEM = `You are a professional legal advisor assistant focused on Indian legal systems.
+Provide accurate, well-structured information about legal matters, rights, procedures, and legal guidance.
+Always emphasize that this is general legal information and not a substitute for professional legal counsel.
+Structure responses in a way that makes complex legal information easy to understand for users.
+Focus on being helpful, accurate, and clear while maintaining professional legal standards.`;
+
+// Instructions stay in English, which models follow best; only the answer changes language
+const IN_HINDI =
+  "Write your answer in Hindi (Devanagari script). Keep the names of acts, sections and courts in English.";
+
+const caseAnalysisRequest = (details: CaseDetails) => `
+Analyze this legal case for Indian jurisdiction:
+
+Case Type: ${details.caseType}
+Location/Jurisdiction: ${details.location}
+Case Description: ${details.caseDescription}
+Specific Legal Question: ${details.specificQuestion}
+
+Please provide a comprehensive legal analysis including:
+1. Assessment of the legal situation
+2. Key legal issues involved
+3. Recommended actions and legal strategies
+4. Potential risks and challenges
+5. Next steps to take
+
+Focus on Indian laws and procedures. Emphasize this is general guidance only.
+`;
+
+// Spells out the state, district, court and High Court when the jurisdiction was chosen from the list
+const caseAnalysisRequestV2 = (details: CaseDetails) => {
+  const jurisdiction =
+    (details.jurisdiction && describeJurisdiction(details.jurisdiction)) || `Location: ${details.location}`;
+  return `
+Analyze this legal case for Indian jurisdiction:
+
+Case Type: ${details.caseType}
+${jurisdiction}
+Case Description: ${details.caseDescription}
+Specific Legal Question: ${details.specificQuestion}
+
+Please provide a comprehensive legal analysis including:
+1. Assessment of the legal situation
+2. Key legal issues involved
+3. Recommended actions and legal strategies
+4. Potential risks and challenges
+5. Next steps to take
+
+Apply the laws, court fee and stamp rules and procedure of this state or union territory where they differ from the central ones.
+Focus on Indian laws and procedures. Emphasize this is general guidance only.
+`;
+};
+
+// Adds the intake answers as a list of facts, ahead of the user's own description
+const caseAnalysisRequestV3 = (details: CaseDetails) => {
+  const jurisdiction =
+    (details.jurisdiction && describeJurisdiction(details.jurisdiction)) || `Location: ${details.location}`;
+  const facts = details.facts?.length
+    ? `Facts given by the user:\n${details.facts.map(({ label, value }) => `- ${label}: ${value}`).join("\n")}\n`
+    : "";
+  return `
+Analyze this legal case for Indian jurisdiction:
+
+Case Type: ${details.caseType}
+${jurisdiction}
+${facts}Case Description: ${details.caseDescription}
+Specific Legal Question: ${details.specificQuestion}
+
+Please provide a comprehensive legal analysis including:
+1. Assessment of the legal situation
+2. Key legal issues involved
+3. Recommended actions and legal strategies
+4. Potential risks and challenges
+5. Next steps to take
+
+Apply the laws, court fee and stamp rules and procedure of this state or union territory where they differ from the central ones.
+Use the facts given, such as dates and amounts, when working out deadlines, forums and remedies, and say which facts are missing.
+Focus on Indian laws and procedures. Emphasize this is general guidance only.
+`;
+};
+
+/** Versions of each template, oldest first */
+export const PROMPTS: PromptRegistry = {
+  "chat.system": [
+    {
+      version: 1,
+      locales: {
+        en: () => CHAT_SYSTEM,
+        hi: () => `${CHAT_SYSTEM}\n${IN_HINDI}`,
+      },
+    },
+  ],
+  "chat.question": [
+    // Repeated the role already set by the system instruction
+    {
+      version: 1,
+      locales: {
+        en: ({ question }) => `You are a legal advisor for Indian law. Answer this question: ${question}`,
+      },
+    },
+    {
+      version: 2,
+      locales: {
+        en: ({ question }) => `Answer this question: ${question}`,
+      },
+    },
+  ],
+  "text.question": [
+    {
+      version: 1,
+      locales: {
+        en: ({ prompt }) => `You are a legal advisor for Indian law. ${prompt}`,
+        hi: ({ prompt }) => `You are a legal advisor for Indian law. ${IN_HINDI} ${prompt}`,
+      },
+    },
+  ],
+  "case-analysis.request": [
+    {
+      version: 1,
+      locales: {
+        en: caseAnalysisRequest,
+        hi: (details) => `${caseAnalysisRequest(details)}${IN_HINDI}\n`,
+      },
+    },
+    {
+      version: 2,
+      locales: {
+        en: caseAnalysisRequestV2,
+        hi: (details) => `${caseAnalysisRequestV2(details)}${IN_HINDI}\n`,
+      },
+    },
+    {
+      version: 3,
+      locales: {
+        en: caseAnalysisRequestV3,
+        hi: (details) => `${caseAnalysisRequestV3(details)}${IN_HINDI}\n`,
+      },
+    },
+  ],
+  "json.contract": [
+    {
+      version: 1,
+      locales: {
+        en: ({ prompt, schema }) => `${prompt}
+
+CRITICAL: You must respond with ONLY valid JSON matching this JSON schema, with no other text before or after:
+
+${schema}
+
+Respond with ONLY the JSON, no explanations, no markdown, no other text.`,
+      },
+    },
+  ],
+  "json.repair": [
+    {
+      version: 1,
+      locales: {
+        en: ({ errors, hint }) => `Your previous response did not match the required JSON format. Fix these problems:
+${errors.map((error) => `- ${error}`).join("\n")}
+${hint ? `\n${hint}\n` : ""}
+Respond with ONLY the corrected JSON, no explanations, no markdown, no other text.`,
+      },
+    },
+  ],
+  "answer.continue": [
+    {
+      version: 1,
+      locales: {
+        en: () =>
+          "Your previous response was cut off. Continue it exactly where it stopped, without repeating anything and without any other text.",
+      },
+    },
+  ],
+  "retrieval.context": [
+    {
+      version: 1,
+      locales: {
+        en: ({ excerpts, prompt }) => `Excerpts from Indian bare acts that may bear on the request, each headed by its id in square brackets:
+
+${excerpts.join("\n\n")}
+
+Rely on these excerpts where they apply, and prefer them to memory when the two differ. When a "resource" or "citation" item rests on an excerpt, set its "sourceId" to that excerpt's id. Never make up an id.
+
+${prompt}`,
+      },
+    },
+  ],
+};
+
+/**
+ * The version and locale of `id` that `options` select. A pinned version
+ * that does not exist falls back to the latest, with a warning.
+ */
+export function resolvePrompt(id: PromptId, { locale = "en", versions = {} }: PromptOptions = {}): PromptRef {
+  const templates: PromptTemplate<never>[] = PROMPTS[id];
+  const latest = templates[templates.length - 1];
+  const pinned = versions[id];
+  let template = latest;
+  if (pinned !== undefined) {
+    const found = templates.find((candidate) => candidate.version === pinned);
+    if (found) template = found;
+    else console.warn(`Prompt "${id}" has no version ${pinned}, using ${latest.version}`);
+  }
+  return { id, version: template.version, locale: template.locales[locale] ? locale : "en" };
+}
+
+export function renderPrompt<Id extends PromptId>(
+  id: Id,
+  variables: PromptVariables[Id],
+  options?: PromptOptions
+): string {
+  const { version, locale } = resolvePrompt(id, options);
+  const templates: PromptTemplate<PromptVariables[Id]>[] = PROMPTS[id];
+  const template = templates.find((candidate) => candidate.version === version)!;
+  return (template.locales[locale] ?? template.locales.en)(variables);
+}
+
+/**
+ * Read `VITE_LLM_PROMPT_VERSIONS` (or `LLM_PROMPT_VERSIONS` on the
+ * server), e.g. `{"chat.question": 1}` to go back to the first wording.
+ * Malformed JSON, a template missing from `PROMPTS` or a version it does
+ * not have throws a `ConfigError`.
+ */
+export function readPromptVersions(
+  env: Record<string, string | undefined>,
+  prefix = "VITE_"
+): PromptVersions {
+  const name = `${prefix}LLM_PROMPT_VERSIONS`;
+  const raw = env[name];
+  if (!raw) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new ConfigError(`Invalid ${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new ConfigError(`Invalid ${name}: expected an object keyed by template`);
+  }
+
+  const ids = Object.fromEntries(Object.keys(PROMPTS).map((id) => [id, true])) as Record<PromptId, true>;
+  return Object.fromEntries(
+    Object.entries(parsed).map(([key, version]) => {
+      const id = oneOf(`${name} template`, key, ids);
+      const versions = PROMPTS[id].map((template) => template.version);
+      if (typeof version !== "number" || !versions.includes(version)) {
+        throw new ConfigError(
+          `Invalid ${name} version ${JSON.stringify(version)} for "${id}": expected one of ${versions.join(", ")}`
+        );
+      }
+      return [id, version];
+    })
+  );
+}
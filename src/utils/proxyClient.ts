@@ -0,0 +1,192 @@
+import {
+  toPartialResponse,
+  type CaseAnalysisResponse,
+  type ResponseMeta,
+  type CaseDetails,
+  type ChatSession,
+  type ChatTurnRequest,
+  type LegalAdvisor,
+  type ProxyErrorBody,
+  type StreamEvent,
+  type StreamHandlers,
+  type StructuredChatOptions,
+  type StructuredChatResponse,
+  type StructuredRequestBody,
+} from "./advisor";
+import {
+  errorFromCode,
+  isAbortError,
+  NetworkError,
+  ParseError,
+  RateLimitError,
+  RequestCancelledError,
+  throwIfAborted,
+  UpstreamError,
+} from "./errors";
+import type { LLMMessage, ModelDefinition } from "./llm";
+import { readLines } from "./llm/shared";
+import { PartialJSONParser } from "./partialJson";
+import type { UsageFeature, UsageRecord } from "./usage";
+
+/**
+ * `LegalAdvisor` backed by the proxy server in `server/`. The server owns
+ * the API key, the rate limits and the model fallback; the client only
+ * remembers how long the server asked it to back off. Token usage is
+ * reported to `onUsage` from the `meta.usage` of fresh answers.
+ */
+export function createProxyAdvisor(
+  apiUrl: string,
+  onUsage?: (record: UsageRecord) => void
+): LegalAdvisor {
+  const baseUrl = apiUrl.replace(/\/$/, "");
+  let blockedUntil = 0;
+
+  const recordUsage = <T extends { meta?: ResponseMeta }>(feature: UsageFeature, response: T): T => {
+    const { usage, model, cached } = response.meta ?? {};
+    if (usage && model && !cached) onUsage?.({ feature, model, usage });
+    return response;
+  };
+
+  const getTimeUntilNextRequest = () => Math.max(0, blockedUntil - Date.now());
+
+  async function request(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    throwIfAborted(signal);
+    const waitTime = getTimeUntilNextRequest();
+    if (waitTime > 0) {
+      throw new RateLimitError(waitTime);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw new RequestCancelledError();
+      console.error(`Request to ${path} failed:`, error);
+      throw new NetworkError("Could not reach the API server. Check your connection and try again.");
+    }
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as ProxyErrorBody;
+
+      if (response.status === 429 && data.retryAfterMs) {
+        blockedUntil = Date.now() + data.retryAfterMs;
+      }
+
+      throw errorFromCode(
+        data.code,
+        data.error || `Request failed with status ${response.status}`,
+        data.retryAfterMs,
+        data.category
+      );
+    }
+
+    return response;
+  }
+
+  async function post<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+    const response = await request(path, body, signal);
+    try {
+      return (await response.json()) as T;
+    } catch (error) {
+      if (isAbortError(error)) throw new RequestCancelledError();
+      throw error;
+    }
+  }
+
+  // Everything but the signal and a system instruction, which the server does not accept
+  const structuredBody = (
+    prompt: string,
+    { history, refresh, model, locale }: StructuredChatOptions
+  ): StructuredRequestBody => ({ prompt, history, refresh, model, locale });
+
+  // The server answers a streamed request with NDJSON lines: `{ delta }`
+  // for every chunk, then `{ response }` or `{ error }`
+  const streamStructuredChatResponse = async (
+    prompt: string,
+    handlers: StreamHandlers = {},
+    options: StructuredChatOptions = {}
+  ): Promise<StructuredChatResponse> => {
+    const { signal } = options;
+    const body: StructuredRequestBody = { ...structuredBody(prompt, options), stream: true };
+    const response = await request("/api/structured", body, signal);
+    const parser = new PartialJSONParser();
+
+    for await (const line of readLines(response)) {
+      let event: StreamEvent;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        throw new ParseError("The server sent a malformed stream event");
+      }
+      if (event.delta !== undefined) {
+        handlers.onDelta?.(event.delta);
+        handlers.onPartial?.(toPartialResponse(parser.push(event.delta)));
+      } else if (event.response) {
+        return recordUsage("chat", event.response);
+      } else if (event.error) {
+        throw errorFromCode(event.code, event.error, undefined, event.category);
+      }
+    }
+
+    throw new ParseError("The response stream ended unexpectedly");
+  };
+
+  const getModels = async (): Promise<ModelDefinition[]> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/api/models`);
+    } catch (error) {
+      console.error("Request to /api/models failed:", error);
+      throw new NetworkError("Could not reach the API server. Check your connection and try again.");
+    }
+    if (!response.ok) {
+      throw new UpstreamError(response.status, `Request failed with status ${response.status}`);
+    }
+    const { models } = (await response.json()) as { models: ModelDefinition[] };
+    return models;
+  };
+
+  // A system instruction is not sent: the server only uses its own templates
+  const startChat = (_systemInstruction?: string, initialHistory: LLMMessage[] = []): ChatSession => {
+    const history = [...initialHistory];
+
+    return {
+      async sendMessage(message: string, signal?: AbortSignal, model?: string) {
+        const turn: ChatTurnRequest = { message, history, model };
+        const { text } = await post<{ text: string }>("/api/chat", turn, signal);
+        history.push({ role: "user", text: message }, { role: "model", text });
+        return text;
+      },
+      getHistory() {
+        return [...history];
+      },
+    };
+  };
+
+  return {
+    getStructuredChatResponse: async (prompt, options = {}) => {
+      const body = structuredBody(prompt, options);
+      return recordUsage("chat", await post<StructuredChatResponse>("/api/structured", body, options.signal));
+    },
+    streamStructuredChatResponse,
+    getGeminiResponse: async (prompt, { signal, model, locale } = {}) => {
+      const { text } = await post<{ text: string }>("/api/text", { prompt, model, locale }, signal);
+      return text;
+    },
+    analyzeCase: async (details: CaseDetails, { signal, model, locale } = {}) =>
+      recordUsage(
+        "case-analysis",
+        await post<CaseAnalysisResponse>("/api/analyze", { ...details, model, locale }, signal)
+      ),
+    startChat,
+    sendChatMessage: (chat, message, { signal, model } = {}) => chat.sendMessage(message, signal, model),
+    canMakeRequest: () => getTimeUntilNextRequest() === 0,
+    getTimeUntilNextRequest,
+    getModels,
+  };
+}
@@ -0,0 +1,182 @@
+import { ConfigError, MODELS, oneOf } from "./llm";
+
+export interface RateLimitConfig {
+  maxRequestsPerMinute: number;
+  /** Minimum gap between two requests, in ms */
+  minInterval: number;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  maxRequestsPerMinute: 15,
+  minInterval: 4000,
+};
+
+/**
+ * Where a limiter keeps its request timestamps so that several limiters
+ * (e.g. one per browser tab) can share one budget
+ */
+export interface RateLimitStore {
+  load(): number[];
+  save(requests: number[]): void;
+  /** Called with the latest timestamps whenever another limiter records a request */
+  subscribe(listener: (requests: number[]) => void): () => void;
+}
+
+// Rate limiting implementation
+export class RateLimiter {
+  private requests: number[] = [];
+  private readonly maxRequestsPerMinute: number;
+  private readonly timeWindow = 60000;
+  private readonly minInterval: number;
+
+  constructor(config: Partial<RateLimitConfig> = {}, private readonly store?: RateLimitStore) {
+    const { maxRequestsPerMinute, minInterval } = { ...DEFAULT_RATE_LIMIT, ...config };
+    this.maxRequestsPerMinute = maxRequestsPerMinute;
+    this.minInterval = minInterval;
+
+    if (store) {
+      this.requests = this.merge(store.load());
+      store.subscribe((requests) => {
+        this.requests = this.merge(requests);
+      });
+    }
+  }
+
+  private get lastRequestTime(): number {
+    return this.requests.length > 0 ? Math.max(...this.requests) : 0;
+  }
+
+  // Union of our own and the shared timestamps, minus the expired ones
+  private merge(requests: number[]): number[] {
+    const now = Date.now();
+    return [...new Set([...this.requests, ...requests])]
+      .filter(time => now - time < this.timeWindow)
+      .sort((a, b) => a - b);
+  }
+
+  canMakeRequest(): boolean {
+    const now = Date.now();
+
+    if (now - this.lastRequestTime < this.minInterval) {
+      return false;
+    }
+
+    this.requests = this.requests.filter(time => now - time < this.timeWindow);
+    return this.requests.length < this.maxRequestsPerMinute;
+  }
+
+  recordRequest(): void {
+    const now = Date.now();
+    // Pick up requests from other tabs that have not been broadcast yet
+    this.requests = this.merge([...(this.store?.load() ?? []), now]);
+    this.store?.save(this.requests);
+  }
+
+  /** True when no request is recent enough to count, so a new limiter would behave the same */
+  isIdle(): boolean {
+    const now = Date.now();
+    return now - this.lastRequestTime >= Math.max(this.timeWindow, this.minInterval);
+  }
+
+  getTimeUntilNextRequest(): number {
+    const now = Date.now();
+    this.requests = this.requests.filter(time => now - time < this.timeWindow);
+
+    const timeSinceLastRequest = now - this.lastRequestTime;
+    if (timeSinceLastRequest < this.minInterval) {
+      return this.minInterval - timeSinceLastRequest;
+    }
+
+    if (this.requests.length >= this.maxRequestsPerMinute) {
+      const oldestRequest = Math.min(...this.requests);
+      return this.timeWindow - (now - oldestRequest);
+    }
+
+    return 0;
+  }
+}
+
+/**
+ * Read the limit applied to each client of the proxy from
+ * `CLIENT_RATE_LIMIT`, a JSON object such as
+ * `{"maxRequestsPerMinute": 30, "minInterval": 1000}`. Missing or invalid
+ * fields keep the defaults.
+ */
+export function readClientRateLimit(
+  env: Record<string, string | undefined>,
+  prefix = ""
+): Partial<RateLimitConfig> {
+  const raw = env[`${prefix}CLIENT_RATE_LIMIT`];
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    const config: Partial<RateLimitConfig> = {};
+    for (const key of ["maxRequestsPerMinute", "minInterval"] as const) {
+      const value = parsed?.[key];
+      if (typeof value === "number" && Number.isFinite(value) && value >= 0) config[key] = value;
+    }
+    return config;
+  } catch (error) {
+    console.error(`Ignoring invalid ${prefix}CLIENT_RATE_LIMIT:`, error);
+    return {};
+  }
+}
+
+const RATE_LIMIT_FIELDS: Record<keyof RateLimitConfig, true> = { maxRequestsPerMinute: true, minInterval: true };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Read per-model limits from `VITE_LLM_RATE_LIMITS` (or `LLM_RATE_LIMITS`
+ * on the server), a JSON object keyed by model name, e.g.
+ * `{"gemini-2.5-flash": {"maxRequestsPerMinute": 10, "minInterval": 6000}}`.
+ * Models must be in the registry or in `LLM_MODELS`; malformed JSON, an
+ * unknown model or field, or a value that is not a non-negative number
+ * (positive for `maxRequestsPerMinute`) throws a `ConfigError`.
+ */
+export function readRateLimits(
+  env: Record<string, string | undefined>,
+  prefix = "VITE_"
+): Record<string, Partial<RateLimitConfig>> {
+  const name = `${prefix}LLM_RATE_LIMITS`;
+  const raw = env[name];
+  if (!raw) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new ConfigError(`Invalid ${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isObject(parsed)) {
+    throw new ConfigError(`Invalid ${name}: expected an object keyed by model`);
+  }
+
+  const configured = env[`${prefix}LLM_MODELS`]?.split(",").map((model) => model.trim()) ?? [];
+  const models = Object.fromEntries(
+    [...MODELS.map(({ id }) => id), ...configured].filter(Boolean).map((id) => [id, true])
+  ) as Record<string, true>;
+
+  return Object.fromEntries(
+    Object.entries(parsed).map(([model, limits]) => {
+      oneOf(`${name} model`, model, models);
+      if (!isObject(limits)) {
+        throw new ConfigError(`Invalid ${name} for "${model}": expected an object`);
+      }
+      const config: Partial<RateLimitConfig> = {};
+      for (const [key, value] of Object.entries(limits)) {
+        const field = oneOf(`${name} field for "${model}"`, key, RATE_LIMIT_FIELDS);
+        const lowest = field === "maxRequestsPerMinute" ? 1 : 0;
+        if (typeof value !== "number" || !Number.isFinite(value) || value < lowest) {
+          throw new ConfigError(
+            `Invalid ${name} ${field} for "${model}": expected a number of at least ${lowest}, got ${JSON.stringify(value)}`
+          );
+        }
+        config[field] = value;
+      }
+      return [model, config];
+    })
+  );
+}
@@ -0,0 +1,174 @@
+import { RateLimitError, RequestCancelledError } from "./errors";
+import { DEFAULT_RATE_LIMIT } from "./rateLimiter";
+
+export type RequestPriority = "high" | "normal" | "low";
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = { high: 0, normal: 1, low: 2 };
+
+export interface QueueStatus {
+  /** 1-based place in the queue, 0 once the request has been sent */
+  position: number;
+  /** Estimated ms until the request is sent */
+  eta: number;
+  /** Times the request was sent and hit the rate limit */
+  retries: number;
+}
+
+export interface QueueOptions {
+  priority?: RequestPriority;
+  /** Called whenever the position or ETA changes, and with position 0 on every dispatch */
+  onStatus?: (status: QueueStatus) => void;
+  /** Aborting while the request waits works like `cancel()` */
+  signal?: AbortSignal;
+}
+
+export interface QueuedRequest<T> {
+  promise: Promise<T>;
+  /** Drop the request if it is still waiting; rejects `promise` with `RequestCancelledError` */
+  cancel(): void;
+}
+
+/** The part of `LegalAdvisor` the queue needs to decide when to dispatch */
+interface QueueLimiter {
+  canMakeRequest(): boolean;
+  getTimeUntilNextRequest(): number;
+}
+
+interface QueueEntry {
+  run: () => Promise<unknown>;
+  priority: RequestPriority;
+  onStatus?: (status: QueueStatus) => void;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  requeued: number;
+}
+
+// Re-check at least this often while limited: other tabs share the budget
+const MAX_POLL_INTERVAL = 1000;
+// After this many rate limit errors the request fails for good
+const MAX_REQUEUES = 3;
+
+/**
+ * Holds requests while the rate limiter is exhausted and sends them one at
+ * a time, highest priority first, as soon as it has budget again. A request
+ * that still hits the limit (e.g. the proxy answered 429) goes back to the
+ * front of the queue, a few times at most, and nothing is sent until the
+ * wait the error asked for has passed.
+ */
+export class RequestQueue {
+  private entries: QueueEntry[] = [];
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  // Nothing is sent before this time after a request came back rate limited
+  private retryAt = 0;
+
+  /**
+   * @param spacing Expected gap between two dispatched requests, in ms, used for the ETA
+   */
+  constructor(
+    private readonly limiter: QueueLimiter,
+    private readonly spacing = DEFAULT_RATE_LIMIT.minInterval
+  ) {}
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  enqueue<T>(
+    run: () => Promise<T>,
+    { priority = "normal", onStatus, signal }: QueueOptions = {}
+  ): QueuedRequest<T> {
+    if (signal?.aborted) {
+      return { promise: Promise.reject(new RequestCancelledError()), cancel: () => {} };
+    }
+
+    let entry!: QueueEntry;
+    const promise = new Promise<T>((resolve, reject) => {
+      entry = { run, priority, onStatus, resolve: resolve as (value: unknown) => void, reject, requeued: 0 };
+    });
+
+    // Behind everything of the same or a higher priority
+    const index = this.entries.findIndex(
+      (other) => PRIORITY_ORDER[other.priority] > PRIORITY_ORDER[priority]
+    );
+    this.entries.splice(index === -1 ? this.entries.length : index, 0, entry);
+
+    signal?.addEventListener("abort", () => this.cancel(entry), { once: true });
+
+    this.reportStatus();
+    this.schedule(0);
+    return { promise, cancel: () => this.cancel(entry) };
+  }
+
+  private cancel(entry: QueueEntry) {
+    const index = this.entries.indexOf(entry);
+    if (index === -1) return; // Already sent
+
+    this.entries.splice(index, 1);
+    entry.reject(new RequestCancelledError("Request was cancelled before it was sent."));
+    this.reportStatus();
+  }
+
+  private schedule(delay: number) {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.dispatch(), delay);
+  }
+
+  private reportStatus() {
+    const wait = Math.max(
+      this.limiter.getTimeUntilNextRequest(),
+      this.retryAt - Date.now(),
+      this.running ? this.spacing : 0
+    );
+    this.entries.forEach((entry, index) =>
+      entry.onStatus?.({ position: index + 1, eta: wait + index * this.spacing, retries: entry.requeued })
+    );
+  }
+
+  private dispatch() {
+    this.timer = undefined;
+    if (this.running || this.entries.length === 0) return;
+
+    const retryWait = this.retryAt - Date.now();
+    if (retryWait > 0) {
+      this.reportStatus();
+      this.schedule(Math.min(retryWait, MAX_POLL_INTERVAL));
+      return;
+    }
+
+    if (!this.limiter.canMakeRequest()) {
+      this.reportStatus();
+      this.schedule(Math.min(Math.max(this.limiter.getTimeUntilNextRequest(), 100), MAX_POLL_INTERVAL));
+      return;
+    }
+
+    const entry = this.entries.shift()!;
+    this.running = true;
+    entry.onStatus?.({ position: 0, eta: 0, retries: entry.requeued });
+    this.reportStatus();
+
+    entry.run().then(
+      (value) => {
+        entry.resolve(value);
+        this.settle();
+      },
+      (error) => {
+        if (error instanceof RateLimitError && entry.requeued < MAX_REQUEUES) {
+          // Wait as long as the server or the limiter asks before trying again
+          entry.requeued += 1;
+          this.entries.unshift(entry);
+          this.retryAt = Date.now() + Math.max(error.waitTime, this.limiter.getTimeUntilNextRequest());
+        } else {
+          entry.reject(error);
+        }
+        this.settle();
+      }
+    );
+  }
+
+  private settle() {
+    this.running = false;
+    this.reportStatus();
+    this.schedule(0);
+  }
+}
@@ -0,0 +1,80 @@
+import type { LLMRequest } from "./llm";
+
+/** Cached answers are reused for a day unless configured otherwise */
+export const DEFAULT_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Key/value store for model answers. Implementations must expire entries
+ * after their TTL; failures are logged by the caller and never fail a request.
+ */
+export interface ResponseCache {
+  get<T>(key: string): Promise<T | undefined>;
+  set(key: string, value: unknown, ttl: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Lowercase, collapse whitespace and drop trailing punctuation, so that
+ * "What are my rights?" and "what are my  rights" share an entry
+ */
+export function normalizePrompt(prompt: string): string {
+  return prompt.toLowerCase().replace(/\s+/g, " ").trim().replace(/[\s?!.]+$/, "");
+}
+
+/**
+ * SHA-256 of everything that shapes the answer: the normalized messages,
+ * system instruction, model, generation config and response schema
+ */
+export async function cacheKey(kind: string, request: LLMRequest): Promise<string> {
+  const normalized = {
+    kind,
+    model: request.model,
+    systemInstruction: request.systemInstruction && normalizePrompt(request.systemInstruction),
+    messages: request.messages.map((message) => ({ ...message, text: normalizePrompt(message.text) })),
+    generationConfig: request.generationConfig,
+    responseSchema: request.responseSchema,
+  };
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(JSON.stringify(normalized))
+  );
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * In-process cache for the proxy server. Evicts the oldest entry once full.
+ */
+export function createMemoryCache(maxEntries = 500): ResponseCache {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value as T;
+    },
+    async set(key, value, ttl) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttl });
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+}
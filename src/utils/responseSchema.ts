@@ -0,0 +1,99 @@
+import { z } from "zod";
+import type { ResponseSchema } from "./llm";
+
+/**
+ * Convert one of the zod schemas in schemas.ts into the `responseSchema`
+ * sent to JSON-mode providers, so the TypeScript types, the runtime
+ * validation and the output constraint all come from one definition.
+ *
+ * Only the zod features those schemas use are supported. A discriminated
+ * union becomes a single object whose discriminator is an enum, because
+ * the Gemini API has no `oneOf`.
+ */
+export function toResponseSchema(schema: z.ZodTypeAny): ResponseSchema {
+  const description = schema.description;
+  const converted = convert(schema);
+  return description ? { ...converted, description } : converted;
+}
+
+function convert(schema: z.ZodTypeAny): ResponseSchema {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return toResponseSchema(unwrap(schema));
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { ...toResponseSchema(schema.unwrap()), nullable: true };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return toResponseSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodString) {
+    return { type: "string" };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? "integer" : "number" };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean" };
+  }
+  if (schema instanceof z.ZodLiteral && typeof schema.value === "string") {
+    return { type: "string", enum: [schema.value] };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: [...schema.options] };
+  }
+  if (schema instanceof z.ZodArray) {
+    const minItems = schema._def.minLength?.value;
+    return {
+      type: "array",
+      items: toResponseSchema(schema.element),
+      ...(minItems ? { minItems } : {}),
+    };
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    return {
+      type: "object",
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, toResponseSchema(value)])
+      ),
+      required: Object.keys(shape).filter((key) => !shape[key].isOptional()),
+    };
+  }
+  if (schema instanceof z.ZodDiscriminatedUnion) {
+    return mergeUnion(schema);
+  }
+
+  throw new Error(`Unsupported schema type ${schema._def.typeName} in responseSchema`);
+}
+
+function unwrap(schema: z.ZodOptional<z.ZodTypeAny> | z.ZodDefault<z.ZodTypeAny>): z.ZodTypeAny {
+  return schema instanceof z.ZodOptional ? schema.unwrap() : schema.removeDefault();
+}
+
+function mergeUnion(
+  schema: z.ZodDiscriminatedUnion<string, z.ZodDiscriminatedUnionOption<string>[]>
+): ResponseSchema {
+  const discriminator = schema.discriminator;
+  const options = schema.options.map((option) => toResponseSchema(option));
+  const properties: Record<string, ResponseSchema> = {};
+  const values: string[] = [];
+  let required: string[] | undefined;
+
+  for (const option of options) {
+    if (option.type !== "object") continue;
+
+    const tag = option.properties[discriminator];
+    if (tag?.type === "string" && tag.enum) values.push(...tag.enum);
+
+    for (const [key, value] of Object.entries(option.properties)) {
+      properties[key] ??= value;
+    }
+    // A property is only required if every variant requires it
+    required = required
+      ? required.filter((key) => option.required?.includes(key))
+      : [...(option.required ?? [])];
+  }
+
+  properties[discriminator] = { type: "string", enum: values };
+  return { type: "object", properties, required };
+}
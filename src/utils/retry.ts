@@ -0,0 +1,64 @@
+import { isRetryable, RateLimitError, RequestCancelledError, throwIfAborted } from "./errors";
+
+export interface RetryOptions {
+  /** Attempts after the first one */
+  retries?: number;
+  baseDelay?: number;
+  /** Give up rather than wait longer than this, in ms */
+  maxDelay?: number;
+  /** Lower bound for the next delay, e.g. the local rate limiter's wait */
+  minDelay?: () => number;
+  onRetry?: (error: unknown, attempt: number, delay: number) => void;
+  /** Stops waiting for the next attempt */
+  signal?: AbortSignal;
+}
+
+/**
+ * Wait `ms`, rejecting with `RequestCancelledError` if `signal` fires first
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Exponential backoff with jitter: between half and all of
+ * `baseDelay * 2^attempt`, so clients that failed together do not retry together
+ */
+export function backoffDelay(attempt: number, baseDelay: number): number {
+  const delay = baseDelay * 2 ** attempt;
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Run `fn` again after transient failures (see `isRetryable`). A retry delay
+ * sent by the API takes precedence over the computed backoff.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  { retries = 2, baseDelay = 1000, maxDelay = 20000, minDelay, onRetry, signal }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) throw error;
+
+      const requested = error instanceof RateLimitError ? error.waitTime : 0;
+      const delay = Math.max(requested, backoffDelay(attempt, baseDelay), minDelay?.() ?? 0);
+      if (delay > maxDelay) throw error;
+
+      onRetry?.(error, attempt + 1, delay);
+      await sleep(delay, signal);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { ConfigError, oneOf, type SafetyCategory, type SafetySettings, type SafetyThreshold } from "./llm";
+import type { UsageFeature } from "./usage";
+
+/** Safety settings per feature, on top of `DEFAULT_SAFETY_SETTINGS` */
+export type FeatureSafetySettings = Partial<Record<UsageFeature, SafetySettings>>;
+
+/**
+ * Questions about assault, domestic violence or harassment are everyday
+ * legal questions, and answering them trips the dangerous content and
+ * harassment filters. Chat and case analysis only block those at high
+ * probability.
+ */
+export const DEFAULT_SAFETY_SETTINGS: Record<UsageFeature, SafetySettings> = {
+  chat: {
+    harassment: "block_only_high",
+    hate_speech: "block_medium_and_above",
+    sexually_explicit: "block_medium_and_above",
+    dangerous_content: "block_only_high",
+  },
+  "case-analysis": {
+    harassment: "block_only_high",
+    hate_speech: "block_medium_and_above",
+    sexually_explicit: "block_medium_and_above",
+    dangerous_content: "block_only_high",
+  },
+  text: {
+    harassment: "block_medium_and_above",
+    hate_speech: "block_medium_and_above",
+    sexually_explicit: "block_medium_and_above",
+    dangerous_content: "block_medium_and_above",
+  },
+};
+
+export const SAFETY_CATEGORY_LABELS: Record<SafetyCategory, string> = {
+  harassment: "Harassment",
+  hate_speech: "Hate speech",
+  sexually_explicit: "Sexually explicit content",
+  dangerous_content: "Dangerous content",
+};
+
+// A record so that adding a threshold to its type without listing it here fails to compile
+const THRESHOLDS: Record<SafetyThreshold, true> = {
+  block_none: true,
+  block_only_high: true,
+  block_medium_and_above: true,
+  block_low_and_above: true,
+};
+
+const keysOf = <T extends string>(record: Record<T, unknown>) =>
+  Object.fromEntries(Object.keys(record).map((key) => [key, true])) as Record<T, true>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * The settings sent with a request for `feature`
+ */
+export function safetySettingsFor(
+  feature: UsageFeature,
+  overrides: FeatureSafetySettings = {}
+): SafetySettings {
+  return { ...DEFAULT_SAFETY_SETTINGS[feature], ...overrides[feature] };
+}
+
+/**
+ * Read `VITE_LLM_SAFETY_SETTINGS` (or `LLM_SAFETY_SETTINGS` on the server),
+ * a JSON object keyed by feature, e.g.
+ * `{"chat": {"dangerous_content": "block_none"}}`. Malformed JSON or an
+ * unknown feature, category or threshold throws a `ConfigError`, so a typo
+ * shows up at startup rather than as a rejected request.
+ */
+export function readSafetySettings(
+  env: Record<string, string | undefined>,
+  prefix = "VITE_"
+): FeatureSafetySettings {
+  const name = `${prefix}LLM_SAFETY_SETTINGS`;
+  const raw = env[name];
+  if (!raw) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new ConfigError(`Invalid ${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isObject(parsed)) {
+    throw new ConfigError(`Invalid ${name}: expected an object keyed by feature`);
+  }
+
+  const features = keysOf(DEFAULT_SAFETY_SETTINGS);
+  const categories = keysOf(SAFETY_CATEGORY_LABELS);
+  return Object.fromEntries(
+    Object.entries(parsed).map(([feature, settings]) => {
+      oneOf(`${name} feature`, feature, features);
+      if (!isObject(settings)) {
+        throw new ConfigError(`Invalid ${name} for "${feature}": expected an object keyed by category`);
+      }
+      return [
+        feature,
+        Object.fromEntries(
+          Object.entries(settings).map(([category, threshold]) => [
+            oneOf(`${name} category`, category, categories),
+            oneOf(`${name} threshold`, String(threshold), THRESHOLDS),
+          ])
+        ),
+      ];
+    })
+  );
+}
@@ -0,0 +1,150 @@
+import { z } from "zod";
+import type {
+  CaseAnalysisResponse,
+  ChatResponseItem,
+  StructuredChatResponse,
+} from "./advisor";
+import { toResponseSchema } from "./responseSchema";
+
+// Runtime shape of the structured answers. The annotations keep these in
+// step with the TypeScript interfaces in advisor.ts, and the descriptions
+// become part of the `responseSchema` sent to JSON-mode providers.
+
+export const DISCLAIMER =
+  "This is general legal information only, not specific legal advice. Consult a qualified lawyer for your specific situation.";
+
+const withContent = <T extends string>(type: T, description: string) =>
+  z.object({
+    type: z.literal(type),
+    content: z.string().trim().min(1).describe(description),
+    title: z.string().optional(),
+  });
+
+const SOURCE_ID = z
+  .string()
+  .optional()
+  .describe("Id in square brackets of the quoted excerpt the item is based on, e.g. \"bns-103\"");
+
+export const chatResponseItemSchema: z.ZodType<ChatResponseItem, z.ZodTypeDef, unknown> =
+  z.discriminatedUnion("type", [
+    withContent("text", "Legal information and explanation, may use markdown"),
+    withContent("suggestion", "Practical advice or next steps"),
+    withContent("warning", "Caveat the reader must not miss"),
+    z.object({
+      type: z.literal("list"),
+      title: z.string().optional().describe("Heading for the list, e.g. \"Key Points\""),
+      items: z.array(z.string().trim().min(1)).min(1).describe("List entries, one point each"),
+      content: z.string().default(""),
+    }),
+    z.object({
+      type: z.literal("resource"),
+      title: z.string().trim().min(1).describe("Name of the resource"),
+      content: z.string().trim().min(1),
+      url: z.string().url().optional().describe("Official URL of the resource"),
+      sourceId: SOURCE_ID,
+    }),
+    z.object({
+      type: z.literal("code"),
+      content: z.string().trim().min(1),
+      language: z.string().optional(),
+    }),
+    z.object({
+      type: z.literal("table"),
+      title: z.string().optional(),
+      columns: z.array(z.string().trim().min(1)).min(2).describe("Column headings of a table"),
+      rows: z
+        .array(z.array(z.string()))
+        .min(1)
+        .describe("Table rows, each with one cell per column"),
+      content: z.string().default(""),
+    }),
+    z.object({
+      type: z.literal("citation"),
+      act: z
+        .string()
+        .trim()
+        .min(1)
+        .describe("Full name and year of the act cited, e.g. \"Bharatiya Nyaya Sanhita, 2023\""),
+      section: z.string().optional().describe("Section, article or rule cited, e.g. \"Section 103\""),
+      content: z.string().trim().min(1),
+      url: z.string().url().optional(),
+      sourceId: SOURCE_ID,
+    }),
+    z.object({
+      type: z.literal("checklist"),
+      title: z.string().optional(),
+      items: z.array(z.string().trim().min(1)).min(1),
+      content: z.string().default(""),
+    }),
+    z.object({
+      type: z.literal("timeline"),
+      title: z.string().optional(),
+      events: z
+        .array(
+          z.object({
+            when: z
+              .string()
+              .trim()
+              .min(1)
+              .describe("Date, deadline or period, e.g. \"Within 30 days of the order\""),
+            event: z.string().trim().min(1).describe("What happens or must be done by then"),
+          })
+        )
+        .min(1)
+        .describe("Stages of a timeline, in order"),
+      content: z.string().default(""),
+    }),
+    z.object({
+      type: z.literal("steps"),
+      title: z.string().optional(),
+      items: z.array(z.string().trim().min(1)).min(1),
+      content: z.string().default(""),
+    }),
+  ]);
+
+export const structuredChatResponseSchema: z.ZodType<
+  StructuredChatResponse,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  title: z.string().trim().min(1).describe("Brief title about the legal topic (max 50 characters)"),
+  summary: z.string().trim().min(1).describe("One sentence summary of your answer (max 100 characters)"),
+  content: z
+    .array(chatResponseItemSchema)
+    .min(1)
+    .describe(
+      `Answer blocks in reading order: explanation, key points, practical suggestions. Use a table to compare options, a citation for each provision relied on, a checklist for documents to gather, a timeline for deadlines and limitation periods, and steps for a procedure. End with a warning item saying: "${DISCLAIMER}"`
+    ),
+});
+
+const points = (description: string) => z.array(z.string().trim().min(1)).describe(description);
+
+export const caseAnalysisResponseSchema: z.ZodType<
+  CaseAnalysisResponse,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  title: z.string().trim().min(1).describe("Short title for the case (max 60 characters)"),
+  summary: z.string().trim().min(1).describe("Two or three sentence summary of the analysis"),
+  legalAssessment: z
+    .string()
+    .trim()
+    .min(1)
+    .describe("Assessment of the legal situation under Indian law, citing the relevant acts"),
+  keyIssues: points("Key legal issues involved"),
+  recommendedActions: points("Recommended actions and legal strategies"),
+  potentialRisks: points("Potential risks and challenges"),
+  nextSteps: points("Concrete next steps, in order"),
+});
+
+export const structuredChatResponseSchemaJSON = toResponseSchema(structuredChatResponseSchema);
+export const caseAnalysisResponseSchemaJSON = toResponseSchema(caseAnalysisResponseSchema);
+
+/**
+ * Flatten zod issues into `path: message` lines a model can act on
+ */
+export function describeIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) =>
+    issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+  );
+}
@@ -0,0 +1,50 @@
+import type { RateLimitStore } from "./rateLimiter";
+
+const STORAGE_PREFIX = "lenis:rate-limit:";
+const CHANNEL_NAME = "lenis-rate-limit";
+
+interface RateLimitMessage {
+  key: string;
+  requests: number[];
+}
+
+function readTimestamps(key: string): number[] {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(key) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter((time) => typeof time === "number") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Browser store for a model's request timestamps. They are kept in
+ * localStorage so a reload does not reset the budget, and broadcast to the
+ * other open tabs so every tab counts against the same limit.
+ */
+export function createSharedRateLimitStore(model: string): RateLimitStore {
+  const key = `${STORAGE_PREFIX}${model}`;
+  const channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(CHANNEL_NAME) : undefined;
+
+  return {
+    load: () => readTimestamps(key),
+    save(requests) {
+      try {
+        localStorage.setItem(key, JSON.stringify(requests));
+      } catch (error) {
+        // Private mode or a full quota: the limit still holds for this tab
+        console.warn("Could not persist rate limit state:", error);
+      }
+      channel?.postMessage({ key, requests } satisfies RateLimitMessage);
+    },
+    subscribe(listener) {
+      if (!channel) return () => {};
+
+      const handleMessage = (event: MessageEvent<RateLimitMessage>) => {
+        if (event.data?.key === key) listener(event.data.requests);
+      };
+      channel.addEventListener("message", handleMessage);
+      return () => channel.removeEventListener("message", handleMessage);
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import type { TokenUsage } from "./llm";
+
+/** What a request was for, as broken down in the usage panel */
+export type UsageFeature = "chat" | "case-analysis" | "text";
+
+/** One upstream call that reported token counts */
+export interface UsageRecord {
+  feature: UsageFeature;
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+}
+
+export type DailyUsage = Partial<Record<UsageFeature, UsageTotals>>;
+
+/** Totals per local calendar day (`YYYY-MM-DD`), then per feature */
+export type UsageLog = Record<string, DailyUsage>;
+
+/**
+ * Where the usage log is kept, e.g. localStorage in the browser
+ */
+export interface UsageStore {
+  load(): UsageLog;
+  record(record: UsageRecord): void;
+  clear(): void;
+  /** Called with the whole log after every change, also from other tabs */
+  subscribe(listener: (log: UsageLog) => void): () => void;
+}
+
+/** Days kept in the log */
+export const USAGE_RETENTION_DAYS = 30;
+
+export const EMPTY_TOTALS: UsageTotals = {
+  requests: 0,
+  promptTokens: 0,
+  candidateTokens: 0,
+  totalTokens: 0,
+};
+
+export function addTokens(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+  return {
+    promptTokens: (total?.promptTokens ?? 0) + usage.promptTokens,
+    candidateTokens: (total?.candidateTokens ?? 0) + usage.candidateTokens,
+    totalTokens: (total?.totalTokens ?? 0) + usage.totalTokens,
+  };
+}
+
+/** Local calendar day of `date`, the key of `UsageLog` */
+export function usageDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Add one call to the log, dropping days older than `USAGE_RETENTION_DAYS`
+ */
+export function recordUsage(log: UsageLog, { feature, usage }: UsageRecord, now = new Date()): UsageLog {
+  const today = usageDay(now);
+  const daily = log[today] ?? {};
+  const totals = daily[feature] ?? EMPTY_TOTALS;
+
+  const oldest = usageDay(new Date(now.getTime() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+  const kept = Object.fromEntries(Object.entries(log).filter(([day]) => day > oldest));
+
+  return {
+    ...kept,
+    [today]: {
+      ...daily,
+      [feature]: { ...addTokens(totals, usage), requests: totals.requests + 1 },
+    },
+  };
+}
+
+/** Totals across all features of a day */
+export function sumDailyUsage(daily: DailyUsage): UsageTotals {
+  return Object.values(daily).reduce<UsageTotals>(
+    (sum, totals) => ({ ...addTokens(sum, totals), requests: sum.requests + totals.requests }),
+    EMPTY_TOTALS
+  );
+}
@@ -0,0 +1,46 @@
+import { recordUsage, type UsageLog, type UsageStore } from "./usage";
+
+const STORAGE_KEY = "lenis:usage";
+
+function readLog(): UsageLog {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as UsageLog) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Browser store for the token usage log. It lives in localStorage, so every
+ * tab adds to the same totals; the `storage` event tells the other tabs.
+ */
+export function createUsageStore(): UsageStore {
+  const listeners = new Set<(log: UsageLog) => void>();
+  const notify = (log: UsageLog) => listeners.forEach((listener) => listener(log));
+
+  const save = (log: UsageLog) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(log));
+    } catch (error) {
+      console.warn("Could not persist token usage:", error);
+    }
+    notify(log);
+  };
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("storage", (event) => {
+      if (event.key === STORAGE_KEY) notify(readLog());
+    });
+  }
+
+  return {
+    load: readLog,
+    record: (record) => save(recordUsage(readLog(), record)),
+    clear: () => save({}),
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
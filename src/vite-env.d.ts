@@ -1 +1,19 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_GEMINI_KEY?: string;
+  readonly VITE_LLM_PROVIDER?: "gemini" | "openai" | "local" | "fake";
+  readonly VITE_LLM_BASE_URL?: string;
+  readonly VITE_LLM_API_KEY?: string;
+  readonly VITE_LLM_MODELS?: string;
+  readonly VITE_LLM_RATE_LIMITS?: string;
+  readonly VITE_LLM_SAFETY_SETTINGS?: string;
+  readonly VITE_LLM_PROMPT_VERSIONS?: string;
+  readonly VITE_LLM_FAKE_SCRIPT?: string;
+  readonly VITE_LLM_FIXTURES?: "record" | "replay";
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
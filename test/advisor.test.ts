@@ -0,0 +1,211 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { createAdvisor, type AdvisorOptions, type PartialStructuredResponse } from "../src/utils/advisor";
+import {
+  InvalidKeyError,
+  QuotaExhaustedError,
+  SafetyBlockedError,
+} from "../src/utils/errors";
+import type { FakeStep, LLMProvider, LLMRequest } from "../src/utils/llm";
+import { createFakeProvider } from "../src/utils/llm/fakeProvider";
+import { createMemoryCache } from "../src/utils/responseCache";
+
+const MODELS = ["first", "second"];
+
+// No waiting between requests, so only the retry backoff takes time
+const RATE_LIMITS = Object.fromEntries(
+  MODELS.map((model) => [model, { maxRequestsPerMinute: 100, minInterval: 0 }])
+);
+
+/** The fake provider, with every structured request it received */
+function recordingProvider(script: FakeStep[], firstAnswer?: string) {
+  const provider = createFakeProvider({ provider: "fake", script });
+  const requests: LLMRequest[] = [];
+  const recorded: LLMProvider = {
+    ...provider,
+    generateStructured: async (request) => {
+      requests.push(request);
+      const text = await provider.generateStructured(request);
+      return requests.length === 1 && firstAnswer !== undefined ? firstAnswer : text;
+    },
+  };
+  return { provider: recorded, requests };
+}
+
+const advisorFor = (provider: LLMProvider, options: Partial<AdvisorOptions> = {}) =>
+  createAdvisor({ provider, models: MODELS, rateLimits: RATE_LIMITS, ...options });
+
+const fakeAdvisor = (script: FakeStep[], options: Partial<AdvisorOptions> = {}) =>
+  advisorFor(createFakeProvider({ provider: "fake", script }), options);
+
+// Cache writes are not awaited by the advisor
+const settle = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe("createAdvisor", () => {
+  // The advisor logs every failure and retry it recovers from
+  beforeEach(() => {
+    for (const method of ["log", "warn", "error"] as const) mock.method(console, method, () => {});
+  });
+  afterEach(() => mock.restoreAll());
+
+  describe("fallback chain", () => {
+    it("answers with the first model", async () => {
+      const { meta } = await fakeAdvisor(["ok"]).getStructuredChatResponse("What is bail?");
+      assert.equal(meta?.model, "first");
+      assert.equal(meta?.source, "model");
+    });
+
+    it("falls through to the next model on a quota error", async () => {
+      const { meta } = await fakeAdvisor(["quota", "ok"]).getStructuredChatResponse("What is bail?");
+      assert.equal(meta?.model, "second");
+    });
+
+    it("tries the preferred model first", async () => {
+      const { meta } = await fakeAdvisor(["ok"]).getStructuredChatResponse("What is bail?", {
+        model: "second",
+      });
+      assert.equal(meta?.model, "second");
+    });
+
+    it("throws QuotaExhaustedError once every model is out of quota", async () => {
+      await assert.rejects(
+        fakeAdvisor(["quota"]).getStructuredChatResponse("What is bail?"),
+        QuotaExhaustedError
+      );
+    });
+
+    it("does not fall back on a safety block or a rejected key", async () => {
+      await assert.rejects(
+        fakeAdvisor(["safety", "ok"]).getStructuredChatResponse("What is bail?"),
+        SafetyBlockedError
+      );
+      await assert.rejects(
+        fakeAdvisor(["invalid_key", "ok"]).getGeminiResponse("What is bail?"),
+        InvalidKeyError
+      );
+    });
+
+    it("retries network and rate limit errors on the same model", async () => {
+      const network = await fakeAdvisor(["network", "ok"]).getStructuredChatResponse("What is bail?");
+      assert.equal(network.meta?.model, "first");
+
+      const limited = await fakeAdvisor(["rate_limit", "ok"]).getStructuredChatResponse("What is bail?");
+      assert.equal(limited.meta?.model, "first");
+    });
+  });
+
+  describe("structured answers", () => {
+    it("repairs invalid JSON with a re-prompt that lists the errors", async () => {
+      const { provider, requests } = recordingProvider(["malformed", "ok"]);
+      const response = await advisorFor(provider).getStructuredChatResponse("What is bail?");
+
+      assert.equal(response.meta?.source, "repaired");
+      assert.equal(requests.length, 2);
+      const repair = requests[1].messages.at(-1)?.text ?? "";
+      assert.match(repair, /not valid JSON/);
+    });
+
+    it("repairs JSON that does not match the schema", async () => {
+      const { provider, requests } = recordingProvider(["ok"], '{"title":"Bail"}');
+      const response = await advisorFor(provider).getStructuredChatResponse("What is bail?");
+
+      assert.equal(response.meta?.source, "repaired");
+      assert.match(requests[1].messages.at(-1)?.text ?? "", /summary/);
+    });
+
+    it("falls back to plain text when the repair fails too", async () => {
+      const response = await fakeAdvisor(["malformed"]).getStructuredChatResponse("What is bail?");
+      assert.equal(response.meta?.source, "fallback");
+      assert.ok(response.content.length > 0);
+    });
+
+    it("sends the response schema to a model that supports it", async () => {
+      const { provider, requests } = recordingProvider(["ok"]);
+      await advisorFor(provider).getStructuredChatResponse("What is bail?");
+      assert.equal(requests[0].responseSchema?.type, "object");
+    });
+
+    it("asks for the rest of an answer cut off at the token limit", async () => {
+      const response = await fakeAdvisor(["truncate", "ok"]).getStructuredChatResponse("What is bail?");
+      assert.equal(response.meta?.source, "model");
+      assert.equal(response.meta?.truncated, undefined);
+      assert.equal(response.title, "Sample title");
+    });
+
+    it("streams partial answers that grow to the final one", async () => {
+      const partials: PartialStructuredResponse[] = [];
+      const response = await fakeAdvisor(["ok"]).streamStructuredChatResponse("What is bail?", {
+        onPartial: (partial) => partials.push(partial),
+      });
+
+      assert.ok(partials.length > 1);
+      const items = partials.map((partial) => partial.content?.length ?? 0);
+      assert.deepEqual(items, [...items].sort((a, b) => a - b));
+      assert.equal(partials.at(-1)?.title, response.title);
+      assert.equal(response.meta?.source, "model");
+    });
+  });
+
+  describe("response cache", () => {
+    it("serves a repeated question without calling the model", async () => {
+      // A second call to the model would be rejected
+      const advisor = fakeAdvisor(["ok", "invalid_key"], { cache: createMemoryCache() });
+      const first = await advisor.getStructuredChatResponse("What is bail?");
+      await settle();
+
+      const second = await advisor.getStructuredChatResponse("What  is BAIL?");
+      assert.equal(second.meta?.cached, true);
+      assert.equal(second.title, first.title);
+    });
+
+    it("asks the model again on refresh", async () => {
+      const advisor = fakeAdvisor(["ok", "invalid_key"], { cache: createMemoryCache() });
+      await advisor.getStructuredChatResponse("What is bail?");
+      await settle();
+
+      await assert.rejects(
+        advisor.getStructuredChatResponse("What is bail?", { refresh: true }),
+        InvalidKeyError
+      );
+    });
+
+    it("does not keep plain-text fallbacks", async () => {
+      const advisor = fakeAdvisor(["malformed", "malformed", "ok"], { cache: createMemoryCache() });
+      const fallback = await advisor.getStructuredChatResponse("What is bail?");
+      await settle();
+
+      assert.equal(fallback.meta?.source, "fallback");
+      const again = await advisor.getStructuredChatResponse("What is bail?");
+      assert.equal(again.meta?.cached, undefined);
+      assert.equal(again.meta?.source, "model");
+    });
+  });
+
+  describe("chat", () => {
+    it("keeps the history across turns and models", async () => {
+      const advisor = fakeAdvisor(["ok", "quota", "ok"]);
+      const chat = advisor.startChat();
+
+      assert.equal(await advisor.sendChatMessage(chat, "What is bail?"), "Sample answer to: What is bail?");
+      assert.equal(
+        await advisor.sendChatMessage(chat, "And anticipatory bail?"),
+        "Sample answer to: And anticipatory bail?"
+      );
+      assert.deepEqual(
+        chat.getHistory().map(({ role }) => role),
+        ["user", "model", "user", "model"]
+      );
+    });
+
+    it("leaves the history alone when a turn fails", async () => {
+      const advisor = fakeAdvisor(["invalid_key"]);
+      const chat = advisor.startChat(undefined, [
+        { role: "user", text: "What is bail?" },
+        { role: "model", text: "Release pending trial." },
+      ]);
+
+      await assert.rejects(advisor.sendChatMessage(chat, "And anticipatory bail?"), InvalidKeyError);
+      assert.equal(chat.getHistory().length, 2);
+    });
+  });
+});
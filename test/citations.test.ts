@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { CaseAnalysisResponse } from "../src/utils/advisor";
+import { annotateCaseCitations, annotateCitations, findCitations } from "../src/utils/legal/citations";
+
+const statuses = (text: string) =>
+  findCitations(text).map(({ actShort, section, status }) => `${actShort} ${section}: ${status}`);
+
+describe("findCitations", () => {
+  it("checks each cited section against the statute index", () => {
+    assert.deepEqual(
+      statuses("See Section 103 of the BNS, Section 9999 of the BNS and Section 420 of the IPC."),
+      ["BNS 103: verified", "BNS 9999: unknown", "IPC 420: repealed"]
+    );
+  });
+
+  it("points a repealed section to its replacement", () => {
+    const [citation] = findCitations("Section 420 of the IPC");
+    assert.deepEqual(citation.equivalent?.new, { act: "bns", section: "318(4)" });
+    assert.ok(citation.note);
+  });
+
+  it("reads citations with the act first", () => {
+    assert.deepEqual(statuses("BNS Section 103"), ["BNS 103: verified"]);
+  });
+
+  it("skips sections cited without an act and repeated citations", () => {
+    assert.deepEqual(statuses("Under section 103 the court may act."), []);
+    assert.deepEqual(statuses("Section 103 of the BNS. Again, Section 103 of the BNS."), ["BNS 103: verified"]);
+  });
+});
+
+describe("annotateCitations", () => {
+  it("records citations on the item that makes them", () => {
+    const response = annotateCitations({
+      title: "Murder",
+      summary: "",
+      content: [
+        { type: "text", content: "No statute here." },
+        { type: "citation", content: "Punishment for murder", act: "Bharatiya Nyaya Sanhita, 2023", section: "103" },
+      ],
+    });
+    assert.equal(response.content[0].citations, undefined);
+    assert.equal(response.content[1].citations?.[0].status, "verified");
+  });
+});
+
+describe("annotateCaseCitations", () => {
+  it("keys the citations by field", () => {
+    const analysis: CaseAnalysisResponse = {
+      title: "Cheating",
+      summary: "",
+      legalAssessment: "An offence under Section 420 of the IPC.",
+      keyIssues: ["Intent"],
+      recommendedActions: ["File a complaint under Section 318 of the BNS"],
+      potentialRisks: [],
+      nextSteps: [],
+    };
+    const { citations } = annotateCaseCitations(analysis);
+    assert.deepEqual(Object.keys(citations ?? {}).sort(), ["legalAssessment", "recommendedActions"]);
+    assert.equal(citations?.legalAssessment?.[0].status, "repealed");
+  });
+});
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  CODE_MAPPINGS,
+  convertSection,
+  formatCodeSection,
+  isConvertible,
+  searchMappings,
+} from "../src/utils/legal/codeMapping";
+import { getStatute } from "../src/utils/legal/statutes";
+
+describe("convertSection", () => {
+  it("finds the new section for an old one", () => {
+    const [mapping] = convertSection("ipc", "302");
+    assert.deepEqual(mapping.new, { act: "bns", section: "103(1)" });
+  });
+
+  it("finds every old section behind a new one, ignoring sub-sections", () => {
+    assert.deepEqual(
+      convertSection("bns", "318").map(({ old }) => old.section),
+      ["415", "417", "420"]
+    );
+    assert.deepEqual(convertSection("bns", "318(4)"), convertSection("bns", "318"));
+  });
+
+  it("finds nothing for a section outside the table", () => {
+    assert.deepEqual(convertSection("ipc", "9999"), []);
+    assert.deepEqual(convertSection("constitution", "21"), []);
+  });
+});
+
+describe("searchMappings", () => {
+  it("matches headings and section prefixes", () => {
+    assert.ok(searchMappings("murder").some(({ old }) => old.section === "302"));
+    const bySection = searchMappings("498");
+    assert.ok(bySection.length > 0);
+    for (const mapping of bySection) {
+      assert.ok([mapping.old, mapping.new].some((side) => side?.section.startsWith("498")));
+    }
+  });
+
+  it("only matches sections of the chosen act", () => {
+    const results = searchMappings("10", "bns");
+    assert.ok(results.length > 0);
+    assert.ok(results.every((mapping) => mapping.new?.act === "bns"));
+  });
+});
+
+describe("CODE_MAPPINGS", () => {
+  it("only refers to acts in the statute index", () => {
+    for (const mapping of CODE_MAPPINGS) {
+      assert.ok(getStatute(mapping.old.act), mapping.old.act);
+      if (mapping.new) assert.ok(getStatute(mapping.new.act), mapping.new.act);
+    }
+  });
+});
+
+describe("isConvertible", () => {
+  it("covers the replaced codes and their replacements", () => {
+    for (const act of ["ipc", "crpc", "iea", "bns", "bnss", "bsa"]) assert.equal(isConvertible(act), true);
+    assert.equal(isConvertible("constitution"), false);
+  });
+});
+
+describe("formatCodeSection", () => {
+  it("uses the act's short name", () => {
+    assert.equal(formatCodeSection({ act: "bns", section: "103(1)" }), "BNS s. 103(1)");
+  });
+});
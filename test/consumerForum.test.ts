@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { considerationPaid } from "../src/utils/legal/caseTypes";
+import { selectConsumerForum } from "../src/utils/legal/consumerForum";
+import { consumerCommissionFee, estimateCosts } from "../src/utils/legal/fees";
+
+// Paid ₹5 lakh, claiming ₹60 lakh in compensation
+const intake = { amountPaid: "500000" };
+const claim = 60_00_000;
+
+describe("consumer forum", () => {
+  it("goes by the amount paid, not the compensation claimed", () => {
+    const consideration = considerationPaid(intake);
+    assert.equal(consideration, 5_00_000);
+
+    const forum = selectConsumerForum({ consideration: consideration!, complainantLocation: "Pune" });
+    assert.equal(forum.commission, "district");
+  });
+
+  it("charges the consumer fee on the amount paid", () => {
+    const [fee, ...rest] = estimateCosts({
+      caseType: "Consumer Complaint: Defective Goods",
+      location: "Pune, Maharashtra",
+      value: claim,
+      consideration: considerationPaid(intake),
+    });
+    assert.equal(rest.length, 0);
+    assert.equal(fee.low, consumerCommissionFee(5_00_000));
+    assert.match(fee.label, /₹5,00,000/);
+  });
+
+  it("selects no fee without an amount paid", () => {
+    assert.equal(considerationPaid({}), undefined);
+    assert.deepEqual(
+      estimateCosts({ caseType: "Consumer Complaint: Deficient Service", location: "Pune", value: claim }),
+      []
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { StructuredChatResponse } from "../src/utils/advisor";
+import { serializeAnswer, toHistory, type ConversationTurn } from "../src/utils/conversation";
+
+const answer = (title: string): StructuredChatResponse => ({
+  title,
+  summary: `About ${title}`,
+  content: [
+    { type: "text", content: "x".repeat(400) },
+    { type: "citation", content: "Punishment for murder", act: "BNS", section: "103" },
+    { type: "warning", content: "This is not legal advice." },
+  ],
+  meta: { source: "model", model: "gemini-2.5-flash" },
+});
+
+const turn = (question: string): ConversationTurn => ({ question, answer: answer(question) });
+
+describe("serializeAnswer", () => {
+  it("keeps the answer's shape without the disclaimer or meta", () => {
+    const serialized = JSON.parse(serializeAnswer(answer("Bail")));
+    assert.deepEqual(Object.keys(serialized), ["title", "summary", "content"]);
+    assert.deepEqual(
+      serialized.content.map((item: { type: string }) => item.type),
+      ["text", "citation"]
+    );
+    assert.deepEqual(serialized.content[1], {
+      type: "citation",
+      content: "Punishment for murder",
+      act: "BNS",
+      section: "103",
+    });
+  });
+
+  it("shortens long text blocks", () => {
+    const [text] = JSON.parse(serializeAnswer(answer("Bail"))).content;
+    assert.equal(text.content, `${"x".repeat(300)}...`);
+  });
+});
+
+describe("toHistory", () => {
+  it("alternates questions and serialized answers", () => {
+    const history = toHistory([turn("What is bail?")]);
+    assert.deepEqual(history, [
+      { role: "user", text: "What is bail?" },
+      { role: "model", text: serializeAnswer(answer("What is bail?")) },
+    ]);
+  });
+
+  it("keeps only the latest turns", () => {
+    const turns = Array.from({ length: 8 }, (_, index) => turn(`Question ${index + 1}`));
+    const questions = toHistory(turns)
+      .filter(({ role }) => role === "user")
+      .map(({ text }) => text);
+    assert.deepEqual(questions, ["Question 3", "Question 4", "Question 5", "Question 6", "Question 7", "Question 8"]);
+  });
+});
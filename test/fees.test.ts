@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CASE_TAXONOMY, formatCaseType, getCaseCategory } from "../src/utils/legal/caseTypes";
+import { estimateCosts } from "../src/utils/legal/fees";
+
+const labels = (caseType: string) =>
+  estimateCosts({ caseType, location: "Mumbai, Maharashtra", value: 5_00_000 }).map(({ label }) => label);
+const hasStampDuty = (caseType: string) => labels(caseType).some((label) => label.startsWith("Stamp duty"));
+
+describe("estimateCosts", () => {
+  it("gives a title, tenancy or partition dispute no stamp duty line", () => {
+    assert.deepEqual(labels("Property Case: Landlord and Tenant"), [
+      "Court fee on a suit over property valued at ₹5,00,000, with process fees and copies",
+    ]);
+    assert.ok(!hasStampDuty("Property Case: Partition"));
+    assert.ok(!hasStampDuty("Property Case: Title or Possession"));
+  });
+
+  it("adds stamp duty only for the property sub-type that ends in a sale", () => {
+    const property = getCaseCategory("property")!;
+    const withStampDuty = property.subtypes
+      .filter((subtype) => hasStampDuty(formatCaseType(property, subtype)))
+      .map(({ id }) => id);
+    assert.deepEqual(withStampDuty, ["specific-performance"]);
+    assert.deepEqual(labels("Property Case: Specific Performance of a Sale Agreement"), [
+      "Court fee on a suit over property valued at ₹5,00,000, with process fees and copies",
+      "Stamp duty and registration on a transfer of property worth ₹5,00,000",
+    ]);
+  });
+
+  it("adds stamp duty to no case type outside property", () => {
+    for (const category of CASE_TAXONOMY.filter(({ id }) => id !== "property")) {
+      for (const subtype of category.subtypes) {
+        const caseType = formatCaseType(category, subtype);
+        assert.ok(!hasStampDuty(caseType), caseType);
+      }
+    }
+  });
+
+  it("estimates only the suit for a contract dispute", () => {
+    assert.ok(!hasStampDuty("Contract Dispute: Breach of Contract"));
+    assert.equal(labels("Contract Dispute: Breach of Contract").length, 1);
+  });
+
+  it("charges no Labour Court fee for a sexual harassment complaint", () => {
+    assert.deepEqual(labels("Labor: Sexual Harassment at Work"), ["Complaint to the Internal or Local Committee"]);
+  });
+
+  it("gives domestic violence no matrimonial petition fee", () => {
+    assert.deepEqual(labels("Family Law: Domestic Violence"), []);
+  });
+
+  it("gives the drawer of a dishonoured cheque no complaint fee", () => {
+    assert.deepEqual(labels("Cheque Bounce: Complaint Against You"), []);
+  });
+});
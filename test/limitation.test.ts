@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { computeDeadline, getLimitationRule, rulesForCaseType } from "../src/utils/legal/limitation";
+
+const ruleIds = (caseType: string) => rulesForCaseType(caseType).map(({ id }) => id);
+
+describe("rulesForCaseType", () => {
+  it("gives sexual harassment at work the POSH Act complaint window, not the labour rules", () => {
+    assert.deepEqual(ruleIds("Labor: Sexual Harassment at Work"), ["posh-9"]);
+  });
+
+  it("gives domestic violence the DV Act appeal, not the matrimonial rules", () => {
+    assert.deepEqual(ruleIds("Family Law: Domestic Violence"), ["dv-29"]);
+  });
+
+  it("gives the drawer of a dishonoured cheque the payment window, not the payee's notice", () => {
+    assert.deepEqual(ruleIds("Cheque Bounce: Complaint Against You"), ["ni-138-payment"]);
+    assert.deepEqual(ruleIds("Cheque Bounce: Your Cheque Was Dishonoured"), ["ni-138-notice", "ni-142-complaint"]);
+  });
+
+  it("gives specific performance of a sale agreement Article 54 ahead of the possession suits", () => {
+    assert.deepEqual(ruleIds("Property Case: Specific Performance of a Sale Agreement"), ["art-54", "art-116"]);
+  });
+
+  it("keeps the broad rules for the other sub-types of those categories", () => {
+    assert.deepEqual(ruleIds("Labor: Wrongful Termination"), ["ida-2a", "art-113"]);
+    assert.deepEqual(ruleIds("Family Law: Divorce"), ["hma-28", "art-116"]);
+  });
+});
+
+describe("computeDeadline", () => {
+  const deadline = (ruleId: string, from: string, today: string) =>
+    computeDeadline(getLimitationRule(ruleId)!, from, today);
+
+  it("excludes the day time starts from", () => {
+    // Three years from 10 January 2024 end on 10 January 2027, not the 9th
+    assert.equal(deadline("art-55", "2024-01-10", "2024-06-01")?.lastDay, "2027-01-10");
+    // Thirty days from 1 January end on 31 January
+    assert.equal(deadline("ni-138-notice", "2024-01-01", "2024-01-02")?.lastDay, "2024-01-31");
+  });
+
+  it("ends a month that is too short on its last day", () => {
+    assert.equal(deadline("ni-142-complaint", "2023-01-31", "2023-02-01")?.lastDay, "2023-02-28");
+    assert.equal(deadline("ni-142-complaint", "2024-01-31", "2024-02-01")?.lastDay, "2024-02-29");
+  });
+
+  it("handles leap days", () => {
+    assert.equal(deadline("art-65", "2024-02-29", "2024-03-01")?.lastDay, "2036-02-29");
+    assert.equal(deadline("art-55", "2024-02-29", "2024-03-01")?.lastDay, "2027-02-28");
+    assert.equal(deadline("art-55", "2023-02-29", "2024-03-01"), undefined);
+  });
+
+  it("flags a deadline that has passed, one closing and the weekend", () => {
+    const expired = deadline("ni-138-notice", "2024-01-01", "2024-02-05");
+    assert.equal(expired?.daysLeft, -5);
+    assert.equal(expired?.status, "expired");
+
+    const closing = deadline("ni-138-notice", "2024-01-01", "2024-01-31");
+    assert.equal(closing?.daysLeft, 0);
+    assert.equal(closing?.status, "closing");
+
+    // 10 January 2027 is a Sunday
+    assert.equal(deadline("art-55", "2024-01-10", "2024-06-01")?.weekend, true);
+    assert.equal(deadline("art-55", "2024-01-10", "2024-06-01")?.status, "open");
+  });
+});
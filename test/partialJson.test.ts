@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parsePartialJSON, PartialJSONParser } from "../src/utils/partialJson";
+
+describe("parsePartialJSON", () => {
+  it("closes an open string value so long texts grow while streaming", () => {
+    assert.deepEqual(parsePartialJSON('{"title":"Bail","summary":"Release pen'), {
+      title: "Bail",
+      summary: "Release pen",
+    });
+  });
+
+  it("cuts back half-written keys, literals and trailing commas", () => {
+    assert.deepEqual(parsePartialJSON('{"title":"Bail","summ'), { title: "Bail" });
+    assert.deepEqual(parsePartialJSON('{"items":[1,2,'), { items: [1, 2] });
+    assert.deepEqual(parsePartialJSON('{"done":tr'), {});
+  });
+
+  it("ignores text before the document", () => {
+    assert.deepEqual(parsePartialJSON('```json\n{"title":"Bail"}'), { title: "Bail" });
+    assert.equal(parsePartialJSON("Here is"), undefined);
+  });
+
+  it("drops an escape sequence that is not complete yet", () => {
+    assert.deepEqual(parsePartialJSON('{"text":"a\\u00'), { text: "a" });
+    assert.deepEqual(parsePartialJSON('{"text":"a\\u00e9'), { text: "aé" });
+  });
+});
+
+describe("PartialJSONParser", () => {
+  it("yields the same value chunk by chunk as in one go", () => {
+    const document = JSON.stringify({
+      title: "Bail",
+      content: [{ type: "text", content: 'He said "no"' }, { type: "list", items: ["a", "b"] }],
+    });
+    const parser = new PartialJSONParser();
+    for (let start = 0; start < document.length; start += 7) {
+      parser.push(document.slice(start, start + 7));
+    }
+    assert.equal(parser.complete, true);
+    assert.deepEqual(parser.value(), JSON.parse(document));
+  });
+
+  it("stops at the end of the top-level value", () => {
+    const parser = new PartialJSONParser();
+    parser.push('{"title":"Bail"}\n```');
+    assert.equal(parser.complete, true);
+    assert.equal(parser.text, '{"title":"Bail"}');
+  });
+});
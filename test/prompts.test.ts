@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ConfigError } from "../src/utils/llm";
+import { readPromptVersions } from "../src/utils/prompts";
+
+const read = (value: string) => readPromptVersions({ LLM_PROMPT_VERSIONS: value }, "");
+
+describe("readPromptVersions", () => {
+  it("reads a pinned version per template", () => {
+    assert.deepEqual(read('{"chat.question":1}'), { "chat.question": 1 });
+    assert.deepEqual(readPromptVersions({}), {});
+  });
+
+  it("rejects an unknown template or version", () => {
+    assert.throws(() => read('{"chat.questions":1}'), ConfigError);
+    assert.throws(() => read('{"chat.question":99}'), ConfigError);
+    assert.throws(() => read('{"chat.question":"1"}'), ConfigError);
+  });
+
+  it("rejects malformed JSON", () => {
+    assert.throws(() => read('{"chat.question":'), ConfigError);
+    assert.throws(() => read("[1]"), ConfigError);
+  });
+});
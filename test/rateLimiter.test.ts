@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ConfigError } from "../src/utils/llm";
+import { readRateLimits } from "../src/utils/rateLimiter";
+
+const read = (value: string, env: Record<string, string> = {}) =>
+  readRateLimits({ LLM_RATE_LIMITS: value, ...env }, "");
+
+describe("readRateLimits", () => {
+  it("reads limits per model", () => {
+    assert.deepEqual(read('{"gemini-2.5-flash":{"maxRequestsPerMinute":10,"minInterval":6000}}'), {
+      "gemini-2.5-flash": { maxRequestsPerMinute: 10, minInterval: 6000 },
+    });
+    assert.deepEqual(readRateLimits({}), {});
+  });
+
+  it("accepts a model listed in LLM_MODELS but not in the registry", () => {
+    assert.deepEqual(read('{"my-model":{"minInterval":0}}', { LLM_MODELS: "gemini-2.5-flash, my-model" }), {
+      "my-model": { minInterval: 0 },
+    });
+  });
+
+  it("rejects an unknown model or field", () => {
+    assert.throws(() => read('{"gemini-flash":{"minInterval":1000}}'), ConfigError);
+    assert.throws(() => read('{"gemini-2.5-flash":{"maxRequestsPerMin":10}}'), ConfigError);
+  });
+
+  it("rejects values that are not usable numbers", () => {
+    assert.throws(() => read('{"gemini-2.5-flash":{"maxRequestsPerMinute":"10"}}'), ConfigError);
+    assert.throws(() => read('{"gemini-2.5-flash":{"maxRequestsPerMinute":0}}'), ConfigError);
+    assert.throws(() => read('{"gemini-2.5-flash":{"minInterval":-1}}'), ConfigError);
+  });
+
+  it("rejects malformed JSON and values of the wrong shape", () => {
+    assert.throws(() => read("{"), ConfigError);
+    assert.throws(() => read('{"gemini-2.5-flash":10}'), ConfigError);
+  });
+});
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RateLimitError, RequestCancelledError } from "../src/utils/errors";
+import { RequestQueue, type QueueStatus } from "../src/utils/requestQueue";
+
+/** Limiter that is out of budget until `open()` is called */
+function gate(initiallyOpen = true) {
+  let isOpen = initiallyOpen;
+  return {
+    canMakeRequest: () => isOpen,
+    getTimeUntilNextRequest: () => (isOpen ? 0 : 50),
+    open: () => (isOpen = true),
+  };
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("RequestQueue", () => {
+  it("sends requests one at a time, highest priority first", async () => {
+    const limiter = gate(false);
+    const queue = new RequestQueue(limiter, 0);
+    const sent: string[] = [];
+    const request = (name: string) => async () => {
+      sent.push(name);
+      return name;
+    };
+
+    const low = queue.enqueue(request("low"), { priority: "low" });
+    const normal = queue.enqueue(request("normal"));
+    const high = queue.enqueue(request("high"), { priority: "high" });
+    assert.equal(queue.size, 3);
+
+    limiter.open();
+    assert.deepEqual(await Promise.all([low.promise, normal.promise, high.promise]), ["low", "normal", "high"]);
+    assert.deepEqual(sent, ["high", "normal", "low"]);
+    assert.equal(queue.size, 0);
+  });
+
+  it("reports the position while waiting and 0 once sent", async () => {
+    const limiter = gate(false);
+    const queue = new RequestQueue(limiter, 0);
+    const statuses: QueueStatus[] = [];
+
+    queue.enqueue(async () => "first");
+    const second = queue.enqueue(async () => "second", { onStatus: (status) => statuses.push(status) });
+    assert.equal(statuses.at(-1)?.position, 2);
+
+    limiter.open();
+    await second.promise;
+    assert.equal(statuses.at(-1)?.position, 0);
+  });
+
+  it("rejects a request cancelled before it was sent", async () => {
+    const queue = new RequestQueue(gate(false), 0);
+    const controller = new AbortController();
+    const cancelled = queue.enqueue(async () => "cancelled");
+    const aborted = queue.enqueue(async () => "aborted", { signal: controller.signal });
+
+    cancelled.cancel();
+    controller.abort();
+    await assert.rejects(cancelled.promise, RequestCancelledError);
+    await assert.rejects(aborted.promise, RequestCancelledError);
+    assert.equal(queue.size, 0);
+  });
+
+  it("sends a rate limited request again after the wait it was given", async () => {
+    const queue = new RequestQueue(gate(), 0);
+    let attempts = 0;
+    const started = Date.now();
+    const { promise } = queue.enqueue(async () => {
+      attempts += 1;
+      if (attempts === 1) throw new RateLimitError(100);
+      return "sent";
+    });
+
+    assert.equal(await promise, "sent");
+    assert.equal(attempts, 2);
+    assert.ok(Date.now() - started >= 90);
+  });
+
+  it("gives up on a request that keeps hitting the limit", async () => {
+    const queue = new RequestQueue(gate(), 0);
+    let attempts = 0;
+    const { promise } = queue.enqueue(async () => {
+      attempts += 1;
+      throw new RateLimitError(1);
+    });
+
+    await assert.rejects(promise, RateLimitError);
+    assert.equal(attempts, 4);
+  });
+
+  it("fails a request on any other error without retrying", async () => {
+    const queue = new RequestQueue(gate(), 0);
+    let attempts = 0;
+    const { promise } = queue.enqueue(async () => {
+      attempts += 1;
+      throw new Error("boom");
+    });
+
+    await assert.rejects(promise, /boom/);
+    assert.equal(attempts, 1);
+    await delay(10);
+    assert.equal(queue.size, 0);
+  });
+});
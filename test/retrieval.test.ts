@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Passage } from "../src/utils/legal/corpus";
+import { createBareActRetriever, createBM25Retriever } from "../src/utils/legal/retrieval";
+
+const passage = (id: string, heading: string, text: string): Passage => ({ id, act: "test", section: id, heading, text });
+
+// Every passage shares "punishment", as the sections of a penal code do
+const PASSAGES = [
+  passage("murder", "Punishment for murder", "Whoever commits murder shall be punished with death or imprisonment for life."),
+  passage("theft", "Punishment for theft", "Whoever commits theft shall be punished with imprisonment which may extend to three years."),
+  passage("cheating", "Punishment for cheating", "Whoever cheats shall be punished with imprisonment which may extend to one year."),
+  passage("hurt", "Punishment for hurt", "Whoever voluntarily causes hurt shall be punished with imprisonment which may extend to one year."),
+];
+
+const ids = (query: string, options?: Parameters<typeof createBM25Retriever>[1]) =>
+  createBM25Retriever(PASSAGES, options)
+    .search(query, 4)
+    .map(({ id }) => id);
+
+describe("createBM25Retriever", () => {
+  // No minimum score, so only the relative cutoff filters
+  it("drops passages matching only a side word of the query", () => {
+    assert.deepEqual(ids("punishment for murder", { minScore: 0 }), ["murder"]);
+  });
+
+  it("keeps them without the relative cutoff", () => {
+    assert.deepEqual(ids("punishment for murder", { minScore: 0, relativeScore: 0 }).sort(), [
+      "cheating",
+      "hurt",
+      "murder",
+      "theft",
+    ]);
+  });
+
+  it("keeps every passage scoring close to the best one", () => {
+    assert.deepEqual(ids("murder or theft").sort(), ["murder", "theft"]);
+  });
+
+  it("returns nothing when no passage reaches the minimum score", () => {
+    assert.deepEqual(ids("hello there"), []);
+    assert.deepEqual(ids("punishment"), []);
+  });
+});
+
+describe("createBareActRetriever", () => {
+  const search = (query: string) =>
+    createBareActRetriever()
+      .search(query, 4)
+      .map(({ id }) => id);
+
+  it("finds the BNS section that replaced a cited IPC section", () => {
+    assert.equal(search("What is section 420 IPC punishment for cheating?")[0], "bns-318");
+  });
+
+  it("finds passages by legal terms that are also common words", () => {
+    assert.equal(search("right to information")[0], "rti-6");
+    assert.ok(search("return of dowry").includes("dowry-3"));
+    assert.equal(search("fine for cheque bounce")[0], "ni-138");
+  });
+});
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  InvalidKeyError,
+  NetworkError,
+  RateLimitError,
+  RequestCancelledError,
+  UpstreamError,
+} from "../src/utils/errors";
+import { backoffDelay, withRetry } from "../src/utils/retry";
+
+// Fails with `errors` in turn, then resolves with the attempt that succeeded
+const failing = (...errors: unknown[]) => {
+  let calls = 0;
+  const fn = async (attempt: number) => {
+    calls += 1;
+    if (attempt < errors.length) throw errors[attempt];
+    return attempt;
+  };
+  return { fn, calls: () => calls };
+};
+
+describe("backoffDelay", () => {
+  it("doubles with every attempt, with jitter down to half", () => {
+    for (const attempt of [0, 1, 2, 3]) {
+      const full = 100 * 2 ** attempt;
+      for (let run = 0; run < 20; run++) {
+        const delay = backoffDelay(attempt, 100);
+        assert.ok(delay >= full / 2 && delay <= full, `${delay} for attempt ${attempt}`);
+      }
+    }
+  });
+});
+
+describe("withRetry", () => {
+  it("retries transient errors until one attempt succeeds", async () => {
+    const { fn, calls } = failing(new NetworkError(), new UpstreamError(503, "Unavailable"));
+    assert.equal(await withRetry(fn, { baseDelay: 1 }), 2);
+    assert.equal(calls(), 3);
+  });
+
+  it("gives up after `retries` and throws the last error", async () => {
+    const last = new NetworkError("third");
+    const { fn, calls } = failing(new NetworkError(), new NetworkError(), last, new NetworkError());
+    await assert.rejects(withRetry(fn, { baseDelay: 1 }), (error) => error === last);
+    assert.equal(calls(), 3);
+  });
+
+  it("does not retry client errors", async () => {
+    const invalidKey = failing(new InvalidKeyError());
+    await assert.rejects(withRetry(invalidKey.fn, { baseDelay: 1 }), InvalidKeyError);
+    assert.equal(invalidKey.calls(), 1);
+
+    const badRequest = failing(new UpstreamError(400, "Bad request"));
+    await assert.rejects(withRetry(badRequest.fn, { baseDelay: 1 }), UpstreamError);
+    assert.equal(badRequest.calls(), 1);
+  });
+
+  it("waits at least as long as the API or the limiter asks", async () => {
+    const delays: number[] = [];
+    const { fn } = failing(new RateLimitError(30), new NetworkError());
+    await withRetry(fn, {
+      baseDelay: 1,
+      minDelay: () => 20,
+      onRetry: (_error, attempt, delay) => delays.push(attempt, delay),
+    });
+    assert.deepEqual(delays, [1, 30, 2, 20]);
+  });
+
+  it("gives up rather than wait longer than `maxDelay`", async () => {
+    const { fn, calls } = failing(new RateLimitError(60_000));
+    await assert.rejects(withRetry(fn, { maxDelay: 1000 }), RateLimitError);
+    assert.equal(calls(), 1);
+  });
+
+  it("stops waiting when the signal fires", async () => {
+    const controller = new AbortController();
+    const { fn, calls } = failing(new NetworkError());
+    const retrying = withRetry(fn, { baseDelay: 10_000, maxDelay: 60_000, signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+    await assert.rejects(retrying, RequestCancelledError);
+    assert.equal(calls(), 1);
+  });
+});
@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ConfigError } from "../src/utils/llm";
+import { readSafetySettings } from "../src/utils/safety";
+
+const read = (value: string) => readSafetySettings({ LLM_SAFETY_SETTINGS: value }, "");
+
+describe("readSafetySettings", () => {
+  it("reads settings per feature", () => {
+    assert.deepEqual(read('{"chat":{"dangerous_content":"block_none"}}'), {
+      chat: { dangerous_content: "block_none" },
+    });
+    assert.deepEqual(readSafetySettings({}), {});
+  });
+
+  it("rejects an unknown feature, category or threshold", () => {
+    assert.throws(() => read('{"chats":{"dangerous_content":"block_none"}}'), ConfigError);
+    assert.throws(() => read('{"chat":{"dangerous":"block_none"}}'), ConfigError);
+    assert.throws(() => read('{"chat":{"dangerous_content":"block_nothing"}}'), ConfigError);
+  });
+
+  it("rejects malformed JSON and values of the wrong shape", () => {
+    assert.throws(() => read('{"chat":'), ConfigError);
+    assert.throws(() => read('["chat"]'), ConfigError);
+    assert.throws(() => read('{"chat":"block_none"}'), ConfigError);
+  });
+});
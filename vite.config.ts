@@ -1,13 +1,52 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "path";
+import { mkdir, writeFile } from "fs/promises";
 import tailwindcss from "@tailwindcss/vite";
 
+const FIXTURES_DIR = path.resolve(__dirname, "./fixtures/llm");
+
+/**
+ * Saves the fixtures the browser records with `VITE_LLM_FIXTURES=record`
+ * (see src/utils/fixtureStore.ts). Dev server only. New files are not
+ * watched, so recording does not reload the page; restart the dev server
+ * to replay them.
+ */
+const fixtureRecorder = (): Plugin => ({
+	name: "lenis-fixture-recorder",
+	apply: "serve",
+	config: () => ({ server: { watch: { ignored: [`${FIXTURES_DIR}/**`] } } }),
+	configureServer(server) {
+		server.middlewares.use("/__fixtures", (request, response, next) => {
+			const key = request.url?.slice(1) ?? "";
+			if (request.method !== "POST" || !/^[0-9a-f]{64}$/.test(key)) return next();
+
+			let body = "";
+			request.on("data", (chunk) => (body += chunk));
+			request.on("end", async () => {
+				try {
+					const fixture = JSON.parse(body);
+					await mkdir(FIXTURES_DIR, { recursive: true });
+					await writeFile(
+						path.join(FIXTURES_DIR, `${key}.json`),
+						`${JSON.stringify(fixture, null, 2)}\n`
+					);
+					response.statusCode = 204;
+				} catch (error) {
+					console.error("Could not save fixture:", error);
+					response.statusCode = 400;
+				}
+				response.end();
+			});
+		});
+	},
+});
+
 export default defineConfig({
-	plugins: [react(), tailwindcss()],
+	plugins: [react(), tailwindcss(), fixtureRecorder()],
 	resolve: {
 		alias: {
 			"@": path.resolve(__dirname, "./src"),
 		},
 	},
-});
\ No newline at end of file
+});